@@ -9,7 +9,8 @@ module.exports = {
     version: '1.0.0',
     orientation: 'portrait',
     icon: './assets/icon.png',
-    userInterfaceStyle: 'light',
+    userInterfaceStyle: 'automatic',
+    scheme: 'athleticfinance',
     newArchEnabled: true,
     splash: {
       image: './assets/af-logo.png',
@@ -19,6 +20,7 @@ module.exports = {
     ios: {
       bundleIdentifier: 'com.athleticfinance.rn',
       supportsTablet: true,
+      associatedDomains: ['applinks:athleticfinance.com', 'applinks:www.athleticfinance.com'],
     },
     android: {
       package: 'com.athleticfinance.rn',
@@ -28,10 +30,22 @@ module.exports = {
       },
       edgeToEdgeEnabled: true,
       predictiveBackGestureEnabled: false,
+      intentFilters: [
+        {
+          action: 'VIEW',
+          autoVerify: true,
+          data: [
+            { scheme: 'https', host: 'athleticfinance.com', pathPrefix: '/articles' },
+            { scheme: 'https', host: 'athleticfinance.com', pathPrefix: '/members' },
+          ],
+          category: ['BROWSABLE', 'DEFAULT'],
+        },
+      ],
     },
     web: {
       favicon: './assets/favicon.png',
     },
+    plugins: ['expo-notifications', 'expo-iap'],
     extra: {
       // Expose environment variables to the app
       // Support both EXPO_PUBLIC_ and EXPO_ prefixes for flexibility
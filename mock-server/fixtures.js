@@ -0,0 +1,251 @@
+/**
+ * Mock Backend Fixtures
+ *
+ * Seed data for the local mock server. Shapes mirror what the API Gateway
+ * returns (see src/lib/schema.ts); the server keeps a mutable copy in memory,
+ * so restarting it resets everything.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const text = (value, format = 0) => ({ type: 'text', text: value, format });
+const paragraph = (...children) => ({ type: 'paragraph', children });
+const heading = (tag, value) => ({ type: 'heading', tag, children: [text(value)] });
+const divider = () => ({ type: 'horizontalrule' });
+const list = (tag, items) => ({
+  type: 'list',
+  tag,
+  children: items.map((item) => ({ type: 'listitem', children: [text(item)] })),
+});
+
+const media = (id, seed) => ({
+  id,
+  url: `https://picsum.photos/seed/${seed}/1200/800`,
+  width: 1200,
+  height: 800,
+  alt: null,
+  filename: `${seed}.jpg`,
+});
+
+const ARTICLE_TOPICS = [
+  ['The Salary Cap Is a Balance Sheet', 'salary-cap', 'Every front office runs a budget. The cap just makes it public.'],
+  ['Why Stadium Deals Rarely Pay Off', 'stadium-deals', 'Public financing promises growth that the numbers seldom show.'],
+  ['Inside a Rookie Contract', 'rookie-contract', 'Guaranteed money, signing bonuses and the fine print in between.'],
+  ['Media Rights, Explained', 'media-rights', 'Broadcast deals now drive more revenue than ticket sales.'],
+  ['The Economics of Tanking', 'tanking', 'Losing on purpose is a bet on the draft lottery and cheap talent.'],
+  ['How Athletes Invest', 'athletes-invest', 'Short careers demand long horizons.'],
+  ['Betting Markets and the Fan', 'betting-markets', 'Legal sports betting has changed how leagues think about engagement.'],
+  ['Franchise Valuations', 'valuations', 'Why team values keep rising even when teams lose money.'],
+  ['NIL and the College Game', 'nil', 'Name, image and likeness deals turned amateurs into small businesses.'],
+  ['Luxury Tax Math', 'luxury-tax', 'Crossing the threshold costs more than the payroll line suggests.'],
+  ['Player Pensions', 'pensions', 'Retirement plans that outlast the playing days.'],
+  ['Ticket Pricing Goes Dynamic', 'ticket-pricing', 'Airline-style pricing comes to the ballpark.'],
+];
+
+const buildContent = (summary) => ({
+  root: {
+    children: [
+      paragraph(text(summary, 1)),
+      paragraph(
+        text('This is seeded content from the local mock server. '),
+        text('It exists so screens can be exercised without the live API.')
+      ),
+      divider(),
+      heading('h2', 'The numbers'),
+      list('ul', ['Revenue grew year over year', 'Costs grew faster', 'Margins depend on the league']),
+      divider(),
+      heading('h2', 'What it means'),
+      paragraph(text('Fans pay for most of it, one way or another.')),
+    ],
+  },
+});
+
+// Newest first, like /api/articles/recent-batch
+const articles = ARTICLE_TOPICS.map(([title, slug, summary], index) => ({
+  id: 100 + ARTICLE_TOPICS.length - index,
+  title,
+  slug,
+  published_at: daysAgo(index),
+  hero_image_id: index % 3 === 2 ? null : media(500 + index, slug),
+  content: buildContent(summary),
+}));
+
+// Older back catalogue for /api/articles: follow-up parts of the same topics,
+// one a week going back roughly a year, so the archive has months to page through
+const ARCHIVE_SIZE = 48;
+const archiveArticles = Array.from({ length: ARCHIVE_SIZE }, (_, index) => {
+  const [title, slug, summary] = ARTICLE_TOPICS[index % ARTICLE_TOPICS.length];
+  const part = Math.floor(index / ARTICLE_TOPICS.length) + 2;
+  return {
+    id: 100 - 1 - index,
+    title: `${title}, Part ${part}`,
+    slug: `${slug}-part-${part}`,
+    published_at: daysAgo(ARTICLE_TOPICS.length + 2 + index * 7),
+    hero_image_id: index % 4 === 3 ? null : media(700 + index, `${slug}-${part}`),
+    content: buildContent(summary),
+  };
+});
+
+const PREMIUM_TOPICS = [
+  ['Reading a Team Balance Sheet', 'team-balance-sheet', 'Where the money actually goes, line by line.'],
+  ['Private Equity Enters the League', 'private-equity', 'Minority stakes, new rules and what investors expect.'],
+  ['Revenue Sharing Deep Dive', 'revenue-sharing', 'How leagues redistribute money and why it matters for parity.'],
+  ['The Arbitration Playbook', 'arbitration', 'How both sides build a salary arbitration case.'],
+  ['Sponsorship Valuation Models', 'sponsorship-models', 'Putting a price on a jersey patch.'],
+  ['Debt and the Modern Franchise', 'franchise-debt', 'Leverage limits and the lenders behind them.'],
+  ['Regional Sports Networks Unwound', 'rsn-unwound', 'What the collapse of local TV means for payrolls.'],
+  ['Cap Accounting Tricks', 'cap-accounting', 'Void years, restructures and bonus proration.'],
+  ['Valuing Draft Picks', 'draft-pick-value', 'Surplus value models used by front offices.'],
+  ['Global Expansion Economics', 'global-expansion', 'The cost of playing games abroad.'],
+  ['Stadium Naming Rights', 'naming-rights', 'Thirty-year deals and the companies that sign them.'],
+  ['Injury Insurance', 'injury-insurance', 'Who pays when a star contract is on the shelf.'],
+  ['The Second Apron', 'second-apron', 'Roster-building under the harshest payroll penalties.'],
+  ['Women’s Sports Valuations', 'womens-valuations', 'Why investors are paying record prices.'],
+];
+
+// AF+ only; served by /api/articles/premium to accounts on the AF+ plan
+const premiumArticles = PREMIUM_TOPICS.map(([title, slug, summary], index) => ({
+  id: 200 + PREMIUM_TOPICS.length - index,
+  title,
+  slug,
+  published_at: daysAgo(index * 2),
+  hero_image_id: media(600 + index, slug),
+  content: buildContent(summary),
+  tier: 'AF+',
+}));
+
+const users = [
+  {
+    userId: 'mock-user-1',
+    email: 'demo@athleticfinance.test',
+    username: 'demo',
+    name: 'Demo User',
+    description: 'Exploring the business side of sports.',
+    avatar: null,
+    plan: 'AF',
+    userNumber: 42,
+    hideProfile: false,
+    createdAt: daysAgo(120),
+    updatedAt: daysAgo(3),
+  },
+  {
+    userId: 'mock-user-2',
+    email: 'analyst@athleticfinance.test',
+    username: 'cap_analyst',
+    name: 'Cap Analyst',
+    description: 'Spreadsheets and box scores.',
+    avatar: 'https://picsum.photos/seed/cap-analyst/200/200',
+    plan: 'AF+',
+    // Start of the current AF+ membership
+    planStartedAt: daysAgo(380),
+    userNumber: 7,
+    hideProfile: false,
+    createdAt: daysAgo(400),
+    updatedAt: daysAgo(10),
+  },
+  {
+    userId: 'mock-user-3',
+    email: 'fan@athleticfinance.test',
+    username: 'season_ticket',
+    name: 'Season Ticket',
+    description: '',
+    avatar: null,
+    plan: 'AF',
+    userNumber: 1234,
+    hideProfile: true,
+    createdAt: daysAgo(30),
+    updatedAt: daysAgo(30),
+  },
+];
+
+const comments = [
+  {
+    comment_id: 'c-1',
+    article_id: String(articles[0].id),
+    userId: 'mock-user-2',
+    content: 'The cap floor gets talked about far less than the ceiling.',
+    createdAt: daysAgo(0.2),
+    updatedAt: daysAgo(0.2),
+    isDeleted: false,
+    reactions: { 'mock-user-1': 'insightful', 'mock-user-3': 'like' },
+  },
+  {
+    comment_id: 'c-2',
+    article_id: String(articles[0].id),
+    userId: 'mock-user-3',
+    content: 'Great breakdown, would love one on dead money.',
+    createdAt: daysAgo(0.1),
+    updatedAt: daysAgo(0.1),
+    isDeleted: false,
+  },
+  {
+    comment_id: 'c-4',
+    article_id: String(articles[0].id),
+    userId: 'mock-user-1',
+    parentCommentId: 'c-1',
+    content: 'Agreed. Teams near the floor still have to spend the difference.',
+    createdAt: daysAgo(0.15),
+    updatedAt: daysAgo(0.15),
+    isDeleted: false,
+  },
+  {
+    comment_id: 'c-5',
+    article_id: String(articles[0].id),
+    userId: 'mock-user-3',
+    parentCommentId: 'c-1',
+    content: '@cap_analyst Which is how you end up with one-year overpays.',
+    mentions: [{ userId: 'mock-user-2', start: 0, end: 12 }],
+    createdAt: daysAgo(0.05),
+    updatedAt: daysAgo(0.05),
+    isDeleted: false,
+  },
+  {
+    comment_id: 'c-6',
+    article_id: String(articles[0].id),
+    userId: 'mock-user-3',
+    parentCommentId: 'c-2',
+    content: 'Buy my picks at totally-legit-tips.example',
+    createdAt: daysAgo(0.08),
+    updatedAt: daysAgo(0.02),
+    isDeleted: false,
+    status: 'removed',
+  },
+  {
+    comment_id: 'c-3',
+    article_id: String(articles[1].id),
+    userId: 'mock-user-1',
+    content: 'Our city is about to vote on one of these.',
+    createdAt: daysAgo(1),
+    updatedAt: daysAgo(1),
+    isDeleted: false,
+  },
+];
+
+const profileState = {
+  'mock-user-1': {
+    savedArticles: [articles[1].id, articles[3].id],
+    articlesRead: [articles[1].id, articles[2].id, articles[3].id],
+    streak: 3,
+    longestStreak: 5,
+    streakLastReadAt: daysAgo(0.5),
+    streakFreezes: 1,
+    // When each unique article was first read, for the streak calendar
+    readLog: [
+      { articleId: articles[3].id, readAt: daysAgo(2.5) },
+      { articleId: articles[2].id, readAt: daysAgo(1.5) },
+      { articleId: articles[1].id, readAt: daysAgo(0.5) },
+    ],
+    blocked: [],
+  },
+};
+
+module.exports = {
+  articles,
+  archiveArticles,
+  premiumArticles,
+  users,
+  comments,
+  profileState,
+};
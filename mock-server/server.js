@@ -0,0 +1,1324 @@
+/**
+ * Local Mock Backend
+ *
+ * Implements every API Gateway route ApiClient calls, backed by the seeded
+ * fixtures in ./fixtures.js, so screens can be exercised without the live
+ * backend. No dependencies beyond Node itself.
+ *
+ *   npm run mock-server
+ *   EXPO_PUBLIC_API_GATEWAY_URL=http://localhost:4000 npm start
+ *
+ * Failure switches (env vars at startup, or POST /__mock/config at runtime):
+ *   MOCK_LATENCY_MS       base delay added to every response
+ *   MOCK_JITTER_MS        random extra delay on top of the base latency
+ *   MOCK_UNAUTHORIZED=1   answer 401 on every authenticated route
+ *   MOCK_COMMENT_LIMIT=N  answer 429 (limitReached) after N comments per user per day
+ *   MOCK_ERROR_RATE=0.3   fraction of requests that fail with MOCK_ERROR_STATUS
+ *   MOCK_ERROR_STATUS     status used for simulated failures (default 503)
+ *   MOCK_RETRY_AFTER      Retry-After seconds sent with simulated 429/503s
+ */
+
+const http = require('http');
+const { URL } = require('url');
+const fixtures = require('./fixtures');
+
+const PORT = Number(process.env.MOCK_PORT || 4000);
+
+const config = {
+  latencyMs: Number(process.env.MOCK_LATENCY_MS || 0),
+  jitterMs: Number(process.env.MOCK_JITTER_MS || 0),
+  unauthorized: process.env.MOCK_UNAUTHORIZED === '1',
+  commentLimit: Number(process.env.MOCK_COMMENT_LIMIT || 0),
+  errorRate: Number(process.env.MOCK_ERROR_RATE || 0),
+  errorStatus: Number(process.env.MOCK_ERROR_STATUS || 503),
+  retryAfter: process.env.MOCK_RETRY_AFTER ? Number(process.env.MOCK_RETRY_AFTER) : null,
+};
+
+// ========== STATE ==========
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_NOTIFICATIONS = { daily: true, afplus: false };
+
+const state = {
+  articles: fixtures.articles,
+  archiveArticles: fixtures.archiveArticles,
+  premiumArticles: fixtures.premiumArticles,
+  users: new Map(fixtures.users.map((user) => [user.userId, { ...user }])),
+  comments: fixtures.comments.map((comment) => ({ ...comment })),
+  profiles: new Map(
+    Object.entries(fixtures.profileState).map(([userId, profile]) => [
+      userId,
+      {
+        ...profile,
+        savedArticles: [...profile.savedArticles],
+        articlesRead: [...profile.articlesRead],
+        streakFreezes: profile.streakFreezes || 0,
+        readLog: [...(profile.readLog || [])],
+        frozenDays: [...(profile.frozenDays || [])],
+        blocked: [...(profile.blocked || [])],
+        pushTokens: [...(profile.pushTokens || [])],
+        notifications: { ...DEFAULT_NOTIFICATIONS, ...profile.notifications },
+        readingProgress: new Map(),
+        readSessions: [],
+      },
+    ])
+  ),
+  // Uploaded profile pictures, keyed by their fake S3 key
+  pictures: new Map(),
+  // Responses already sent for an Idempotency-Key
+  idempotency: new Map(),
+  // Share events recorded for analytics
+  shares: [],
+  nextCommentId: fixtures.comments.length + 1,
+};
+
+const getProfileState = (userId) => {
+  if (!state.profiles.has(userId)) {
+    state.profiles.set(userId, {
+      savedArticles: [],
+      articlesRead: [],
+      streak: 0,
+      longestStreak: 0,
+      streakLastReadAt: null,
+      streakFreezes: 0,
+      // First read of each unique article ({ articleId, readAt }), for the streak calendar
+      readLog: [],
+      // Missed days a freeze covered, as timestamps within the day
+      frozenDays: [],
+      blocked: [],
+      pushTokens: [],
+      notifications: { ...DEFAULT_NOTIFICATIONS },
+      // Reading position per article ID
+      readingProgress: new Map(),
+      // Read sessions sent by the reader, oldest first
+      readSessions: [],
+    });
+  }
+  return state.profiles.get(userId);
+};
+
+const findArticle = (id) =>
+  [...state.articles, ...state.archiveArticles, ...state.premiumArticles].find((article) => String(article.id) === String(id));
+
+const isAFPlus = (user) => user.plan === 'AF+' || user.plan === 'AFPlus';
+
+// Plain-text body of a Lexical document, for search
+const contentText = (node) =>
+  typeof node.text === 'string' ? node.text : (node.children || []).map(contentText).join(' ');
+
+// Excerpt of the body around the first matching term, with match ranges
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const buildSnippet = (body, terms) => {
+  const lower = body.toLowerCase();
+  const firstHit = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+  let start = Number.isFinite(firstHit) ? Math.max(0, firstHit - SNIPPET_BEFORE) : 0;
+  // Don't cut the first word in half
+  if (start > 0) {
+    const space = body.indexOf(' ', start);
+    start = space >= 0 && space < firstHit ? space + 1 : start;
+  }
+  const end = Math.min(body.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${body.slice(start, end)}${end < body.length ? '…' : ''}`;
+  const snippetLower = snippet.toLowerCase();
+
+  const highlights = [];
+  terms.forEach((term) => {
+    let index = snippetLower.indexOf(term);
+    while (index >= 0) {
+      highlights.push({ start: index, end: index + term.length });
+      index = snippetLower.indexOf(term, index + term.length);
+    }
+  });
+  highlights.sort((a, b) => a.start - b.start);
+  return { snippet, highlights };
+};
+
+// Cursors are opaque to the app; here they just encode an offset
+const encodeCursor = (offset) => Buffer.from(String(offset)).toString('base64url');
+const decodeCursor = (cursor) => {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  return offset;
+};
+
+// ========== HTTP HELPERS ==========
+
+class HttpError extends Error {
+  constructor(status, message, body = {}) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Access-Token, Idempotency-Key',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    ...headers,
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      if (!raw) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const retryAfterHeaders = () => (config.retryAfter !== null ? { 'Retry-After': String(config.retryAfter) } : {});
+
+// The mock does not verify tokens; it only reads the subject so each
+// signed-in account gets its own profile state.
+const decodeJwtPayload = (token) => {
+  try {
+    const payload = token.split('.')[1];
+    return JSON.parse(Buffer.from(payload.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const authenticate = (req) => {
+  if (config.unauthorized) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const header = req.headers.authorization || '';
+  if (!header.startsWith('Bearer ')) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const claims = decodeJwtPayload(header.slice('Bearer '.length)) || {};
+  const userId = claims.sub || 'mock-user-1';
+
+  if (!state.users.has(userId)) {
+    const now = new Date().toISOString();
+    state.users.set(userId, {
+      userId,
+      email: claims.email || `${userId}@athleticfinance.test`,
+      username: claims.preferred_username || claims['cognito:username'] || userId,
+      name: claims.name,
+      description: '',
+      avatar: null,
+      plan: 'AF',
+      userNumber: state.users.size + 1,
+      hideProfile: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return state.users.get(userId);
+};
+
+// Public routes that personalize the response when a token is present
+const optionalUser = (req) => (req.headers.authorization ? authenticate(req) : null);
+
+// ========== SERIALIZERS ==========
+
+const toAuthor = (userId) => {
+  const user = state.users.get(userId);
+  if (!user) {
+    return { username: '@deleted', avatar: null };
+  }
+  return {
+    userId: user.userId,
+    username: `@${user.username}`,
+    name: user.name,
+    avatar: user.avatar,
+  };
+};
+
+const repliesTo = (commentId) =>
+  state.comments.filter((comment) => comment.parentCommentId === commentId && !comment.isDeleted);
+
+// Reports from distinct members before a comment is hidden pending review
+const REPORTS_TO_HIDE = 3;
+const REPORT_REASONS = ['spam', 'harassment', 'hate', 'misinformation', 'other'];
+
+const commentStatus = (comment) => (comment.isDeleted ? 'deleted' : comment.status || 'active');
+
+// Top-level comments stay listed after deletion or removal while their thread
+// has replies, so the replies keep their context
+const isListed = (comment) =>
+  ['active', 'hidden'].includes(commentStatus(comment)) || repliesTo(comment.comment_id).length > 0;
+
+const REACTION_TYPES = ['like', 'insightful', 'funny'];
+
+// Reactions are stored per comment as { [userId]: type }
+const reactionSummary = (comment, viewerId) => {
+  const byUser = comment.reactions || {};
+  const reactions = {};
+  Object.values(byUser).forEach((type) => {
+    reactions[type] = (reactions[type] || 0) + 1;
+  });
+  return {
+    reactions,
+    reactionCount: Object.keys(byUser).length,
+    myReaction: viewerId ? byUser[viewerId] || null : null,
+  };
+};
+
+const toComment = (comment, { withArticleTitle = false, viewerId } = {}) => {
+  const { userId, reactions: _reactions, reports: _reports, mentions, ...rest } = comment;
+  const status = commentStatus(comment);
+  // Withheld comments lose their body; authors still see their own while it's under review
+  const withheld = status !== 'active' && !(status === 'hidden' && viewerId === userId);
+  const parent = comment.parentCommentId
+    ? state.comments.find((candidate) => candidate.comment_id === comment.parentCommentId)
+    : null;
+  return {
+    ...rest,
+    status,
+    // Usernames are resolved on every read so mentions survive renames
+    ...(withheld
+      ? { content: '' }
+      : mentions?.length
+        ? {
+            mentions: mentions.map((mention) => ({
+              ...mention,
+              username: state.users.get(mention.userId)?.username || 'deleted',
+            })),
+          }
+        : {}),
+    ...(parent ? {} : { replyCount: repliesTo(comment.comment_id).length }),
+    ...reactionSummary(comment, viewerId),
+    ...(withArticleTitle ? { articleTitle: findArticle(comment.article_id)?.title } : {}),
+    ...(withArticleTitle && parent
+      ? {
+          replyTo: {
+            comment_id: parent.comment_id,
+            username: state.users.get(parent.userId)?.username,
+            content: parent.content,
+          },
+        }
+      : {}),
+    author: toAuthor(userId),
+  };
+};
+
+const toPublicUser = (user) => ({
+  userId: user.userId,
+  username: user.username,
+  name: user.name,
+  avatar: user.avatar,
+  description: user.description,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+const commentsPostedToday = (userId) => {
+  const dayStart = new Date();
+  dayStart.setHours(0, 0, 0, 0);
+  return state.comments.filter(
+    (comment) => comment.userId === userId && new Date(comment.createdAt) >= dayStart
+  ).length;
+};
+
+// ========== ROUTES ==========
+
+const routes = [];
+
+const route = (method, pattern, handler) => {
+  const keys = [];
+  const regex = new RegExp(
+    `^${pattern.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}$`
+  );
+  routes.push({ method, regex, keys, handler });
+};
+
+// ----- Articles -----
+
+route('GET', '/api/articles/recent', () => ({
+  success: true,
+  article: state.articles[0],
+}));
+
+route('GET', '/api/articles/recent-batch', () => {
+  const batch = state.articles.slice(1, 7);
+  return { success: true, articles: batch, count: batch.length };
+});
+
+route('GET', '/api/articles', ({ query }) => {
+  const limit = Math.min(Number(query.get('limit') || 20), 50);
+  const offset = query.get('cursor') ? decodeCursor(query.get('cursor')) : 0;
+  const before = query.get('before') ? new Date(query.get('before')) : null;
+  if (before && Number.isNaN(before.getTime())) {
+    throw new HttpError(400, 'Invalid before date');
+  }
+
+  const published = [...state.articles, ...state.archiveArticles]
+    .filter((article) => !before || new Date(article.published_at) < before)
+    .sort((a, b) => new Date(b.published_at) - new Date(a.published_at));
+
+  const page = published.slice(offset, offset + limit);
+  const hasMore = offset + limit < published.length;
+  return {
+    success: true,
+    articles: page,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(offset + limit) : undefined,
+  };
+});
+
+route('GET', '/api/articles/search', ({ req, query }) => {
+  const user = authenticate(req);
+  const terms = (query.get('q') || '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    throw new HttpError(400, 'q is required');
+  }
+
+  const tier = query.get('tier');
+  const from = query.get('from') ? new Date(query.get('from')) : null;
+  const limit = Math.min(Number(query.get('limit') || 20), 50);
+  const offset = query.get('cursor') ? decodeCursor(query.get('cursor')) : 0;
+
+  // AF+ articles are only searchable by accounts that can read them
+  const corpus = [
+    ...[...state.articles, ...state.archiveArticles].map((article) => ({ article, tier: 'AF' })),
+    ...(isAFPlus(user) ? state.premiumArticles.map((article) => ({ article, tier: 'AF+' })) : []),
+  ];
+
+  const matches = corpus
+    .filter((entry) => !tier || entry.tier === tier)
+    .filter(({ article }) => !from || new Date(article.published_at) >= from)
+    .map((entry) => ({ ...entry, body: contentText(entry.article.content.root).replace(/\s+/g, ' ').trim() }))
+    .filter(({ article, body }) => {
+      const haystack = `${article.title} ${body}`.toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    })
+    // Title matches first, then newest
+    .sort((a, b) => {
+      const titleScore = (entry) => terms.filter((term) => entry.article.title.toLowerCase().includes(term)).length;
+      return titleScore(b) - titleScore(a) || new Date(b.article.published_at) - new Date(a.article.published_at);
+    });
+
+  const page = matches.slice(offset, offset + limit).map(({ article, tier, body }) => ({
+    article,
+    tier,
+    ...buildSnippet(body, terms),
+  }));
+  const hasMore = offset + limit < matches.length;
+  return {
+    success: true,
+    results: page,
+    total: matches.length,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(offset + limit) : undefined,
+  };
+});
+
+route('GET', '/api/articles/premium', ({ req, query }) => {
+  const user = authenticate(req);
+  if (!isAFPlus(user)) {
+    throw new HttpError(403, 'An AF+ subscription is required');
+  }
+
+  const limit = Math.min(Number(query.get('limit') || 10), 50);
+  const offset = query.get('cursor') ? decodeCursor(query.get('cursor')) : 0;
+
+  const page = state.premiumArticles.slice(offset, offset + limit);
+  const hasMore = offset + limit < state.premiumArticles.length;
+  return {
+    success: true,
+    articles: page,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(offset + limit) : undefined,
+  };
+});
+
+// AF+ articles are only served to AF+ members
+const articleResponse = (req, article) => {
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+  if (state.premiumArticles.includes(article) && !isAFPlus(authenticate(req))) {
+    throw new HttpError(403, 'An AF+ subscription is required');
+  }
+  return { success: true, article };
+};
+
+route('GET', '/api/articles/by-slug/:slug', ({ req, params }) =>
+  articleResponse(
+    req,
+    [...state.articles, ...state.archiveArticles, ...state.premiumArticles].find((article) => article.slug === params.slug)
+  )
+);
+
+route('POST', '/api/articles/:id/shares', ({ req, params, body }) => {
+  const article = findArticle(params.id);
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+  const viewer = optionalUser(req);
+  state.shares.push({
+    articleId: article.id,
+    userId: viewer ? viewer.userId : null,
+    platform: body && body.platform,
+    activityType: body && body.activityType,
+    teaser: Boolean(body && body.teaser),
+    sharedAt: new Date().toISOString(),
+  });
+  return { success: true };
+});
+
+// After the fixed /api/articles/* routes so it doesn't shadow them
+route('GET', '/api/articles/:id', ({ req, params }) => articleResponse(req, findArticle(params.id)));
+
+route('GET', '/api/posts', () => ({ success: true, posts: [] }));
+
+// ----- Comments -----
+
+route('GET', '/api/articles/:id/comments', ({ req, params, query }) => {
+  const viewer = optionalUser(req);
+  const limit = Math.min(Number(query.get('limit') || 20), 100);
+  const sort = ['asc', 'top'].includes(query.get('sort')) ? query.get('sort') : 'desc';
+  const newestFirst = (a, b) => b.createdAt.localeCompare(a.createdAt);
+  const reactionCount = (comment) => Object.keys(comment.reactions || {}).length;
+  const lastCommentId = query.get('lastCommentId');
+
+  const all = state.comments
+    // Replies are fetched per thread from /api/comments/:id/replies
+    .filter((comment) => comment.article_id === String(params.id) && !comment.parentCommentId && isListed(comment))
+    .sort((a, b) => {
+      if (sort === 'asc') return a.createdAt.localeCompare(b.createdAt);
+      if (sort === 'top') return reactionCount(b) - reactionCount(a) || newestFirst(a, b);
+      return newestFirst(a, b);
+    });
+
+  const start = lastCommentId ? all.findIndex((comment) => comment.comment_id === lastCommentId) + 1 : 0;
+  const page = all.slice(start, start + limit);
+  const hasMore = start + limit < all.length;
+
+  return {
+    success: true,
+    comments: page.map((comment) => toComment(comment, { viewerId: viewer?.userId })),
+    count: page.length,
+    hasMore,
+    lastCommentId: hasMore ? page[page.length - 1]?.comment_id : undefined,
+  };
+});
+
+// Mentions must point at existing members and cover "@..." text in the content
+const parseMentions = (mentions, content) => {
+  if (mentions === undefined) return [];
+  if (!Array.isArray(mentions)) {
+    throw new HttpError(400, 'mentions must be an array');
+  }
+  return mentions.map(({ userId, start, end }) => {
+    if (!state.users.has(userId)) {
+      throw new HttpError(400, `Mentioned user ${userId} not found`);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > content.length || start >= end) {
+      throw new HttpError(400, 'Mention range is out of bounds');
+    }
+    if (content[start] !== '@') {
+      throw new HttpError(400, 'Mention range must start at "@"');
+    }
+    return { userId, start, end };
+  });
+};
+
+route('POST', '/api/articles/:id/comments', ({ req, params, body }) => {
+  const user = authenticate(req);
+  if (!findArticle(params.id)) {
+    throw new HttpError(404, 'Article not found');
+  }
+
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+  if (!content) {
+    throw new HttpError(400, 'Comment content is required');
+  }
+
+  if (config.commentLimit > 0 && commentsPostedToday(user.userId) >= config.commentLimit) {
+    const tomorrow = new Date();
+    tomorrow.setHours(24, 0, 0, 0);
+    throw new HttpError(429, 'Daily comment limit reached', {
+      success: false,
+      limitReached: true,
+      nextCommentAvailable: tomorrow.toISOString(),
+      message: `You can post ${config.commentLimit} comment(s) per day.`,
+    });
+  }
+
+  // Threads are one level deep: a reply to a reply joins the top-level thread
+  let parentCommentId;
+  if (body.parentCommentId) {
+    const parent = state.comments.find(
+      (comment) => comment.comment_id === String(body.parentCommentId) && !comment.isDeleted
+    );
+    if (!parent || parent.article_id !== String(params.id)) {
+      throw new HttpError(404, 'Parent comment not found');
+    }
+    parentCommentId = parent.parentCommentId || parent.comment_id;
+  }
+
+  const mentions = parseMentions(body.mentions, content);
+
+  const now = new Date().toISOString();
+  const comment = {
+    comment_id: `c-${state.nextCommentId++}`,
+    article_id: String(params.id),
+    userId: user.userId,
+    content,
+    createdAt: now,
+    updatedAt: now,
+    isDeleted: false,
+    ...(parentCommentId ? { parentCommentId } : {}),
+    ...(mentions.length ? { mentions } : {}),
+  };
+  state.comments.push(comment);
+
+  return { status: 201, body: { success: true, comment: toComment(comment, { viewerId: user.userId }) } };
+});
+
+const findComment = (commentId) => {
+  const comment = state.comments.find((c) => c.comment_id === commentId && !c.isDeleted);
+  if (!comment) {
+    throw new HttpError(404, 'Comment not found');
+  }
+  return comment;
+};
+
+const findOwnComment = (req, commentId) => {
+  const user = authenticate(req);
+  const comment = findComment(commentId);
+  if (comment.userId !== user.userId) {
+    throw new HttpError(403, 'You can only modify your own comments');
+  }
+  return comment;
+};
+
+route('GET', '/api/comments/:id/replies', ({ req, params, query }) => {
+  const viewer = optionalUser(req);
+  const limit = Math.min(Number(query.get('limit') || 20), 100);
+  const lastCommentId = query.get('lastCommentId');
+
+  const all = repliesTo(params.id).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const start = lastCommentId ? all.findIndex((comment) => comment.comment_id === lastCommentId) + 1 : 0;
+  const page = all.slice(start, start + limit);
+  const hasMore = start + limit < all.length;
+
+  return {
+    success: true,
+    comments: page.map((comment) => toComment(comment, { viewerId: viewer?.userId })),
+    count: page.length,
+    hasMore,
+    lastCommentId: hasMore ? page[page.length - 1]?.comment_id : undefined,
+  };
+});
+
+route('PUT', '/api/comments/:id', ({ req, params, body }) => {
+  const comment = findOwnComment(req, params.id);
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+  if (!content) {
+    throw new HttpError(400, 'Comment content is required');
+  }
+  // Omitting mentions keeps the old ones only if the text didn't change
+  comment.mentions = body.mentions !== undefined || content === comment.content
+    ? parseMentions(body.mentions ?? comment.mentions, content)
+    : [];
+  comment.content = content;
+  comment.updatedAt = new Date().toISOString();
+  return { success: true, comment: toComment(comment, { viewerId: comment.userId }) };
+});
+
+route('PUT', '/api/comments/:id/reactions', ({ req, params, body }) => {
+  const user = authenticate(req);
+  const comment = findComment(params.id);
+  if (!REACTION_TYPES.includes(body.type)) {
+    throw new HttpError(400, `type must be one of ${REACTION_TYPES.join(', ')}`);
+  }
+  comment.reactions = { ...comment.reactions, [user.userId]: body.type };
+  return { success: true, ...reactionSummary(comment, user.userId) };
+});
+
+route('POST', '/api/comments/:id/report', ({ req, params, body }) => {
+  const user = authenticate(req);
+  const comment = findComment(params.id);
+  if (comment.userId === user.userId) {
+    throw new HttpError(400, 'You cannot report your own comment');
+  }
+  if (!REPORT_REASONS.includes(body.reason)) {
+    throw new HttpError(400, `reason must be one of ${REPORT_REASONS.join(', ')}`);
+  }
+  if (comment.reports?.[user.userId]) {
+    throw new HttpError(409, 'You have already reported this comment');
+  }
+
+  comment.reports = { ...comment.reports, [user.userId]: { reason: body.reason, details: body.details } };
+  if (commentStatus(comment) === 'active' && Object.keys(comment.reports).length >= REPORTS_TO_HIDE) {
+    comment.status = 'hidden';
+  }
+  return { status: 201, body: { success: true } };
+});
+
+route('DELETE', '/api/comments/:id/reactions', ({ req, params }) => {
+  const user = authenticate(req);
+  const comment = findComment(params.id);
+  const { [user.userId]: _removed, ...rest } = comment.reactions || {};
+  comment.reactions = rest;
+  return { success: true, ...reactionSummary(comment, user.userId) };
+});
+
+route('DELETE', '/api/comments/:id', ({ req, params }) => {
+  const comment = findOwnComment(req, params.id);
+  comment.isDeleted = true;
+  comment.updatedAt = new Date().toISOString();
+  return { success: true };
+});
+
+// ----- Bookmarks -----
+
+route('POST', '/api/articles/:id/bookmark', ({ req, params }) => {
+  const user = authenticate(req);
+  const article = findArticle(params.id);
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+  const profile = getProfileState(user.userId);
+  if (!profile.savedArticles.includes(article.id)) {
+    profile.savedArticles.push(article.id);
+  }
+  return { success: true };
+});
+
+route('DELETE', '/api/articles/:id/bookmark', ({ req, params }) => {
+  const user = authenticate(req);
+  const profile = getProfileState(user.userId);
+  profile.savedArticles = profile.savedArticles.filter((id) => String(id) !== String(params.id));
+  return { success: true };
+});
+
+// ----- Profile -----
+
+route('GET', '/api/profile', ({ req }) => {
+  const user = authenticate(req);
+  const profile = getProfileState(user.userId);
+  return {
+    success: true,
+    profile: {
+      email: user.email,
+      username: user.username,
+      plan: user.plan,
+      description: user.description,
+      profilePicUrl: user.avatar,
+      hideProfile: user.hideProfile,
+      userNumber: user.userNumber,
+      savedArticles: profile.savedArticles,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    userInfo: {
+      userId: user.userId,
+      email: user.email,
+      username: user.username,
+      plan: user.plan,
+    },
+  };
+});
+
+// Calendar day of an instant in the client's time zone (offset as from Date#getTimezoneOffset)
+const localDay = (iso, tzOffsetMinutes) =>
+  new Date(new Date(iso).getTime() - tzOffsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+
+const readingStats = (profile, tzOffsetMinutes) => {
+  const sessions = profile.readSessions;
+  const totalReadingTimeMs = sessions.reduce((sum, session) => sum + session.durationMs, 0);
+
+  // Best completion reached per article, averaged across articles
+  const bestCompletion = new Map();
+  sessions.forEach((session) => {
+    bestCompletion.set(session.articleId, Math.max(bestCompletion.get(session.articleId) || 0, session.completion));
+  });
+  const averageCompletion = bestCompletion.size
+    ? [...bestCompletion.values()].reduce((sum, value) => sum + value, 0) / bestCompletion.size
+    : 0;
+
+  const now = new Date().toISOString();
+  const weeklyReading = Array.from({ length: 7 }, (_, index) => {
+    const date = localDay(new Date(Date.parse(now) - (6 - index) * DAY_MS).toISOString(), tzOffsetMinutes);
+    const readingTimeMs = sessions
+      .filter((session) => localDay(session.endedAt, tzOffsetMinutes) === date)
+      .reduce((sum, session) => sum + session.durationMs, 0);
+    return { date, readingTimeMs };
+  });
+
+  return { totalReadingTimeMs, averageCompletion, weeklyReading };
+};
+
+const MAX_STREAK_FREEZES = 2;
+// A freeze is earned for every this many days in a row
+const FREEZE_EVERY_DAYS = 7;
+
+const startOfDay = (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Spend freezes on the days missed since the streak was last extended or
+// covered, ending the streak once they run out. Runs before the streak is
+// reported or extended, so a streak above zero is always alive today.
+const settleStreak = (profile, now = new Date()) => {
+  if (!profile.streak || !profile.streakLastReadAt) return;
+  let coveredThrough = Math.max(
+    startOfDay(new Date(profile.streakLastReadAt)),
+    ...profile.frozenDays.map((day) => startOfDay(new Date(day)))
+  );
+  const missed = Math.round((startOfDay(now) - coveredThrough) / DAY_MS) - 1;
+
+  for (let i = 0; i < missed; i += 1) {
+    if (profile.streakFreezes <= 0) {
+      profile.streak = 0;
+      return;
+    }
+    profile.streakFreezes -= 1;
+    coveredThrough += DAY_MS;
+    // Midday, so the day survives DST shifts and small time zone differences
+    profile.frozenDays.push(new Date(coveredThrough + DAY_MS / 2).toISOString());
+  }
+};
+
+// One-off events the achievements are worked out from
+const statsEvents = (user) => {
+  const events = [];
+  // Deleted comments still count: the badge isn't taken away
+  const firstComment = state.comments
+    .filter((comment) => comment.userId === user.userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+  if (firstComment) {
+    events.push({ type: 'first_comment', at: firstComment.createdAt });
+  }
+  if (user.plan === 'AF+' && user.planStartedAt) {
+    events.push({ type: 'afplus_started', at: user.planStartedAt });
+  }
+  return events;
+};
+
+const statsSummary = (user, tzOffsetMinutes = 0) => {
+  const profile = getProfileState(user.userId);
+  settleStreak(profile);
+  return {
+    ...readingStats(profile, tzOffsetMinutes),
+    articlesReadCount: profile.articlesRead.length,
+    commentsPosted: state.comments.filter((c) => c.userId === user.userId && !c.isDeleted).length,
+    streak: profile.streak,
+    longestStreak: profile.longestStreak,
+    streakLastReadAt: profile.streakLastReadAt,
+    streakFreezes: profile.streakFreezes,
+    events: statsEvents(user),
+    lastViewedAt: profile.lastViewedAt,
+    updatedAt: user.updatedAt,
+  };
+};
+
+route('GET', '/api/profile/stats/summary', ({ req, query }) => {
+  const user = authenticate(req);
+  const tzOffsetMinutes = Number(query.get('tzOffsetMinutes') || 0);
+  return { success: true, stats: statsSummary(user, Number.isFinite(tzOffsetMinutes) ? tzOffsetMinutes : 0) };
+});
+
+route('GET', '/api/profile/stats/activity', ({ req, query }) => {
+  const user = authenticate(req);
+  const profile = getProfileState(user.userId);
+  settleStreak(profile);
+
+  const days = Math.min(Math.max(Number(query.get('days') || 365), 1), 366);
+  const offset = Number(query.get('tzOffsetMinutes') || 0);
+  const tzOffsetMinutes = Number.isFinite(offset) ? offset : 0;
+  const since = localDay(new Date(Date.now() - (days - 1) * DAY_MS).toISOString(), tzOffsetMinutes);
+
+  const byDay = new Map();
+  const dayEntry = (iso) => {
+    const date = localDay(iso, tzOffsetMinutes);
+    if (!byDay.has(date)) byDay.set(date, { date, articlesRead: 0, readingTimeMs: 0, frozen: false });
+    return byDay.get(date);
+  };
+  profile.readLog.forEach((entry) => {
+    dayEntry(entry.readAt).articlesRead += 1;
+  });
+  profile.readSessions.forEach((session) => {
+    dayEntry(session.endedAt).readingTimeMs += session.durationMs;
+  });
+  profile.frozenDays.forEach((day) => {
+    dayEntry(day).frozen = true;
+  });
+
+  return {
+    success: true,
+    days: [...byDay.values()].filter((day) => day.date >= since).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+});
+
+route('POST', '/api/profile/stats/read-sessions', ({ req, body }) => {
+  const user = authenticate(req);
+  const article = findArticle(body.articleId);
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+  if (
+    typeof body.durationMs !== 'number' ||
+    body.durationMs < 0 ||
+    typeof body.completion !== 'number' ||
+    body.completion < 0 ||
+    body.completion > 1 ||
+    !Array.isArray(body.pages) ||
+    Number.isNaN(Date.parse(body.startedAt)) ||
+    Number.isNaN(Date.parse(body.endedAt))
+  ) {
+    throw new HttpError(400, 'Invalid read session');
+  }
+
+  getProfileState(user.userId).readSessions.push({
+    articleId: article.id,
+    startedAt: body.startedAt,
+    endedAt: body.endedAt,
+    durationMs: body.durationMs,
+    totalPages: body.totalPages,
+    pages: body.pages,
+    completion: body.completion,
+    completed: !!body.completed,
+  });
+  return { success: true };
+});
+
+route('POST', '/api/profile/stats/article-view', ({ req, body }) => {
+  const user = authenticate(req);
+  const article = findArticle(body.articleId);
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+
+  const profile = getProfileState(user.userId);
+  const now = new Date();
+  profile.lastViewedAt = now.toISOString();
+  settleStreak(profile, now);
+
+  // Only a NEW unique article counts toward the streak
+  if (!profile.articlesRead.includes(article.id)) {
+    profile.articlesRead.push(article.id);
+    profile.readLog.push({ articleId: article.id, readAt: now.toISOString() });
+    const readToday = profile.streakLastReadAt && startOfDay(new Date(profile.streakLastReadAt)) === startOfDay(now);
+    if (!readToday) {
+      // Settled above: any streak left runs through yesterday
+      profile.streak += 1;
+      if (profile.streak % FREEZE_EVERY_DAYS === 0) {
+        profile.streakFreezes = Math.min(profile.streakFreezes + 1, MAX_STREAK_FREEZES);
+      }
+    }
+    profile.longestStreak = Math.max(profile.longestStreak, profile.streak);
+    profile.streakLastReadAt = now.toISOString();
+  }
+
+  return { success: true };
+});
+
+route('GET', '/api/profile/comments', ({ req }) => {
+  const user = authenticate(req);
+  const mine = state.comments
+    .filter((comment) => comment.userId === user.userId && !comment.isDeleted)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((comment) => toComment(comment, { withArticleTitle: true, viewerId: user.userId }));
+  return { success: true, comments: mine, count: mine.length };
+});
+
+route('GET', '/api/profile/saved-articles', ({ req }) => {
+  const user = authenticate(req);
+  const saved = getProfileState(user.userId)
+    .savedArticles.map((id) => findArticle(id))
+    .filter(Boolean);
+  return { success: true, articles: saved, count: saved.length };
+});
+
+route('GET', '/api/profile/picture', ({ req, query }) => {
+  authenticate(req);
+  const key = query.get('key');
+  const dataUri = key && state.pictures.get(key);
+  if (!dataUri) {
+    throw new HttpError(404, 'Picture not found');
+  }
+  return { url: dataUri };
+});
+
+route('PUT', '/api/profile/update', ({ req, body }) => {
+  const user = authenticate(req);
+
+  if (typeof body.description === 'string') {
+    user.description = body.description;
+  }
+
+  let profilePicKey;
+  if (body.profilePic?.data) {
+    profilePicKey = `profile-pictures/${user.userId}/${Date.now()}.jpg`;
+    state.pictures.set(profilePicKey, `data:${body.profilePic.type || 'image/jpeg'};base64,${body.profilePic.data}`);
+    user.avatar = profilePicKey;
+  }
+
+  user.updatedAt = new Date().toISOString();
+  return {
+    success: true,
+    description: user.description,
+    profilePicUrl: profilePicKey,
+  };
+});
+
+// ----- Blocks -----
+
+const toBlockedUser = (entry) => ({
+  userId: entry.userId,
+  username: state.users.get(entry.userId)?.username,
+  blockedAt: entry.blockedAt,
+});
+
+route('GET', '/api/profile/blocks', ({ req }) => {
+  const user = authenticate(req);
+  return { success: true, blocked: getProfileState(user.userId).blocked.map(toBlockedUser) };
+});
+
+route('PUT', '/api/profile/blocks/:userId', ({ req, params }) => {
+  const user = authenticate(req);
+  if (params.userId === user.userId) {
+    throw new HttpError(400, 'You cannot block yourself');
+  }
+  if (!state.users.has(params.userId)) {
+    throw new HttpError(404, 'User not found');
+  }
+  const profile = getProfileState(user.userId);
+  if (!profile.blocked.some((entry) => entry.userId === params.userId)) {
+    profile.blocked.push({ userId: params.userId, blockedAt: new Date().toISOString() });
+  }
+  return { success: true };
+});
+
+route('DELETE', '/api/profile/blocks/:userId', ({ req, params }) => {
+  const user = authenticate(req);
+  const profile = getProfileState(user.userId);
+  profile.blocked = profile.blocked.filter((entry) => entry.userId !== params.userId);
+  return { success: true };
+});
+
+// ----- Users -----
+
+// ----- Reading progress -----
+
+route('GET', '/api/reading-progress', ({ req }) => {
+  const profile = getProfileState(authenticate(req).userId);
+  return { success: true, progress: [...profile.readingProgress.values()] };
+});
+
+route('PUT', '/api/reading-progress/:articleId', ({ req, params, body }) => {
+  const profile = getProfileState(authenticate(req).userId);
+  const article = findArticle(params.articleId);
+  if (!article) {
+    throw new HttpError(404, 'Article not found');
+  }
+  const { page, totalPages, finished, updatedAt } = body || {};
+  if (
+    !Number.isInteger(page) ||
+    !Number.isInteger(totalPages) ||
+    page < 0 ||
+    page >= totalPages ||
+    typeof finished !== 'boolean' ||
+    Number.isNaN(Date.parse(updatedAt))
+  ) {
+    throw new HttpError(400, 'Expected page, totalPages, finished and updatedAt');
+  }
+
+  const existing = profile.readingProgress.get(article.id);
+  // Late replays don't move the position back; finished sticks once set
+  if (existing && Date.parse(existing.updatedAt) >= Date.parse(updatedAt)) {
+    if (finished && !existing.finished) existing.finished = true;
+    return { success: true, progress: existing };
+  }
+  const progress = {
+    articleId: article.id,
+    title: article.title,
+    page,
+    totalPages,
+    finished: finished || !!existing?.finished,
+    updatedAt,
+  };
+  profile.readingProgress.set(article.id, progress);
+  return { success: true, progress };
+});
+
+// ----- Notifications -----
+
+route('PUT', '/api/notifications/devices', ({ req, body }) => {
+  const user = authenticate(req);
+  if (!body || typeof body.token !== 'string' || !body.token) {
+    throw new HttpError(400, 'token is required');
+  }
+  // A device belongs to whoever registered it last
+  state.profiles.forEach((profile) => {
+    profile.pushTokens = (profile.pushTokens || []).filter((device) => device.token !== body.token);
+  });
+  getProfileState(user.userId).pushTokens.push({ token: body.token, platform: body.platform || 'unknown' });
+  return { success: true };
+});
+
+route('DELETE', '/api/notifications/devices/:token', ({ req, params }) => {
+  const profile = getProfileState(authenticate(req).userId);
+  profile.pushTokens = profile.pushTokens.filter((device) => device.token !== params.token);
+  return { success: true };
+});
+
+route('GET', '/api/notifications/preferences', ({ req }) => {
+  const profile = getProfileState(authenticate(req).userId);
+  return { success: true, preferences: profile.notifications };
+});
+
+route('PUT', '/api/notifications/preferences', ({ req, body }) => {
+  const user = authenticate(req);
+  const updates = Object.entries(body || {}).filter(([topic]) => topic in DEFAULT_NOTIFICATIONS);
+  if (updates.length === 0 || updates.some(([, enabled]) => typeof enabled !== 'boolean')) {
+    throw new HttpError(400, 'Expected boolean values for daily and/or afplus');
+  }
+  if (updates.some(([topic, enabled]) => topic === 'afplus' && enabled) && !isAFPlus(user)) {
+    throw new HttpError(403, 'AF+ notifications require an AF+ subscription');
+  }
+
+  const profile = getProfileState(user.userId);
+  profile.notifications = { ...profile.notifications, ...Object.fromEntries(updates) };
+  return { success: true, preferences: profile.notifications };
+});
+
+route('GET', '/api/users', ({ query }) => {
+  const email = (query.get('email') || '').toLowerCase();
+  const exists = [...state.users.values()].some((user) => user.email.toLowerCase() === email);
+  return { success: true, exists, available: !exists };
+});
+
+route('GET', '/api/users/search', ({ req, query }) => {
+  const viewer = authenticate(req);
+  const q = (query.get('q') || '').replace(/^@+/, '').toLowerCase();
+  const limit = Math.min(Number(query.get('limit') || 5), 20);
+  if (!q) {
+    return { success: true, users: [], count: 0 };
+  }
+
+  const blocked = new Set(getProfileState(viewer.userId).blocked.map((entry) => entry.userId));
+  const found = [...state.users.values()]
+    .filter((user) => !user.hideProfile && !blocked.has(user.userId))
+    .filter((user) => user.username.toLowerCase().startsWith(q) || (user.name || '').toLowerCase().startsWith(q))
+    .slice(0, limit)
+    .map(toPublicUser);
+  return { success: true, users: found, count: found.length };
+});
+
+const findPublicUser = (viewer, userId) => {
+  const user = state.users.get(userId);
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+  // Members always see their own profile in full
+  return { user, isPrivate: user.hideProfile && user.userId !== viewer.userId };
+};
+
+const publicProfileResponse = (viewer, userId) => {
+  const { user, isPrivate } = findPublicUser(viewer, userId);
+  if (isPrivate) {
+    return {
+      success: true,
+      profile: { userId: user.userId, username: user.username, name: user.name, avatar: user.avatar, hideProfile: true },
+    };
+  }
+
+  const { articlesReadCount, commentsPosted, streak, longestStreak, events } = statsSummary(user);
+  return {
+    success: true,
+    profile: {
+      ...toPublicUser(user),
+      userNumber: user.userNumber,
+      hideProfile: false,
+      stats: { articlesReadCount, commentsPosted, streak, longestStreak, events },
+    },
+  };
+};
+
+route('GET', '/api/users/by-username/:username', ({ req, params }) => {
+  const handle = params.username.replace(/^@+/, '').toLowerCase();
+  const user = [...state.users.values()].find((candidate) => candidate.username.toLowerCase() === handle);
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+  return publicProfileResponse(authenticate(req), user.userId);
+});
+
+route('GET', '/api/users/:id', ({ req, params }) => publicProfileResponse(authenticate(req), params.id));
+
+route('GET', '/api/users/:id/comments', ({ req, params, query }) => {
+  const viewer = authenticate(req);
+  const { user, isPrivate } = findPublicUser(viewer, params.id);
+  if (isPrivate) {
+    throw new HttpError(403, 'This profile is private');
+  }
+
+  const limit = Math.min(Number(query.get('limit') || 20), 100);
+  const recent = state.comments
+    .filter((comment) => comment.userId === user.userId && commentStatus(comment) === 'active')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map((comment) => toComment(comment, { withArticleTitle: true, viewerId: viewer.userId }));
+  return { success: true, comments: recent, count: recent.length };
+});
+
+route('POST', '/api/users/verify', () => ({ success: true, message: 'User registered for verification' }));
+
+route('POST', '/api/users/batch', ({ req, body }) => {
+  authenticate(req);
+  const ids = Array.isArray(body.userIds) ? body.userIds : [];
+  if (ids.length === 0 || ids.length > 100) {
+    throw new HttpError(400, 'Between 1 and 100 user IDs are required');
+  }
+  const found = ids.map((id) => state.users.get(id)).filter(Boolean).map(toPublicUser);
+  return { success: true, users: found, count: found.length };
+});
+
+// ----- Subscriptions -----
+
+// Billing period of each AF+ product, in days
+const AF_PLUS_PRODUCTS = { afplus_monthly: 30, afplus_yearly: 365 };
+
+// Only the app's local billing provider can be checked here; real App Store
+// and Google Play receipts need the store's servers
+route('POST', '/api/subscriptions/validate', ({ req, body }) => {
+  const user = authenticate(req);
+  const { platform, productId, transactionId, purchaseToken } = body || {};
+  if (
+    typeof platform !== 'string' ||
+    !Object.hasOwn(AF_PLUS_PRODUCTS, productId) ||
+    typeof transactionId !== 'string' ||
+    typeof purchaseToken !== 'string'
+  ) {
+    throw new HttpError(400, 'Invalid receipt');
+  }
+  if (platform !== 'local') {
+    throw new HttpError(400, "Store receipts can't be validated by the mock server");
+  }
+  if (!purchaseToken.startsWith(`local:${productId}:`)) {
+    throw new HttpError(400, 'Invalid receipt');
+  }
+
+  // Restoring revalidates an old purchase; its period runs from when it was bought
+  const purchasedAt = Number(purchaseToken.split(':')[2]) || Date.now();
+  const expiresAt = new Date(purchasedAt + AF_PLUS_PRODUCTS[productId] * DAY_MS);
+  if (expiresAt.getTime() <= Date.now()) {
+    return { success: true, subscription: { plan: user.plan, active: false, productId, expiresAt: expiresAt.toISOString() } };
+  }
+
+  const now = new Date().toISOString();
+  if (!isAFPlus(user)) {
+    user.plan = 'AF+';
+    user.planStartedAt = now;
+  }
+  user.updatedAt = now;
+  return { success: true, subscription: { plan: user.plan, active: true, productId, expiresAt: expiresAt.toISOString() } };
+});
+
+// ----- Mock controls -----
+
+route('GET', '/__mock/config', () => config);
+
+route('POST', '/__mock/config', ({ body }) => {
+  Object.keys(config).forEach((key) => {
+    if (body[key] !== undefined) {
+      config[key] = body[key];
+    }
+  });
+  console.log('[Mock] Config updated:', config);
+  return config;
+});
+
+// ========== SERVER ==========
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  const isControl = url.pathname.startsWith('/__mock');
+  if (!isControl) {
+    const wait = config.latencyMs + Math.random() * config.jitterMs;
+    if (wait > 0) await delay(wait);
+
+    if (config.errorRate > 0 && Math.random() < config.errorRate) {
+      return send(res, config.errorStatus, { success: false, message: 'Simulated server error' }, retryAfterHeaders());
+    }
+  }
+
+  const match = routes
+    .filter((r) => r.method === req.method)
+    .map((r) => ({ r, m: url.pathname.match(r.regex) }))
+    .find(({ m }) => m);
+
+  if (!match) {
+    return send(res, 404, { success: false, message: `No mock route for ${req.method} ${url.pathname}` });
+  }
+
+  // Replays carrying the same Idempotency-Key get the original response
+  const idempotencyKey = req.headers['idempotency-key'];
+  if (idempotencyKey && state.idempotency.has(idempotencyKey)) {
+    const cached = state.idempotency.get(idempotencyKey);
+    return send(res, cached.status, cached.body);
+  }
+
+  const params = {};
+  match.r.keys.forEach((key, index) => {
+    params[key] = decodeURIComponent(match.m[index + 1]);
+  });
+
+  const body = req.method === 'GET' ? {} : await readBody(req);
+  const result = await match.r.handler({ req, params, query: url.searchParams, body });
+  const { status, body: responseBody } =
+    result && result.status !== undefined && result.body !== undefined ? result : { status: 200, body: result };
+
+  if (idempotencyKey) {
+    state.idempotency.set(idempotencyKey, { status, body: responseBody });
+  }
+  return send(res, status, responseBody);
+};
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    if (error instanceof HttpError) {
+      const headers = error.status === 429 ? retryAfterHeaders() : {};
+      send(res, error.status, { success: false, message: error.message, ...error.body }, headers);
+    } else {
+      console.error('[Mock] Unhandled error:', error);
+      send(res, 500, { success: false, message: 'Internal Server Error' });
+    }
+  });
+  res.on('finish', () => {
+    console.log(`[Mock] ${req.method} ${req.url} -> ${res.statusCode}`);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[Mock] API listening on http://localhost:${PORT}`);
+  console.log('[Mock] Switches:', config);
+});
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getAfPlusProducts, type AfPlusPurchaseResult, type BillingProduct } from '../lib/billing';
+import { logger } from '../lib/logger';
+import type { ThemeColors } from '../lib/theme';
+
+interface AFPlusPurchaseModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after AF+ is active, once the modal has closed
+  onSubscribed?: () => void;
+}
+
+const FEATURES = [
+  'Exclusive premium articles',
+  'Advanced analytics & insights',
+  'Priority support',
+  'Early access to new features',
+];
+
+export default function AFPlusPurchaseModal({ visible, onClose, onSubscribed }: AFPlusPurchaseModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { upgradeToPremium, restorePurchases } = useAuth();
+  const [products, setProducts] = useState<BillingProduct[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'purchase' | 'restore' | null>(null);
+
+  useEffect(() => {
+    if (!visible || products) return;
+    let active = true;
+    setLoadError(null);
+    getAfPlusProducts()
+      .then((loaded) => {
+        if (!active) return;
+        setProducts(loaded);
+        setSelectedId(loaded[0]?.productId ?? null);
+        if (loaded.length === 0) setLoadError("AF+ isn't available in this store right now.");
+      })
+      .catch((error) => {
+        logger.error('[AFPlusPurchaseModal] Failed to load products:', error?.message || error);
+        if (active) setLoadError("Couldn't reach the store. Please try again later.");
+      });
+    return () => {
+      active = false;
+    };
+  }, [visible, products]);
+
+  const handleResult = (result: AfPlusPurchaseResult, failureTitle: string) => {
+    if (result.success) {
+      onClose();
+      Alert.alert('Welcome to AF+', 'Your membership is active. Enjoy the premium articles!');
+      onSubscribed?.();
+    } else if (result.pending) {
+      Alert.alert('Purchase pending', 'Your purchase is waiting for approval. AF+ unlocks as soon as it goes through.');
+    } else if (!result.cancelled) {
+      Alert.alert(failureTitle, result.error || 'Please try again.');
+    }
+  };
+
+  const handlePurchase = async () => {
+    if (!selectedId || busy) return;
+    setBusy('purchase');
+    try {
+      handleResult(await upgradeToPremium(selectedId), 'Purchase failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (busy) return;
+    setBusy('restore');
+    try {
+      handleResult(await restorePurchases(), 'Nothing to restore');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={busy ? undefined : onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Join AF+</Text>
+            <TouchableOpacity
+              onPress={onClose}
+              disabled={!!busy}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <MaterialIcons name="close" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {FEATURES.map((feature) => (
+            <View key={feature} style={styles.featureRow}>
+              <MaterialIcons name="star" size={18} color={colors.premium} />
+              <Text style={styles.featureText}>{feature}</Text>
+            </View>
+          ))}
+
+          {loadError ? (
+            <Text style={styles.errorText}>{loadError}</Text>
+          ) : !products ? (
+            <ActivityIndicator style={styles.loading} color={colors.text} />
+          ) : (
+            <View style={styles.products}>
+              {products.map((product) => {
+                const selected = product.productId === selectedId;
+                return (
+                  <TouchableOpacity
+                    key={product.productId}
+                    style={[styles.product, selected && styles.productSelected]}
+                    onPress={() => setSelectedId(product.productId)}
+                    disabled={!!busy}
+                    activeOpacity={0.8}
+                  >
+                    <MaterialIcons
+                      name={selected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                      size={20}
+                      color={selected ? colors.premium : colors.textMuted}
+                    />
+                    <View style={styles.productText}>
+                      <Text style={styles.productTitle}>{product.title}</Text>
+                      <Text style={styles.productDescription}>{product.description}</Text>
+                    </View>
+                    <Text style={styles.productPrice}>{product.displayPrice}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.purchaseButton, (!selectedId || !!busy) && styles.purchaseButtonDisabled]}
+            onPress={handlePurchase}
+            disabled={!selectedId || !!busy}
+            activeOpacity={0.8}
+          >
+            {busy === 'purchase' ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.purchaseButtonText}>Subscribe</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.restoreButton} onPress={handleRestore} disabled={!!busy}>
+            {busy === 'restore' ? (
+              <ActivityIndicator color={colors.textSecondary} />
+            ) : (
+              <Text style={styles.restoreButtonText}>Restore purchases</Text>
+            )}
+          </TouchableOpacity>
+
+          <Text style={styles.terms}>
+            Renews automatically until cancelled. Manage or cancel your subscription in your store account settings.
+          </Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 36,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  featureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  featureText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  loading: {
+    marginVertical: 32,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.danger,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  products: {
+    gap: 10,
+    marginTop: 12,
+  },
+  product: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  productSelected: {
+    borderColor: colors.premium,
+    backgroundColor: colors.premiumSurface,
+  },
+  productText: {
+    flex: 1,
+  },
+  productTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  productDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  productPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  purchaseButton: {
+    height: 50,
+    borderRadius: 12,
+    backgroundColor: colors.premium,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+  },
+  purchaseButtonDisabled: {
+    opacity: 0.5,
+  },
+  purchaseButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  restoreButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginTop: 4,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  terms: {
+    fontSize: 11,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+});
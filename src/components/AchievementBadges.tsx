@@ -0,0 +1,152 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Animated, Easing } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { Achievement, AchievementId } from '../lib/achievements';
+import type { ThemeColors } from '../lib/theme';
+
+interface AchievementBadgesProps {
+  achievements: Achievement[];
+  // Earned since this device last showed them; these play the unlock animation
+  newlyUnlocked?: Set<AchievementId>;
+}
+
+const ACHIEVEMENT_ICONS: Record<AchievementId, React.ComponentProps<typeof MaterialIcons>['name']> = {
+  'first-comment': 'chat-bubble',
+  'articles-10': 'menu-book',
+  'articles-50': 'auto-stories',
+  'articles-100': 'local-library',
+  'streak-7': 'local-fire-department',
+  'streak-30': 'whatshot',
+  'streak-100': 'bolt',
+  'afplus-anniversary': 'workspace-premium',
+  'early-member': 'star',
+};
+
+function Badge({ achievement, unlocking }: { achievement: Achievement; unlocking: boolean }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const scale = useRef(new Animated.Value(1)).current;
+  const glow = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!unlocking) return;
+    scale.setValue(0.4);
+    Animated.sequence([
+      Animated.delay(300),
+      Animated.parallel([
+        Animated.spring(scale, { toValue: 1, friction: 4, tension: 80, useNativeDriver: true }),
+        Animated.sequence([
+          Animated.timing(glow, { toValue: 1, duration: 250, useNativeDriver: true }),
+          Animated.timing(glow, { toValue: 0, duration: 900, easing: Easing.out(Easing.quad), useNativeDriver: true }),
+        ]),
+      ]),
+    ]).start();
+  }, [unlocking, scale, glow]);
+
+  const { earned, progress } = achievement;
+  return (
+    <View style={styles.badge}>
+      <View style={styles.iconWrapper}>
+        <Animated.View
+          style={[
+            styles.glow,
+            { opacity: glow, transform: [{ scale: glow.interpolate({ inputRange: [0, 1], outputRange: [1, 1.6] }) }] },
+          ]}
+        />
+        <Animated.View style={[styles.iconCircle, earned && styles.iconCircleEarned, { transform: [{ scale }] }]}>
+          <MaterialIcons
+            name={earned ? ACHIEVEMENT_ICONS[achievement.id] : 'lock'}
+            size={26}
+            color={earned ? colors.premium : colors.textMuted}
+          />
+        </Animated.View>
+      </View>
+      <Text style={[styles.title, !earned && styles.titleLocked]} numberOfLines={1}>
+        {achievement.title}
+      </Text>
+      <Text style={styles.description} numberOfLines={2}>
+        {!earned && progress ? `${progress.current}/${progress.target} · ` : ''}
+        {achievement.description}
+      </Text>
+      {unlocking && <Text style={styles.newLabel}>New</Text>}
+    </View>
+  );
+}
+
+export default function AchievementBadges({ achievements, newlyUnlocked }: AchievementBadgesProps) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.grid}>
+      {achievements.map((achievement) => (
+        <Badge
+          key={achievement.id}
+          achievement={achievement}
+          unlocking={!!newlyUnlocked?.has(achievement.id)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  badge: {
+    width: '33.33%',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  iconWrapper: {
+    width: 56,
+    height: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 6,
+  },
+  glow: {
+    position: 'absolute',
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: colors.premium,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.fill,
+  },
+  iconCircleEarned: {
+    backgroundColor: colors.premiumSurface,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+  },
+  titleLocked: {
+    color: colors.textMuted,
+  },
+  description: {
+    fontSize: 11,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  newLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.premiumText,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
+});
@@ -5,13 +5,16 @@ import {
   StyleSheet,
   Image,
   TouchableOpacity,
-  Share,
-  Platform,
   Animated,
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import ReadingProgressBar from './ReadingProgressBar';
+import { shareArticle } from '../lib/share';
+import type { ArticleTier, LexicalContent, ReadingProgress } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
 
 const { height: SCREEN_HEIGHT, width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -36,20 +39,32 @@ interface MediaObject {
 interface ArticleCardProps {
   id: number;
   title: string;
+  slug: string;
+  // Used for the share excerpt
+  content?: LexicalContent;
+  tier?: ArticleTier;
   hero_image_id?: number | MediaObject | null;
   imageUrl?: string;
   onPress?: () => void;
   isSaved?: boolean;
+  // Shown as a progress bar once the article has been started
+  progress?: ReadingProgress;
 }
 
 export default function ArticleCard({
   id,
   title,
+  slug,
+  content,
+  tier,
   hero_image_id,
   imageUrl,
   onPress,
   isSaved: isSavedProp,
+  progress,
 }: ArticleCardProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { savedArticleIds, bookmarkArticle, unbookmarkArticle, user } = useAuth();
   const backgroundAnimation = useRef(new Animated.Value(0)).current;
   
@@ -76,22 +91,9 @@ export default function ArticleCard({
     ).start();
   }, []);
 
-  const handleShare = async (e: any) => {
+  const handleShare = (e: any) => {
     e?.stopPropagation?.();
-    try {
-      if (Platform.OS !== 'web' && Share.share) {
-        await Share.share({
-          message: title,
-          title: title,
-        });
-      } else {
-        console.log('Share functionality - link would be copied');
-      }
-    } catch (err: any) {
-      if (err?.message !== 'User did not share') {
-        console.error('Failed to share:', err);
-      }
-    }
+    shareArticle({ id, title, slug, content, tier });
   };
 
   const handleBookmark = async (e: any) => {
@@ -166,7 +168,7 @@ export default function ArticleCard({
                 />
               ) : (
                 <View style={styles.imagePlaceholder}>
-                  <MaterialIcons name="image" size={32} color="#999" />
+                  <MaterialIcons name="image" size={32} color={colors.textMuted} />
                 </View>
               )}
             </View>
@@ -178,6 +180,11 @@ export default function ArticleCard({
           <Text style={styles.title} numberOfLines={2}>
             {title}
           </Text>
+          {progress && (
+            <View style={styles.progressContainer}>
+              <ReadingProgressBar progress={progress} />
+            </View>
+          )}
         </View>
 
         {/* Share and Bookmark buttons */}
@@ -187,7 +194,7 @@ export default function ArticleCard({
             style={styles.actionButton}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
-            <MaterialIcons name="share" size={24} color="#000" />
+            <MaterialIcons name="share" size={24} color={colors.text} />
           </TouchableOpacity>
           <TouchableOpacity
             onPress={handleBookmark}
@@ -198,7 +205,7 @@ export default function ArticleCard({
             <MaterialIcons 
               name={isSaved ? "bookmark" : "bookmark-border"} 
               size={24} 
-              color="#000" 
+              color={colors.text} 
             />
           </TouchableOpacity>
         </View>
@@ -207,14 +214,14 @@ export default function ArticleCard({
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     marginHorizontal: 16,
     marginBottom: 20,
     marginTop: 8,
   },
   content: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     borderRadius: 16,
     overflow: 'hidden',
     shadowColor: '#000',
@@ -277,14 +284,14 @@ const styles = StyleSheet.create({
   image: {
     width: '100%',
     height: '100%',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
   },
   imagePlaceholder: {
     width: '100%',
     height: '100%',
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
   },
   titleContainer: {
     padding: 20,
@@ -293,10 +300,13 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 20,
     fontWeight: '700',
-    color: '#000',
+    color: colors.text,
     lineHeight: 28,
     letterSpacing: -0.3,
   },
+  progressContainer: {
+    marginTop: 12,
+  },
   actionButtons: {
     flexDirection: 'row',
     alignItems: 'center',
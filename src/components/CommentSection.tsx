@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,38 +10,133 @@ import {
   ActivityIndicator,
   Alert,
   Image,
+  RefreshControl,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/AppNavigator';
 import { apiClient } from '../lib/api';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { logger } from '../lib/logger';
+import { enqueueMutation, generateIdempotencyKey, isRetryableStatus } from '../lib/mutationQueue';
+import { REACTION_TYPES, getCommentStatus } from '../lib/schema';
+import type { Comment, PublicUser, ReactionType, ReportReason } from '../lib/schema';
+import ReportCommentModal from './ReportCommentModal';
+import {
+  EMPTY_COMMENT_STORE,
+  appendComments,
+  prependComments,
+  updateComment,
+  removeComment,
+  selectComments,
+  type CommentStore,
+} from '../lib/commentStore';
+import {
+  findMentionQuery,
+  insertMention,
+  buildMentionEntities,
+  toMentionSegments,
+  normalizeHandle,
+  type ActiveMentionQuery,
+  type MentionCandidate,
+} from '../lib/mentions';
+import type { ThemeColors } from '../lib/theme';
 
-const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Comment {
-  comment_id: string;
-  article_id: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-  isDeleted: boolean;
-  parentCommentId?: string;
-  author: {
-    username: string; // Public username (e.g., "@john_doe")
-    name?: string; // Display name (optional)
-    avatar: string | null; // Full S3 public URL or null (ready to use)
-  };
-}
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 interface CommentSectionProps {
   articleId: number;
 }
 
+// Replies loaded for one top-level comment
+interface ReplyThread {
+  replies: Comment[];
+  expanded: boolean;
+  loading: boolean;
+  hasMore: boolean;
+  lastCommentId?: string;
+}
+
+const COMMENTS_PAGE_SIZE = 20;
+const REPLIES_PAGE_SIZE = 10;
+// Distance from the bottom (px) at which the next page of comments is requested
+const LOAD_MORE_THRESHOLD = 400;
+const MENTION_SEARCH_DEBOUNCE_MS = 250;
+const MENTION_SUGGESTION_LIMIT = 5;
+
+const EMPTY_THREAD: ReplyThread = { replies: [], expanded: false, loading: false, hasMore: false };
+
+type CommentSort = 'desc' | 'asc' | 'top';
+
+const SORT_OPTIONS: { value: CommentSort; label: string }[] = [
+  { value: 'desc', label: 'Newest' },
+  { value: 'asc', label: 'Oldest' },
+  { value: 'top', label: 'Top' },
+];
+
+const REACTION_ICONS: Record<ReactionType, React.ComponentProps<typeof MaterialIcons>['name']> = {
+  like: 'thumb-up',
+  insightful: 'lightbulb',
+  funny: 'sentiment-very-satisfied',
+};
+
+// Move the caller's reaction to `next` (null removes it) and adjust the totals to match
+const applyReaction = (comment: Comment, next: ReactionType | null): Comment => {
+  const previous = comment.myReaction ?? null;
+  const reactions = { ...comment.reactions };
+  if (previous) reactions[previous] = Math.max(0, (reactions[previous] ?? 0) - 1);
+  if (next) reactions[next] = (reactions[next] ?? 0) + 1;
+  const delta = (next ? 1 : 0) - (previous ? 1 : 0);
+  return {
+    ...comment,
+    reactions,
+    reactionCount: Math.max(0, (comment.reactionCount ?? 0) + delta),
+    myReaction: next,
+  };
+};
+
+// Shown instead of the comment body for anything the reader shouldn't see
+const PLACEHOLDER_MESSAGES = {
+  deleted: 'This comment was deleted',
+  hidden: "Hidden by moderation while it's reviewed",
+  removed: 'Removed by moderators',
+  blocked: "From a member you've blocked",
+  reported: "You reported this comment. It's hidden for you.",
+};
+
+type PlaceholderReason = keyof typeof PLACEHOLDER_MESSAGES;
+
 export default function CommentSection({ articleId }: CommentSectionProps) {
-  const { user } = useAuth();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const { user, pendingMutations, blockedUserIds, blockUser } = useAuth();
   const [commentText, setCommentText] = useState('');
-  const [comments, setComments] = useState<Comment[]>([]);
+  // Members picked from autocomplete while composing; turned into mention
+  // entities when the comment is posted
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<ActiveMentionQuery | null>(null);
+  const [mentionSuggestions, setMentionSuggestions] = useState<PublicUser[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  // Mentions carried over from the comment being edited
+  const [editMentionCandidates, setEditMentionCandidates] = useState<MentionCandidate[]>([]);
+  // Top-level comments loaded so far, deduplicated by comment_id across pages
+  const [store, setStore] = useState<CommentStore>(EMPTY_COMMENT_STORE);
+  const comments = useMemo(() => selectComments(store), [store]);
+  // Latest store for merge decisions inside async loads
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const [hasMore, setHasMore] = useState(false);
+  const [lastCommentId, setLastCommentId] = useState<string | undefined>(undefined);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
   const [posting, setPosting] = useState(false);
   const [commentLimitReached, setCommentLimitReached] = useState(false);
   const [nextCommentAvailable, setNextCommentAvailable] = useState<string | null>(null);
@@ -49,6 +144,77 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
   const [editText, setEditText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [avatarUrls, setAvatarUrls] = useState<Record<string, string>>({}); // Store converted presigned URLs
+  // Reply threads keyed by top-level comment ID; absent until first expanded
+  const [threads, setThreads] = useState<Record<string, ReplyThread>>({});
+  // Comment the composer is replying to (quoted above the input)
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [sort, setSort] = useState<CommentSort>('desc');
+  // Comment being reported (drives the report modal)
+  const [reportTarget, setReportTarget] = useState<Comment | null>(null);
+  // Comments reported this session; hidden for the reporter straight away
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+  // Comments with a reaction request in flight; further taps are ignored until it settles
+  const reactingRef = useRef(new Set<string>());
+  const scrollViewRef = useRef<ScrollView>(null);
+  const inputRef = useRef<TextInput>(null);
+  // Cursor position in the composer, for finding the "@query" being typed
+  const composerCursorRef = useRef(0);
+  const mentionRequestRef = useRef<AbortController | null>(null);
+
+  // Comments written offline, waiting in the outbox for this article
+  const pendingComments = pendingMutations.flatMap((entry) =>
+    entry.mutation.type === 'createComment' && entry.mutation.articleId === articleId
+      ? [{
+          id: entry.id,
+          content: entry.mutation.content,
+          parentCommentId: entry.mutation.parentCommentId,
+          createdAt: entry.createdAt,
+        }]
+      : []
+  );
+  const previousPendingCountRef = useRef(pendingComments.length);
+  // Cancels in-flight comment requests when the section unmounts
+  const abortControllerRef = useRef(new AbortController());
+  // Each page load gets its own controller so a sort change cancels the previous one
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+    return () => {
+      abortController.abort();
+      requestRef.current?.abort();
+      mentionRequestRef.current?.abort();
+    };
+  }, []);
+
+  // Look up members for the "@query" being typed, debounced
+  const mentionSearch = mentionQuery?.query ?? null;
+  useEffect(() => {
+    mentionRequestRef.current?.abort();
+    if (!mentionSearch) {
+      setMentionSuggestions([]);
+      setLoadingSuggestions(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    mentionRequestRef.current = controller;
+    setLoadingSuggestions(true);
+    const timer = setTimeout(async () => {
+      const response = await apiClient.searchUsers(mentionSearch, {
+        limit: MENTION_SUGGESTION_LIMIT,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      setMentionSuggestions(response.users ?? []);
+      setLoadingSuggestions(false);
+    }, MENTION_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [mentionSearch]);
 
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -75,50 +241,205 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
     }
   };
 
-  // Normalize comment to ensure avatar is always string | null (never undefined)
-  const normalizeComment = (comment: any): Comment => {
-    return {
-      ...comment,
-      author: {
-        username: comment.author?.username || 'Anonymous',
-        name: comment.author?.name,
-        avatar: comment.author?.avatar ?? null, // Convert undefined to null
-      },
-    };
-  };
+  // Load a page of top-level comments. 'initial' starts over, 'more' appends the
+  // next page and 'refresh' merges the newest page into what is already loaded.
+  const loadComments = useCallback(async (mode: 'initial' | 'refresh' | 'more', cursor?: string) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    if (mode === 'initial') setLoading(true);
+    if (mode === 'more') setLoadingMore(true);
 
-  // Fetch comments from API
-  const fetchComments = useCallback(async () => {
     try {
       setError(null);
       const response = await apiClient.getArticleComments(articleId, {
-        limit: 100,
-        sort: 'desc',
+        limit: COMMENTS_PAGE_SIZE,
+        lastCommentId: cursor,
+        sort,
+        signal: controller.signal,
       });
+      if (controller.signal.aborted) return;
 
       if (response.success && response.comments) {
-        // Normalize comments to ensure avatar is always string | null
-        const normalizedComments = response.comments.map(normalizeComment);
-        setComments(normalizedComments);
+        const page = response.comments;
+        if (mode === 'more') {
+          setStore((prev) => appendComments(prev, page));
+          setHasMore(response.hasMore ?? false);
+          setLastCommentId(response.lastCommentId);
+        } else {
+          // New comments only arrive at the top when sorted newest first, and the
+          // page only merges cleanly if it overlaps what is already loaded; the
+          // cursor for the next page stays valid in that case
+          const overlaps = page.some((comment) => !!storeRef.current.byId[comment.comment_id]);
+          if (mode === 'refresh' && sort === 'desc' && overlaps) {
+            setStore((prev) => prependComments(prev, page));
+          } else {
+            setStore(appendComments(EMPTY_COMMENT_STORE, page));
+            setHasMore(response.hasMore ?? false);
+            setLastCommentId(response.lastCommentId);
+            // Reply counts may have changed; threads reload when expanded again
+            setThreads({});
+          }
+        }
+      } else if (mode === 'more') {
+        Alert.alert('Error', response.error || 'Failed to load more comments. Please try again.');
       } else {
         setError(response.error || 'Failed to load comments');
-        setComments([]);
+        if (mode === 'initial') setStore(EMPTY_COMMENT_STORE);
       }
     } catch (err: any) {
       logger.error('[CommentSection] Error fetching comments:', err);
       setError('Failed to load comments. Please try again.');
-      setComments([]);
     } finally {
-      setLoading(false);
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, [articleId]);
+  }, [articleId, sort]);
 
-  // Load comments on mount
+  // Load the first page on mount and whenever the sort changes
   useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
+    loadComments('initial');
+  }, [loadComments]);
 
-  // Handle posting a new comment
+  // Reload once queued comments have been replayed so they show up as real comments
+  useEffect(() => {
+    if (pendingComments.length < previousPendingCountRef.current) {
+      loadComments('refresh');
+    }
+    previousPendingCountRef.current = pendingComments.length;
+  }, [pendingComments.length, loadComments]);
+
+  const onRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      await loadComments('refresh');
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadComments]);
+
+  const loadMoreComments = useCallback(() => {
+    if (!hasMore || !lastCommentId || loading || loadingMore || refreshing) return;
+    loadComments('more', lastCommentId);
+  }, [hasMore, lastCommentId, loading, loadingMore, refreshing, loadComments]);
+
+  // Request the next page as the user nears the end of the loaded comments
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+      loadMoreComments();
+    }
+  };
+
+  const updateThread = (commentId: string, update: (thread: ReplyThread) => ReplyThread) => {
+    setThreads((prev) => ({ ...prev, [commentId]: update(prev[commentId] ?? EMPTY_THREAD) }));
+  };
+
+  // Replace a comment wherever it is shown (top level or inside its thread)
+  const patchComment = (target: Comment, update: (comment: Comment) => Comment) => {
+    const patch = (list: Comment[]) =>
+      list.map((c) => (c.comment_id === target.comment_id ? update(c) : c));
+    if (target.parentCommentId) {
+      updateThread(target.parentCommentId, (thread) => ({ ...thread, replies: patch(thread.replies) }));
+    } else {
+      setStore((prev) => updateComment(prev, target.comment_id, update));
+    }
+  };
+
+  const adjustReplyCount = (commentId: string, delta: number) => {
+    setStore((prev) =>
+      updateComment(prev, commentId, (c) => ({ ...c, replyCount: Math.max(0, (c.replyCount ?? 0) + delta) }))
+    );
+  };
+
+  // Fetch a page of replies; without a cursor the thread is reloaded from the start
+  const loadReplies = async (commentId: string, lastCommentId?: string) => {
+    updateThread(commentId, (thread) => ({ ...thread, expanded: true, loading: true }));
+
+    const { signal } = abortControllerRef.current;
+    const response = await apiClient.getCommentReplies(commentId, {
+      limit: REPLIES_PAGE_SIZE,
+      lastCommentId,
+      signal,
+    });
+    if (signal.aborted) return;
+
+    if (response.success && response.comments) {
+      const page = response.comments;
+      updateThread(commentId, (thread) => ({
+        ...thread,
+        replies: lastCommentId ? [...thread.replies, ...page] : page,
+        loading: false,
+        hasMore: response.hasMore ?? false,
+        lastCommentId: response.lastCommentId,
+      }));
+    } else {
+      updateThread(commentId, (thread) => ({ ...thread, loading: false }));
+      Alert.alert('Error', response.error || 'Failed to load replies. Please try again.');
+    }
+  };
+
+  const handleToggleReplies = (comment: Comment) => {
+    const thread = threads[comment.comment_id];
+    if (!thread || (!thread.expanded && thread.replies.length === 0)) {
+      loadReplies(comment.comment_id);
+      return;
+    }
+    updateThread(comment.comment_id, (current) => ({ ...current, expanded: !current.expanded }));
+  };
+
+  const handleReply = (comment: Comment) => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to reply.');
+      return;
+    }
+    setReplyingTo(comment);
+    scrollViewRef.current?.scrollToEnd({ animated: true });
+    inputRef.current?.focus();
+  };
+
+  const handleChangeCommentText = (text: string) => {
+    // Selection events may arrive after the text change, so assume the cursor
+    // moved with the edit until the next one corrects it
+    const cursor = Math.max(0, composerCursorRef.current + text.length - commentText.length);
+    composerCursorRef.current = cursor;
+    setCommentText(text);
+    setMentionQuery(findMentionQuery(text, cursor));
+  };
+
+  const handleComposerSelectionChange = (cursor: number) => {
+    composerCursorRef.current = cursor;
+    setMentionQuery(findMentionQuery(commentText, cursor));
+  };
+
+  const handleSelectMention = (member: PublicUser) => {
+    if (!mentionQuery) return;
+    const { text, cursor } = insertMention(commentText, mentionQuery, member.username);
+    composerCursorRef.current = cursor;
+    setCommentText(text);
+    setMentionCandidates((prev) =>
+      prev.some((candidate) => candidate.userId === member.userId)
+        ? prev
+        : [...prev, { userId: member.userId, username: member.username }]
+    );
+    setMentionQuery(null);
+  };
+
+  const resetComposer = () => {
+    setCommentText('');
+    setMentionCandidates([]);
+    setMentionQuery(null);
+    setReplyingTo(null);
+  };
+
+  const handleOpenProfile = (userId: string, username?: string) => {
+    navigation.navigate('UserProfile', { userId, username });
+  };
+
+  // Handle posting a new comment or reply
   const handlePostComment = async () => {
     if (!user) {
       Alert.alert('Sign In Required', 'Please sign in to post a comment.');
@@ -145,17 +466,41 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
       return;
     }
 
+    // Threads are one level deep: replying to a reply joins its parent's thread
+    const parentCommentId = replyingTo ? replyingTo.parentCommentId ?? replyingTo.comment_id : undefined;
+    const mentions = buildMentionEntities(trimmedContent, mentionCandidates);
+
+    // Kept for the outbox, so a timed-out post that did land isn't posted twice
+    const idempotencyKey = generateIdempotencyKey();
+
     setPosting(true);
     setError(null);
 
     try {
-      const response = await apiClient.createComment(articleId, trimmedContent);
+      const response = parentCommentId
+        ? await apiClient.createReply(articleId, parentCommentId, trimmedContent, { mentions, idempotencyKey })
+        : await apiClient.createComment(articleId, trimmedContent, { mentions, idempotencyKey });
 
       if (response.success && response.comment) {
-        // Normalize comment to ensure avatar is always string | null
-        const normalizedComment = normalizeComment(response.comment);
-        setComments((prev) => [normalizedComment, ...prev]);
-        setCommentText('');
+        const newComment = response.comment;
+        if (parentCommentId) {
+          const parent = store.byId[parentCommentId];
+          const loadedReplies = threads[parentCommentId]?.replies.length ?? 0;
+          adjustReplyCount(parentCommentId, 1);
+          // Append when the whole thread is already on screen; otherwise fetch it
+          if (loadedReplies >= (parent?.replyCount ?? 0)) {
+            updateThread(parentCommentId, (thread) => ({
+              ...thread,
+              expanded: true,
+              replies: [...thread.replies, newComment],
+            }));
+          } else {
+            loadReplies(parentCommentId);
+          }
+        } else {
+          setStore((prev) => prependComments(prev, [newComment]));
+        }
+        resetComposer();
         // Reset limit state on successful comment post
         setCommentLimitReached(false);
         setNextCommentAvailable(null);
@@ -179,6 +524,13 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
                 response.error ||
                 'You have already commented today. Please try again tomorrow.'
         );
+      } else if (isRetryableStatus(response.status)) {
+        // Offline or server unavailable: keep the comment in the outbox and post it later
+        await enqueueMutation(
+          { type: 'createComment', articleId, content: trimmedContent, parentCommentId, mentions },
+          idempotencyKey
+        );
+        resetComposer();
       } else {
         Alert.alert('Error', response.error || 'Failed to post comment. Please try again.');
       }
@@ -190,16 +542,60 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
     }
   };
 
+  // Tapping the current reaction removes it; any other reaction replaces it.
+  // The counts update immediately and roll back if the request fails.
+  const handleReact = async (comment: Comment, type: ReactionType) => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to react to comments.');
+      return;
+    }
+    if (reactingRef.current.has(comment.comment_id)) return;
+    reactingRef.current.add(comment.comment_id);
+
+    const next = comment.myReaction === type ? null : type;
+    patchComment(comment, (current) => applyReaction(current, next));
+
+    try {
+      const response = next
+        ? await apiClient.addReaction(comment.comment_id, next)
+        : await apiClient.removeReaction(comment.comment_id);
+
+      if (response.success) {
+        patchComment(comment, (current) => ({
+          ...current,
+          reactions: response.reactions ?? current.reactions,
+          reactionCount: response.reactionCount ?? current.reactionCount,
+          myReaction: response.myReaction ?? null,
+        }));
+      } else {
+        patchComment(comment, (current) => ({
+          ...current,
+          reactions: comment.reactions,
+          reactionCount: comment.reactionCount,
+          myReaction: comment.myReaction,
+        }));
+        Alert.alert('Error', response.error || 'Failed to save your reaction. Please try again.');
+      }
+    } finally {
+      reactingRef.current.delete(comment.comment_id);
+    }
+  };
+
   // Handle starting edit
+  // Mentions are edited as plain "@handle" text showing the members' current usernames
   const handleStartEdit = (comment: Comment) => {
     setEditingCommentId(comment.comment_id);
-    setEditText(comment.content);
+    setEditText(toMentionSegments(comment.content, comment.mentions).map((segment) => segment.text).join(''));
+    setEditMentionCandidates(
+      (comment.mentions ?? []).map(({ userId, username }) => ({ userId, username }))
+    );
   };
 
   // Handle canceling edit
   const handleCancelEdit = () => {
     setEditingCommentId(null);
     setEditText('');
+    setEditMentionCandidates([]);
   };
 
   // Handle saving edit
@@ -213,18 +609,16 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
     }
 
     try {
-      const response = await apiClient.updateComment(editingCommentId, trimmedContent);
+      const response = await apiClient.updateComment(
+        editingCommentId,
+        trimmedContent,
+        buildMentionEntities(trimmedContent, editMentionCandidates)
+      );
 
       if (response.success && response.comment) {
-        // Normalize comment to ensure avatar is always string | null
-        const normalizedComment = normalizeComment(response.comment);
-        setComments((prev) =>
-          prev.map((c) =>
-            c.comment_id === editingCommentId ? normalizedComment : c
-          )
-        );
-        setEditingCommentId(null);
-        setEditText('');
+        const updatedComment = response.comment;
+        patchComment(updatedComment, () => updatedComment);
+        handleCancelEdit();
       } else {
         Alert.alert('Error', response.error || 'Failed to update comment. Please try again.');
       }
@@ -235,7 +629,8 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
   };
 
   // Handle deleting a comment
-  const handleDeleteComment = (commentId: string) => {
+  const handleDeleteComment = (comment: Comment) => {
+    const commentId = comment.comment_id;
     Alert.alert(
       'Delete Comment',
       'Are you sure you want to delete this comment?',
@@ -251,8 +646,20 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
 
               if (response.success) {
                 logger.log('[CommentSection] Comment deleted successfully');
-                // Remove comment from list
-                setComments((prev) => prev.filter((c) => c.comment_id !== commentId));
+                // Remove comment from its list
+                if (comment.parentCommentId) {
+                  const parentId = comment.parentCommentId;
+                  updateThread(parentId, (thread) => ({
+                    ...thread,
+                    replies: thread.replies.filter((c) => c.comment_id !== commentId),
+                  }));
+                  adjustReplyCount(parentId, -1);
+                } else {
+                  setStore((prev) => removeComment(prev, commentId));
+                }
+                if (replyingTo?.comment_id === commentId) {
+                  setReplyingTo(null);
+                }
               } else {
                 logger.error('[CommentSection] Failed to delete comment:', response.error);
                 Alert.alert('Error', response.error || 'Failed to delete comment. Please try again.');
@@ -271,6 +678,90 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
     );
   };
 
+  const handleSubmitReport = async (reason: ReportReason, details: string) => {
+    if (!reportTarget) return;
+    const commentId = reportTarget.comment_id;
+
+    const response = await apiClient.reportComment(commentId, reason, details);
+    if (response.success) {
+      setReportedIds((prev) => new Set(prev).add(commentId));
+      setReportTarget(null);
+      if (replyingTo?.comment_id === commentId) {
+        setReplyingTo(null);
+      }
+      Alert.alert(
+        'Thanks for letting us know',
+        response.alreadyReported
+          ? "You've already reported this comment. Our moderators will review it."
+          : 'Our moderators will review this comment.'
+      );
+    } else {
+      Alert.alert('Error', response.error || 'Failed to report comment. Please try again.');
+    }
+  };
+
+  const handleBlockAuthor = (comment: Comment) => {
+    const userId = comment.author?.userId;
+    if (!userId) return;
+    const username = comment.author?.username?.replace(/^@+/, '');
+
+    Alert.alert(
+      `Block @${username}?`,
+      "You won't see their comments or replies. You can unblock them from Settings.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await blockUser(userId, username);
+              if (replyingTo?.author?.userId === userId) {
+                setReplyingTo(null);
+              }
+            } catch (err: any) {
+              Alert.alert('Error', err?.message || 'Failed to block member. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Report/block menu on other members' comments
+  const handleMoreActions = (comment: Comment) => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to report comments.');
+      return;
+    }
+
+    Alert.alert('Comment options', undefined, [
+      { text: 'Report comment', onPress: () => setReportTarget(comment) },
+      ...(comment.author?.userId
+        ? [{
+            text: `Block @${comment.author.username.replace(/^@+/, '')}`,
+            style: 'destructive' as const,
+            onPress: () => handleBlockAuthor(comment),
+          }]
+        : []),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const isAuthorBlocked = (comment: Comment) =>
+    !!comment.author?.userId && blockedUserIds.has(comment.author.userId);
+
+  // Why a comment's body is withheld, if it is. Authors still see their own
+  // comment while it is hidden for review.
+  const getPlaceholderReason = (comment: Comment): PlaceholderReason | null => {
+    const status = getCommentStatus(comment);
+    if (status === 'deleted' || status === 'removed') return status;
+    if (status === 'hidden' && !isCommentOwner(comment)) return 'hidden';
+    if (isAuthorBlocked(comment)) return 'blocked';
+    if (reportedIds.has(comment.comment_id)) return 'reported';
+    return null;
+  };
+
   // Get author display name
   const getAuthorName = (comment: Comment) => {
     if (!comment.author) {
@@ -303,11 +794,317 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
     return commentUsername === userUsername;
   };
 
+  const renderPendingComment = (pending: (typeof pendingComments)[number]) => (
+    <View
+      key={pending.id}
+      style={[styles.commentCard, styles.commentCardPending, !!pending.parentCommentId && styles.replyCard]}
+    >
+      <View style={styles.commentHeader}>
+        <View style={styles.avatar}>
+          <View style={styles.avatarPlaceholder}>
+            <MaterialIcons name="person" size={24} color={colors.textMuted} />
+          </View>
+        </View>
+        <View style={styles.commentMeta}>
+          <Text style={styles.commentAuthor}>
+            {user?.name || user?.username || 'You'}
+          </Text>
+          <View style={styles.pendingRow}>
+            <MaterialIcons name="schedule" size={12} color={colors.textMuted} />
+            <Text style={styles.commentDate}>Will post when you're back online</Text>
+          </View>
+        </View>
+      </View>
+      <Text style={styles.commentContent}>{pending.content}</Text>
+    </View>
+  );
+
+  const renderPlaceholder = (comment: Comment, reason: PlaceholderReason, isReply: boolean) => (
+    <View key={comment.comment_id} style={[styles.commentCard, styles.placeholderCard, isReply && styles.replyCard]}>
+      <MaterialIcons
+        name={reason === 'deleted' ? 'delete-outline' : reason === 'blocked' ? 'block' : 'visibility-off'}
+        size={16}
+        color={colors.textMuted}
+      />
+      <Text style={styles.placeholderText}>{PLACEHOLDER_MESSAGES[reason]}</Text>
+    </View>
+  );
+
+  const renderComment = (comment: Comment, isReply = false) => {
+    const placeholderReason = getPlaceholderReason(comment);
+    if (placeholderReason) {
+      return renderPlaceholder(comment, placeholderReason, isReply);
+    }
+
+    const isOwner = isCommentOwner(comment);
+    const isEditing = editingCommentId === comment.comment_id;
+    const isUnderReview = getCommentStatus(comment) === 'hidden';
+    const authorId = comment.author?.userId;
+    const openAuthor = () => {
+      if (authorId) handleOpenProfile(authorId, comment.author?.username);
+    };
+
+    return (
+      <View key={comment.comment_id} style={[styles.commentCard, isReply && styles.replyCard]}>
+        <View style={styles.commentHeader}>
+          <TouchableOpacity
+            style={styles.avatar}
+            onPress={openAuthor}
+            disabled={!authorId}
+            activeOpacity={0.7}
+          >
+            {(() => {
+              // Use converted URL if available, otherwise use original
+              const originalAvatarUri = comment.author?.avatar;
+              const convertedAvatarUri = avatarUrls[comment.comment_id];
+              const avatarUri = convertedAvatarUri || originalAvatarUri;
+
+              // Only render Image if we have a valid non-empty URL
+              if (avatarUri && typeof avatarUri === 'string' && avatarUri.trim().length > 0 && avatarUri.startsWith('http')) {
+                return (
+                  <Image
+                    source={{ uri: avatarUri }}
+                    style={styles.avatarImage}
+                    resizeMode="cover"
+                    onError={async (error) => {
+                      const errorMessage = error.nativeEvent?.error || '';
+
+                      // If we get a 403 Forbidden, try to get a presigned URL
+                      if ((errorMessage.includes('403') || errorMessage.includes('Forbidden')) && !convertedAvatarUri) {
+                        // Extract S3 key from the URL
+                        let s3Key: string | null = null;
+                        if (originalAvatarUri && typeof originalAvatarUri === 'string') {
+                          // Try to extract S3 key from URL
+                          const urlMatch = originalAvatarUri.match(/profile-pictures\/[^?]+/);
+                          if (urlMatch) {
+                            s3Key = urlMatch[0];
+                          } else if (!originalAvatarUri.startsWith('http')) {
+                            // It's already an S3 key
+                            s3Key = originalAvatarUri;
+                          }
+                        }
+
+                        if (s3Key) {
+                          try {
+                            const urlResult = await apiClient.getProfilePictureUrl(s3Key);
+                            if (urlResult.success && urlResult.url) {
+                              // Store the converted URL
+                              setAvatarUrls(prev => ({
+                                ...prev,
+                                [comment.comment_id]: urlResult.url!,
+                              }));
+                            }
+                          } catch (err: any) {
+                            // Silently fail - will show placeholder
+                          }
+                        }
+                      }
+                    }}
+                  />
+                );
+              }
+              // Show placeholder if no valid avatar URL
+              return (
+                <View style={styles.avatarPlaceholder}>
+                  <MaterialIcons name="person" size={24} color={colors.textMuted} />
+                </View>
+              );
+            })()}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.commentMeta}
+            onPress={openAuthor}
+            disabled={!authorId}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.commentAuthor}>
+              {getAuthorName(comment)}
+            </Text>
+            <Text style={styles.commentDate}>
+              {formatDate(comment.createdAt)}
+            </Text>
+          </TouchableOpacity>
+          {isOwner && !isEditing && (
+            <View style={styles.commentActions}>
+              <TouchableOpacity
+                onPress={() => handleStartEdit(comment)}
+                style={styles.actionButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <MaterialIcons name="edit" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeleteComment(comment)}
+                style={styles.actionButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <MaterialIcons name="delete" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+          {!isOwner && user && (
+            <TouchableOpacity
+              onPress={() => handleMoreActions(comment)}
+              style={styles.actionButton}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <MaterialIcons name="more-vert" size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+        {isUnderReview && (
+          <View style={styles.reviewNotice}>
+            <MaterialIcons name="visibility-off" size={14} color={colors.premiumText} />
+            <Text style={styles.reviewNoticeText}>Only you can see this while moderators review it</Text>
+          </View>
+        )}
+        {isEditing ? (
+          <View style={styles.editContainer}>
+            <TextInput
+              style={styles.editInput}
+              value={editText}
+              onChangeText={setEditText}
+              multiline
+              maxLength={500}
+              autoFocus
+            />
+            <View style={styles.editActions}>
+              <Text style={styles.charCount}>
+                {editText.length}/500
+              </Text>
+              <View style={styles.editButtons}>
+                <TouchableOpacity
+                  onPress={handleCancelEdit}
+                  style={styles.cancelButton}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSaveEdit}
+                  style={[
+                    styles.saveButton,
+                    editText.trim().length === 0 && styles.saveButtonDisabled,
+                  ]}
+                  disabled={editText.trim().length === 0}
+                >
+                  <Text
+                    style={[
+                      styles.saveButtonText,
+                      editText.trim().length === 0 && styles.saveButtonTextDisabled,
+                    ]}
+                  >
+                    Save
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.commentContent}>
+              {toMentionSegments(comment.content, comment.mentions).map((segment, index) =>
+                segment.type === 'mention' ? (
+                  <Text
+                    key={index}
+                    style={styles.mention}
+                    onPress={() => handleOpenProfile(segment.mention.userId, segment.mention.username)}
+                  >
+                    {segment.text}
+                  </Text>
+                ) : (
+                  segment.text
+                )
+              )}
+            </Text>
+            <View style={styles.commentFooter}>
+              {REACTION_TYPES.map((type) => {
+                const count = comment.reactions?.[type] ?? 0;
+                const active = comment.myReaction === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    onPress={() => handleReact(comment, type)}
+                    style={[styles.reactionChip, active && styles.reactionChipActive]}
+                    hitSlop={{ top: 6, bottom: 6, left: 4, right: 4 }}
+                  >
+                    <MaterialIcons name={REACTION_ICONS[type]} size={14} color={active ? colors.onPrimary : colors.textSecondary} />
+                    {count > 0 && (
+                      <Text style={[styles.reactionCount, active && styles.reactionCountActive]}>{count}</Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+              {user && (
+                <TouchableOpacity
+                  onPress={() => handleReply(comment)}
+                  style={styles.replyButton}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <MaterialIcons name="reply" size={16} color={colors.textSecondary} />
+                  <Text style={styles.replyButtonText}>Reply</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  // Replies under a top-level comment: "View N replies" toggle, loaded replies,
+  // queued offline replies and a "more" link when the thread has another page
+  const renderThread = (comment: Comment) => {
+    const thread = threads[comment.comment_id];
+    const replyCount = comment.replyCount ?? 0;
+    const pendingReplies = pendingComments.filter((pending) => pending.parentCommentId === comment.comment_id);
+    if (replyCount === 0 && pendingReplies.length === 0) return null;
+
+    const expanded = !!thread?.expanded;
+    return (
+      <View style={styles.thread}>
+        {replyCount > 0 && (
+          <TouchableOpacity
+            onPress={() => handleToggleReplies(comment)}
+            style={styles.threadToggle}
+            disabled={thread?.loading && !expanded}
+          >
+            <MaterialIcons name={expanded ? 'expand-less' : 'expand-more'} size={18} color={colors.textSecondary} />
+            <Text style={styles.threadToggleText}>
+              {expanded ? 'Hide replies' : `View ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Replies from blocked members are dropped rather than left as placeholders */}
+        {expanded &&
+          thread.replies
+            .filter((reply) => !isAuthorBlocked(reply))
+            .map((reply) => renderComment(reply, true))}
+        {pendingReplies.map(renderPendingComment)}
+
+        {expanded && thread.loading && (
+          <ActivityIndicator size="small" color={colors.text} style={styles.threadLoader} />
+        )}
+        {expanded && !thread.loading && thread.hasMore && (
+          <TouchableOpacity
+            onPress={() => loadReplies(comment.comment_id, thread.lastCommentId)}
+            style={styles.threadToggle}
+          >
+            <Text style={styles.threadToggleText}>View more replies</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  // Top-level comments plus their replies
+  const totalCount = comments.reduce((count, comment) => count + 1 + (comment.replyCount ?? 0), 0);
+
   if (loading) {
     return (
       <View style={styles.container}>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#000" />
+          <ActivityIndicator size="large" color={colors.text} />
           <Text style={styles.loadingText}>Loading comments...</Text>
         </View>
       </View>
@@ -317,25 +1114,47 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
   return (
     <View style={styles.container}>
       <ScrollView
+        ref={scrollViewRef}
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={true}
         nestedScrollEnabled={true}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+          />
+        }
       >
         <View style={styles.content}>
           {/* Header */}
           <View style={styles.header}>
             <Text style={styles.headerTitle}>Comments</Text>
             <Text style={styles.commentCount}>
-              {comments.length} {comments.length === 1 ? 'comment' : 'comments'}
+              {totalCount}{hasMore ? '+' : ''} {totalCount === 1 && !hasMore ? 'comment' : 'comments'}
             </Text>
+            <View style={styles.sortRow}>
+              {SORT_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.sortChip, sort === option.value && styles.sortChipActive]}
+                  onPress={() => setSort(option.value)}
+                >
+                  <Text style={[styles.sortChipText, sort === option.value && styles.sortChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </View>
 
           {/* Error Message */}
           {error && (
             <View style={styles.errorContainer}>
               <Text style={styles.errorText}>{error}</Text>
-              <TouchableOpacity onPress={fetchComments}>
+              <TouchableOpacity onPress={() => loadComments('initial')}>
                 <Text style={styles.retryText}>Retry</Text>
               </TouchableOpacity>
             </View>
@@ -343,170 +1162,83 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
 
           {/* Comments List */}
           <View style={styles.commentsList}>
-            {comments.length > 0 ? (
-              comments.map((comment) => {
-                const isOwner = isCommentOwner(comment);
-                const isEditing = editingCommentId === comment.comment_id;
+            {/* Pending (offline) comments */}
+            {pendingComments.filter((pending) => !pending.parentCommentId).map(renderPendingComment)}
 
-                return (
-                  <View key={comment.comment_id} style={styles.commentCard}>
-                    <View style={styles.commentHeader}>
-                      <View style={styles.avatar}>
-                        {(() => {
-                          // Use converted URL if available, otherwise use original
-                          const originalAvatarUri = comment.author?.avatar;
-                          const convertedAvatarUri = avatarUrls[comment.comment_id];
-                          const avatarUri = convertedAvatarUri || originalAvatarUri;
-                          
-                          // Only render Image if we have a valid non-empty URL
-                          if (avatarUri && typeof avatarUri === 'string' && avatarUri.trim().length > 0 && avatarUri.startsWith('http')) {
-                            return (
-                              <Image
-                                source={{ uri: avatarUri }}
-                                style={styles.avatarImage}
-                                resizeMode="cover"
-                                onError={async (error) => {
-                                  const errorMessage = error.nativeEvent?.error || '';
-                                  
-                                  // If we get a 403 Forbidden, try to get a presigned URL
-                                  if ((errorMessage.includes('403') || errorMessage.includes('Forbidden')) && !convertedAvatarUri) {
-                                    // Extract S3 key from the URL
-                                    let s3Key: string | null = null;
-                                    if (originalAvatarUri && typeof originalAvatarUri === 'string') {
-                                      // Try to extract S3 key from URL
-                                      const urlMatch = originalAvatarUri.match(/profile-pictures\/[^?]+/);
-                                      if (urlMatch) {
-                                        s3Key = urlMatch[0];
-                                      } else if (!originalAvatarUri.startsWith('http')) {
-                                        // It's already an S3 key
-                                        s3Key = originalAvatarUri;
-                                      }
-                                    }
-                                    
-                                    if (s3Key) {
-                                      try {
-                                        const urlResult = await apiClient.getProfilePictureUrl(s3Key);
-                                        if (urlResult.success && urlResult.url) {
-                                          // Store the converted URL
-                                          setAvatarUrls(prev => ({
-                                            ...prev,
-                                            [comment.comment_id]: urlResult.url!,
-                                          }));
-                                        }
-                                      } catch (err: any) {
-                                        // Silently fail - will show placeholder
-                                      }
-                                    }
-                                  }
-                                }}
-                              />
-                            );
-                          }
-                          // Show placeholder if no valid avatar URL
-                          return (
-                            <View style={styles.avatarPlaceholder}>
-                              <MaterialIcons name="person" size={24} color="#9CA3AF" />
-                            </View>
-                          );
-                        })()}
-                      </View>
-                      <View style={styles.commentMeta}>
-                        <Text style={styles.commentAuthor}>
-                          {getAuthorName(comment)}
-                        </Text>
-                        <Text style={styles.commentDate}>
-                          {formatDate(comment.createdAt)}
-                        </Text>
-                      </View>
-                      {isOwner && !isEditing && (
-                        <View style={styles.commentActions}>
-                          <TouchableOpacity
-                            onPress={() => handleStartEdit(comment)}
-                            style={styles.actionButton}
-                            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-                          >
-                            <MaterialIcons name="edit" size={18} color="#666" />
-                          </TouchableOpacity>
-                          <TouchableOpacity
-                            onPress={() => handleDeleteComment(comment.comment_id)}
-                            style={styles.actionButton}
-                            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-                          >
-                            <MaterialIcons name="delete" size={18} color="#666" />
-                          </TouchableOpacity>
-                        </View>
-                      )}
-                    </View>
-                    {isEditing ? (
-                      <View style={styles.editContainer}>
-                        <TextInput
-                          style={styles.editInput}
-                          value={editText}
-                          onChangeText={setEditText}
-                          multiline
-                          maxLength={500}
-                          autoFocus
-                        />
-                        <View style={styles.editActions}>
-                          <Text style={styles.charCount}>
-                            {editText.length}/500
-                          </Text>
-                          <View style={styles.editButtons}>
-                            <TouchableOpacity
-                              onPress={handleCancelEdit}
-                              style={styles.cancelButton}
-                            >
-                              <Text style={styles.cancelButtonText}>Cancel</Text>
-                            </TouchableOpacity>
-                            <TouchableOpacity
-                              onPress={handleSaveEdit}
-                              style={[
-                                styles.saveButton,
-                                editText.trim().length === 0 && styles.saveButtonDisabled,
-                              ]}
-                              disabled={editText.trim().length === 0}
-                            >
-                              <Text
-                                style={[
-                                  styles.saveButtonText,
-                                  editText.trim().length === 0 && styles.saveButtonTextDisabled,
-                                ]}
-                              >
-                                Save
-                              </Text>
-                            </TouchableOpacity>
-                          </View>
-                        </View>
-                      </View>
-                    ) : (
-                      <Text style={styles.commentContent}>{comment.content}</Text>
-                    )}
-                  </View>
-                );
-              })
+            {comments.length > 0 || pendingComments.length > 0 ? (
+              comments.map((comment) => (
+                <View key={comment.comment_id}>
+                  {renderComment(comment)}
+                  {renderThread(comment)}
+                </View>
+              ))
             ) : (
               <View style={styles.emptyState}>
-                <MaterialIcons name="comment" size={48} color="#999" />
+                <MaterialIcons name="comment" size={48} color={colors.textMuted} />
                 <Text style={styles.emptyStateText}>No comments yet</Text>
                 <Text style={styles.emptyStateSubtext}>
                   {user ? 'Be the first to share your thoughts' : 'Sign in to leave a comment'}
                 </Text>
               </View>
             )}
+
+            {loadingMore && (
+              <ActivityIndicator size="small" color={colors.text} style={styles.loadMoreIndicator} />
+            )}
           </View>
 
           {/* Post Comment Form */}
           {user ? (
             <View style={styles.postCommentSection}>
-              <Text style={styles.postCommentTitle}>Add a comment</Text>
+              <Text style={styles.postCommentTitle}>{replyingTo ? 'Reply' : 'Add a comment'}</Text>
               <View style={styles.inputContainer}>
+                {replyingTo && (
+                  <View style={styles.replyQuote}>
+                    <View style={styles.replyQuoteBody}>
+                      <Text style={styles.replyQuoteAuthor}>Replying to {getAuthorName(replyingTo)}</Text>
+                      <Text style={styles.replyQuoteText} numberOfLines={3}>
+                        {replyingTo.content}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => setReplyingTo(null)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <MaterialIcons name="close" size={18} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {mentionQuery && (loadingSuggestions || mentionSuggestions.length > 0) && (
+                  <View style={styles.mentionSuggestions}>
+                    {loadingSuggestions && mentionSuggestions.length === 0 ? (
+                      <ActivityIndicator size="small" color={colors.text} style={styles.mentionLoader} />
+                    ) : (
+                      mentionSuggestions.map((member) => (
+                        <TouchableOpacity
+                          key={member.userId}
+                          style={styles.mentionSuggestion}
+                          onPress={() => handleSelectMention(member)}
+                        >
+                          <Text style={styles.mentionSuggestionHandle}>@{normalizeHandle(member.username)}</Text>
+                          {member.name ? (
+                            <Text style={styles.mentionSuggestionName} numberOfLines={1}>
+                              {member.name}
+                            </Text>
+                          ) : null}
+                        </TouchableOpacity>
+                      ))
+                    )}
+                  </View>
+                )}
                 <TextInput
+                  ref={inputRef}
                   style={styles.input}
-                  placeholder="Write your comment..."
-                  placeholderTextColor="#999"
+                  placeholder={replyingTo ? 'Write your reply...' : 'Write your comment...'}
+                  placeholderTextColor={colors.textMuted}
                   multiline
                   value={commentText}
-                  onChangeText={setCommentText}
+                  onChangeText={handleChangeCommentText}
+                  onSelectionChange={(event) => handleComposerSelectionChange(event.nativeEvent.selection.end)}
                   maxLength={500}
                   editable={!posting}
                 />
@@ -523,7 +1255,7 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
                     disabled={commentText.trim().length === 0 || posting || commentLimitReached}
                   >
                     {posting ? (
-                      <ActivityIndicator size="small" color="#9CA3AF" />
+                      <ActivityIndicator size="small" color={colors.textMuted} />
                     ) : (
                       <Text
                         style={[
@@ -541,23 +1273,30 @@ export default function CommentSection({ articleId }: CommentSectionProps) {
           ) : (
             <View style={styles.postCommentSection}>
               <View style={styles.signInPrompt}>
-                <MaterialIcons name="lock" size={24} color="#999" />
+                <MaterialIcons name="lock" size={24} color={colors.textMuted} />
                 <Text style={styles.signInText}>Sign in to leave a comment</Text>
               </View>
             </View>
           )}
         </View>
       </ScrollView>
+
+      <ReportCommentModal
+        visible={!!reportTarget}
+        username={reportTarget?.author?.username?.replace(/^@+/, '')}
+        onSubmit={handleSubmitReport}
+        onClose={() => setReportTarget(null)}
+      />
     </View>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
     width: SCREEN_WIDTH,
     height: SCREEN_HEIGHT,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   scrollView: {
     flex: 1,
@@ -580,24 +1319,32 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 28,
     fontWeight: '700',
-    color: '#000',
+    color: colors.text,
     marginBottom: 8,
     letterSpacing: -0.5,
   },
   commentCount: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     fontWeight: '500',
   },
   commentsList: {
     marginBottom: 32,
   },
   commentCard: {
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
     marginBottom: 12,
   },
+  commentCardPending: {
+    opacity: 0.6,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   commentHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -607,7 +1354,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: 12,
@@ -617,7 +1364,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -627,7 +1374,7 @@ const styles = StyleSheet.create({
     borderRadius: 20,
   },
   avatarText: {
-    color: '#fff',
+    color: colors.background,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -637,18 +1384,194 @@ const styles = StyleSheet.create({
   commentAuthor: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#000',
+    color: colors.text,
     marginBottom: 2,
   },
   commentDate: {
     fontSize: 12,
-    color: '#999',
+    color: colors.textMuted,
   },
   commentContent: {
     fontSize: 15,
-    color: '#1a1a1a',
+    color: colors.text,
     lineHeight: 22,
   },
+  placeholderCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: colors.textMuted,
+    fontStyle: 'italic',
+  },
+  reviewNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.premiumSurface,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  reviewNoticeText: {
+    fontSize: 12,
+    color: colors.premiumText,
+  },
+  mention: {
+    color: colors.link,
+    fontWeight: '600',
+  },
+  mentionSuggestions: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  mentionSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  mentionSuggestionHandle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  mentionSuggestionName: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  mentionLoader: {
+    paddingVertical: 12,
+  },
+  commentFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceMuted,
+  },
+  reactionChipActive: {
+    backgroundColor: colors.primary,
+  },
+  reactionCount: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  reactionCountActive: {
+    color: colors.onPrimary,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sortChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.text,
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  sortChipTextActive: {
+    color: colors.onPrimary,
+    fontWeight: '600',
+  },
+  replyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+  },
+  replyButtonText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  thread: {
+    marginLeft: 20,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: colors.border,
+    marginBottom: 12,
+  },
+  replyCard: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  threadToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  threadToggleText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  threadLoader: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  replyQuote: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: colors.background,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.text,
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 12,
+  },
+  replyQuoteBody: {
+    flex: 1,
+    marginRight: 8,
+  },
+  replyQuoteAuthor: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  loadMoreIndicator: {
+    paddingVertical: 16,
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -657,13 +1580,13 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 16,
     marginBottom: 8,
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
   },
   postCommentSection: {
     marginTop: 8,
@@ -671,18 +1594,18 @@ const styles = StyleSheet.create({
   postCommentTitle: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#000',
+    color: colors.text,
     marginBottom: 16,
   },
   inputContainer: {
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 12,
     padding: 16,
   },
   input: {
     minHeight: 100,
     fontSize: 15,
-    color: '#000',
+    color: colors.text,
     textAlignVertical: 'top',
     marginBottom: 12,
   },
@@ -693,24 +1616,24 @@ const styles = StyleSheet.create({
   },
   charCount: {
     fontSize: 12,
-    color: '#999',
+    color: colors.textMuted,
   },
   postButton: {
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     paddingVertical: 10,
     paddingHorizontal: 24,
     borderRadius: 8,
   },
   postButtonDisabled: {
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
   },
   postButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
   },
   postButtonTextDisabled: {
-    color: '#9CA3AF',
+    color: colors.textMuted,
   },
   loadingContainer: {
     flex: 1,
@@ -721,10 +1644,10 @@ const styles = StyleSheet.create({
   loadingText: {
     marginTop: 16,
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
   },
   errorContainer: {
-    backgroundColor: '#FEF2F2',
+    backgroundColor: colors.dangerSurface,
     borderRadius: 8,
     padding: 12,
     marginBottom: 16,
@@ -733,12 +1656,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   errorText: {
-    color: '#DC2626',
+    color: colors.danger,
     fontSize: 14,
     flex: 1,
   },
   retryText: {
-    color: '#DC2626',
+    color: colors.danger,
     fontSize: 14,
     fontWeight: '600',
     marginLeft: 12,
@@ -754,13 +1677,13 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   editInput: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     borderRadius: 8,
     borderWidth: 1,
-    borderColor: '#E5E7EB',
+    borderColor: colors.border,
     padding: 12,
     fontSize: 15,
-    color: '#000',
+    color: colors.text,
     textAlignVertical: 'top',
     minHeight: 80,
     marginBottom: 8,
@@ -778,10 +1701,10 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingHorizontal: 16,
     borderRadius: 8,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
   },
   cancelButtonText: {
-    color: '#666',
+    color: colors.textSecondary,
     fontSize: 14,
     fontWeight: '600',
   },
@@ -789,31 +1712,31 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingHorizontal: 16,
     borderRadius: 8,
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
   },
   saveButtonDisabled: {
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
   },
   saveButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
   },
   saveButtonTextDisabled: {
-    color: '#9CA3AF',
+    color: colors.textMuted,
   },
   signInPrompt: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     padding: 20,
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.surface,
     borderRadius: 12,
     gap: 8,
   },
   signInText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
   },
 });
 
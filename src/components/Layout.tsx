@@ -2,6 +2,8 @@ import React, { ReactNode, memo } from 'react';
 import { View, Text, StyleSheet, Image } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import afLogo from '../../assets/af-logo.png';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
 
 interface LayoutProps {
   children: ReactNode;
@@ -11,6 +13,7 @@ interface LayoutProps {
 }
 
 const Layout = memo(function Layout({ children, date, headerActions, leftHeaderActions }: LayoutProps) {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   return (
@@ -49,13 +52,13 @@ const Layout = memo(function Layout({ children, date, headerActions, leftHeaderA
 
 export default Layout;
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   header: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     zIndex: 100,
     position: 'relative',
   },
@@ -79,6 +82,7 @@ const styles = StyleSheet.create({
   logo: {
     width: 96,
     height: 96,
+    tintColor: colors.text,
     // Ensure sharp rendering on all devices
     overflow: 'hidden',
   },
@@ -8,8 +8,11 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import afLogo from '../../assets/af-logo.png';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
 
 export default function LoadingScreen() {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const pulseValue = useRef(new Animated.Value(0)).current;
   const dot1Opacity = useRef(new Animated.Value(0.3)).current;
@@ -148,10 +151,10 @@ export default function LoadingScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -172,7 +175,7 @@ const styles = StyleSheet.create({
     width: 8,
     height: 8,
     borderRadius: 4,
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
   },
 });
 
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+interface MonthPickerModalProps {
+  visible: boolean;
+  // Month to highlight when the picker opens
+  selected?: Date | null;
+  // Earliest selectable month
+  minDate?: Date;
+  onSelect: (monthStart: Date) => void;
+  onClose: () => void;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+
+export default function MonthPickerModal({ visible, selected, minDate, onSelect, onClose }: MonthPickerModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const today = new Date();
+  const [year, setYear] = useState((selected ?? today).getFullYear());
+
+  // Re-center on the highlighted month every time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setYear((selected ?? new Date()).getFullYear());
+    }
+  }, [visible, selected]);
+
+  const isDisabled = (month: number) => {
+    const index = year * 12 + month;
+    if (index > monthIndex(today)) return true;
+    return minDate ? index < monthIndex(minDate) : false;
+  };
+
+  const isSelected = (month: number) =>
+    !!selected && selected.getFullYear() === year && selected.getMonth() === month;
+
+  const canGoBack = !minDate || year > minDate.getFullYear();
+  const canGoForward = year < today.getFullYear();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>Jump to month</Text>
+
+          <View style={styles.yearRow}>
+            <TouchableOpacity
+              onPress={() => setYear(year - 1)}
+              disabled={!canGoBack}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <MaterialIcons name="chevron-left" size={28} color={canGoBack ? colors.text : colors.border} />
+            </TouchableOpacity>
+            <Text style={styles.yearText}>{year}</Text>
+            <TouchableOpacity
+              onPress={() => setYear(year + 1)}
+              disabled={!canGoForward}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <MaterialIcons name="chevron-right" size={28} color={canGoForward ? colors.text : colors.border} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.grid}>
+            {MONTH_LABELS.map((label, month) => {
+              const disabled = isDisabled(month);
+              const active = isSelected(month);
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.monthCell, active && styles.monthCellActive]}
+                  disabled={disabled}
+                  onPress={() => onSelect(new Date(year, month, 1))}
+                >
+                  <Text
+                    style={[
+                      styles.monthText,
+                      disabled && styles.monthTextDisabled,
+                      active && styles.monthTextActive,
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 16,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  yearText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  monthCell: {
+    width: '25%',
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  monthCellActive: {
+    backgroundColor: colors.primary,
+  },
+  monthText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  monthTextDisabled: {
+    color: colors.border,
+  },
+  monthTextActive: {
+    color: colors.onPrimary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNetInfo } from '@react-native-community/netinfo';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+interface OfflineBannerProps {
+  // When the content on screen was last synced from the server
+  syncedAt?: number | null;
+  // Show even while the device reports a connection (e.g. the API was unreachable)
+  forceVisible?: boolean;
+}
+
+// Format sync time for display
+const formatSyncedAt = (timestamp: number) => {
+  const diffMs = Date.now() - timestamp;
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export default function OfflineBanner({ syncedAt, forceVisible = false }: OfflineBannerProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const netInfo = useNetInfo();
+  const isOffline = netInfo.isConnected === false;
+
+  if (!isOffline && !forceVisible) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <MaterialIcons name="cloud-off" size={14} color={colors.textSecondary} />
+      <Text style={styles.text}>
+        {isOffline ? 'Offline' : 'Showing saved copy'}
+        {syncedAt ? ` · Last synced ${formatSyncedAt(syncedAt)}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    backgroundColor: colors.surfaceMuted,
+  },
+  text: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+});
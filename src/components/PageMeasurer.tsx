@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  Dimensions,
+  LayoutChangeEvent,
+  useWindowDimensions,
+} from 'react-native';
+import RenderHTML from 'react-native-render-html';
+import { ARTICLE_PAGE_INSETS, getArticleContentWidth, useArticleHtmlProps } from '../hooks/useArticleHtmlProps';
+import { composePageHtml, type PageUnit } from '../lib/paragraphParser';
+import type { ReaderTypography } from '../lib/readerPreferences';
+
+interface PageMeasurerProps {
+  units: PageUnit[];
+  typography: ReaderTypography;
+  // Called once every unit has been laid out, with heights keyed by unit ID
+  onMeasured: (heights: Record<string, number>) => void;
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+/**
+ * Renders every page unit off screen, at the same width and with the same
+ * styles as ParagraphBlock, to find out how tall it is. List items are
+ * measured inside a list of their own, so list margins are over-counted and
+ * pages err on the short side. Remount (e.g. with a new `key`) to measure
+ * again after the typography changes.
+ */
+export default function PageMeasurer({ units, typography, onMeasured }: PageMeasurerProps) {
+  const htmlProps = useArticleHtmlProps(typography);
+  const { width } = useWindowDimensions();
+  const heightsRef = useRef<Record<string, number>>({});
+  const reportedRef = useRef(false);
+
+  const report = () => {
+    if (reportedRef.current) return;
+    reportedRef.current = true;
+    onMeasured({ ...heightsRef.current });
+  };
+
+  useEffect(() => {
+    if (units.length === 0) {
+      report();
+    }
+  }, []);
+
+  const handleLayout = (unitId: string) => (event: LayoutChangeEvent) => {
+    heightsRef.current[unitId] = event.nativeEvent.layout.height;
+    if (units.every((unit) => heightsRef.current[unit.id] !== undefined)) {
+      report();
+    }
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {units.map((unit) => (
+        <View key={unit.id} onLayout={handleLayout(unit.id)}>
+          <RenderHTML
+            contentWidth={getArticleContentWidth(width)}
+            source={{ html: composePageHtml([unit]) }}
+            {...htmlProps}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: SCREEN_WIDTH - ARTICLE_PAGE_INSETS.horizontal * 2,
+    opacity: 0,
+  },
+});
@@ -7,11 +7,15 @@ import {
   useWindowDimensions,
 } from 'react-native';
 import RenderHTML from 'react-native-render-html';
+import { ARTICLE_PAGE_INSETS, getArticleContentWidth, useArticleHtmlProps } from '../hooks/useArticleHtmlProps';
+import type { ReaderTypography } from '../lib/readerPreferences';
 
 interface ParagraphBlockProps {
   html: string;
   index: number;
   isActive: boolean;
+  // Body text settings from the reader preferences, already scaled for the OS text size
+  typography: ReaderTypography;
 }
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -20,7 +24,9 @@ export default function ParagraphBlock({
   html,
   index,
   isActive,
+  typography,
 }: ParagraphBlockProps) {
+  const htmlProps = useArticleHtmlProps(typography);
   const { width } = useWindowDimensions();
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
   const slideAnim = React.useRef(new Animated.Value(50)).current;
@@ -58,9 +64,9 @@ export default function ParagraphBlock({
         ]}
       >
         <RenderHTML
-          contentWidth={Math.min(width - 48, 600)}
+          contentWidth={getArticleContentWidth(width)}
           source={{ html }}
-          tagsStyles={htmlTagStyles}
+          {...htmlProps}
         />
       </Animated.View>
     </View>
@@ -74,89 +80,12 @@ const styles = StyleSheet.create({
     height: SCREEN_HEIGHT,
     justifyContent: 'flex-start',
     alignItems: 'center',
-    paddingHorizontal: 24,
-    paddingTop: 50,
-    paddingBottom: 40,
+    paddingHorizontal: ARTICLE_PAGE_INSETS.horizontal,
+    paddingTop: ARTICLE_PAGE_INSETS.top,
+    paddingBottom: ARTICLE_PAGE_INSETS.bottom,
   },
   contentWrapper: {
     width: '100%',
-    maxWidth: SCREEN_WIDTH - 48,
+    maxWidth: SCREEN_WIDTH - ARTICLE_PAGE_INSETS.horizontal * 2,
   },
 });
-
-const htmlTagStyles = {
-  p: {
-    fontSize: 16,
-    lineHeight: 28,
-    color: '#1a1a1a',
-    marginBottom: 16,
-  },
-  h1: {
-    fontSize: 30,
-    fontWeight: '700',
-    marginBottom: 16,
-    color: '#000',
-  },
-  h2: {
-    fontSize: 26,
-    fontWeight: '700',
-    marginBottom: 14,
-    color: '#000',
-  },
-  h3: {
-    fontSize: 22,
-    fontWeight: '600',
-    marginBottom: 12,
-    color: '#000',
-  },
-  a: {
-    color: '#0A84FF',
-    textDecorationLine: 'underline',
-  },
-  ul: {
-    marginBottom: 16,
-    paddingLeft: 20,
-  },
-  ol: {
-    marginBottom: 16,
-    paddingLeft: 20,
-  },
-  li: {
-    fontSize: 16,
-    lineHeight: 28,
-    color: '#1a1a1a',
-    marginBottom: 8,
-  },
-  hr: {
-    height: 1,
-    backgroundColor: '#E5E5E5',
-    marginVertical: 24,
-  },
-  strong: {
-    fontWeight: '700',
-  },
-  em: {
-    fontStyle: 'italic',
-  },
-  u: {
-    textDecorationLine: 'underline',
-  },
-  s: {
-    textDecorationLine: 'line-through',
-  },
-  code: {
-    fontFamily: 'monospace',
-    backgroundColor: '#f5f5f5',
-    paddingHorizontal: 4,
-    paddingVertical: 2,
-    borderRadius: 3,
-    fontSize: 14,
-  },
-  img: {
-    maxWidth: '100%',
-    height: 'auto',
-    marginVertical: 16,
-    borderRadius: 8,
-  },
-};
-
@@ -0,0 +1,283 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { useReaderPreferences } from '../hooks/useReaderPreferences';
+import {
+  DEFAULT_READER_PREFERENCES,
+  FONT_SCALE_STEPS,
+  SERIF_FONT_FAMILY,
+  type ReaderFont,
+  type ReaderLineSpacing,
+  type ReaderPagination,
+} from '../lib/readerPreferences';
+import type { ThemeColors } from '../lib/theme';
+
+interface ReaderSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const LINE_SPACING_OPTIONS: { value: ReaderLineSpacing; label: string }[] = [
+  { value: 'compact', label: 'Compact' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'relaxed', label: 'Relaxed' },
+];
+
+const FONT_OPTIONS: { value: ReaderFont; label: string }[] = [
+  { value: 'sans', label: 'Sans-serif' },
+  { value: 'serif', label: 'Serif' },
+];
+
+const PAGINATION_OPTIONS: { value: ReaderPagination; label: string }[] = [
+  { value: 'fit', label: 'Fit to screen' },
+  { value: 'sections', label: 'By section' },
+];
+
+export default function ReaderSettingsModal({ visible, onClose }: ReaderSettingsModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { preferences, updatePreferences } = useReaderPreferences();
+
+  const scaleIndex = FONT_SCALE_STEPS.indexOf(preferences.fontScale);
+  const canShrink = scaleIndex > 0;
+  const canGrow = scaleIndex < FONT_SCALE_STEPS.length - 1;
+
+  const stepFontScale = (direction: -1 | 1) => {
+    const next = FONT_SCALE_STEPS[scaleIndex + direction];
+    if (next !== undefined) {
+      updatePreferences({ fontScale: next });
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Reading settings</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <MaterialIcons name="close" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionLabel}>Text size</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={[styles.stepperButton, !canShrink && styles.stepperButtonDisabled]}
+              onPress={() => stepFontScale(-1)}
+              disabled={!canShrink}
+            >
+              <Text style={styles.stepperSmallA}>A</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{Math.round(preferences.fontScale * 100)}%</Text>
+            <TouchableOpacity
+              style={[styles.stepperButton, !canGrow && styles.stepperButtonDisabled]}
+              onPress={() => stepFontScale(1)}
+              disabled={!canGrow}
+            >
+              <Text style={styles.stepperLargeA}>A</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionLabel}>Line spacing</Text>
+          <View style={styles.segmented}>
+            {LINE_SPACING_OPTIONS.map(({ value, label }) => {
+              const active = preferences.lineSpacing === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.segment, active && styles.segmentActive]}
+                  onPress={() => updatePreferences({ lineSpacing: value })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.segmentText, active && styles.segmentTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionLabel}>Font</Text>
+          <View style={styles.segmented}>
+            {FONT_OPTIONS.map(({ value, label }) => {
+              const active = preferences.font === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.segment, active && styles.segmentActive]}
+                  onPress={() => updatePreferences({ font: value })}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      active && styles.segmentTextActive,
+                      value === 'serif' && { fontFamily: SERIF_FONT_FAMILY },
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionLabel}>Pages</Text>
+          <View style={styles.segmented}>
+            {PAGINATION_OPTIONS.map(({ value, label }) => {
+              const active = preferences.pagination === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.segment, active && styles.segmentActive]}
+                  onPress={() => updatePreferences({ pagination: value })}
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.segmentText, active && styles.segmentTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Justify text</Text>
+            <Switch
+              value={preferences.justify}
+              onValueChange={(value) => updatePreferences({ justify: value })}
+              trackColor={{ false: colors.border, true: colors.textMuted }}
+              thumbColor={preferences.justify ? colors.textSecondary : colors.surfaceMuted}
+              ios_backgroundColor={colors.border}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={styles.resetButton}
+            onPress={() => updatePreferences(DEFAULT_READER_PREFERENCES)}
+          >
+            <Text style={styles.resetButtonText}>Reset to defaults</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 36,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.surfaceMuted,
+    borderRadius: 12,
+    padding: 4,
+  },
+  stepperButton: {
+    width: 56,
+    height: 42,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+    backgroundColor: colors.background,
+  },
+  stepperButtonDisabled: {
+    opacity: 0.4,
+  },
+  stepperSmallA: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  stepperLargeA: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  stepperValue: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.surfaceMuted,
+    borderRadius: 12,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    height: 42,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 10,
+  },
+  segmentActive: {
+    backgroundColor: colors.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  segmentTextActive: {
+    color: colors.onPrimary,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  resetButton: {
+    alignSelf: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginTop: 16,
+  },
+  resetButtonText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,176 @@
+import React, { useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { ReadingActivityDay } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
+
+interface ReadingHeatmapProps {
+  // Days with activity, in any order; missing days count as no reading
+  days: ReadingActivityDay[];
+}
+
+const WEEKS = 53;
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+// Opacity for 1, 2 and 3+ articles read on a day
+const LEVEL_OPACITY = [0.35, 0.65, 1];
+
+interface Cell {
+  key: string;
+  activity?: ReadingActivityDay;
+  future: boolean;
+}
+
+// Local calendar day as YYYY-MM-DD, matching the activity endpoint's dates
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// One column per week (Sunday first), ending with the current week
+const buildWeeks = (days: ReadingActivityDay[]) => {
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const today = new Date();
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (WEEKS - 1) * 7);
+
+  return Array.from({ length: WEEKS }, (_, week) => {
+    const cells: Cell[] = Array.from({ length: 7 }, (_, weekday) => {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday);
+      const key = toDayKey(date);
+      return { key, activity: byDate.get(key), future: date.getTime() > today.getTime() };
+    });
+    // Label the first week of each month
+    const firstOfMonth = cells.find((cell) => cell.key.endsWith('-01'));
+    const month = firstOfMonth
+      ? new Date(`${firstOfMonth.key}T12:00:00`).toLocaleDateString('en-US', { month: 'short' })
+      : null;
+    return { cells, month };
+  });
+};
+
+export default function ReadingHeatmap({ days }: ReadingHeatmapProps) {
+  const styles = useThemedStyles(createStyles);
+  const scrollRef = useRef<ScrollView>(null);
+  const weeks = useMemo(() => buildWeeks(days), [days]);
+  const activeDays = days.filter((day) => day.articlesRead > 0).length;
+
+  const cellStyle = (cell: Cell) => {
+    if (cell.future) return styles.cellFuture;
+    if (cell.activity?.frozen) return styles.cellFrozen;
+    const read = cell.activity?.articlesRead ?? 0;
+    if (read === 0) return null;
+    return [styles.cellActive, { opacity: LEVEL_OPACITY[Math.min(read, LEVEL_OPACITY.length) - 1] }];
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Past year</Text>
+        <Text style={styles.total}>{activeDays} {activeDays === 1 ? 'day' : 'days'} read</Text>
+      </View>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        // Start at the current week
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+      >
+        <View style={styles.grid}>
+          {weeks.map((week) => (
+            <View key={week.cells[0].key} style={styles.week}>
+              <View style={styles.monthSlot}>
+                {week.month && <Text style={styles.monthLabel} numberOfLines={1}>{week.month}</Text>}
+              </View>
+              {week.cells.map((cell) => (
+                <View key={cell.key} style={[styles.cell, cellStyle(cell)]} />
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+      <View style={styles.legend}>
+        <View style={styles.legendGroup}>
+          <View style={[styles.cell, styles.cellFrozen]} />
+          <Text style={styles.legendText}>Freeze used</Text>
+        </View>
+        <View style={styles.legendGroup}>
+          <Text style={styles.legendText}>Less</Text>
+          <View style={styles.cell} />
+          {LEVEL_OPACITY.map((opacity) => (
+            <View key={opacity} style={[styles.cell, styles.cellActive, { opacity }]} />
+          ))}
+          <Text style={styles.legendText}>More</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  total: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  grid: {
+    flexDirection: 'row',
+    gap: CELL_GAP,
+  },
+  week: {
+    gap: CELL_GAP,
+  },
+  // Labels overflow their week column into the next ones
+  monthSlot: {
+    width: CELL_SIZE,
+    height: 14,
+  },
+  monthLabel: {
+    position: 'absolute',
+    left: 0,
+    width: 32,
+    fontSize: 10,
+    color: colors.textMuted,
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 2,
+    backgroundColor: colors.fill,
+  },
+  cellActive: {
+    backgroundColor: colors.accent,
+  },
+  cellFrozen: {
+    backgroundColor: colors.link,
+  },
+  cellFuture: {
+    backgroundColor: 'transparent',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  legendGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: CELL_GAP,
+  },
+  legendText: {
+    fontSize: 11,
+    color: colors.textMuted,
+    marginHorizontal: 2,
+  },
+});
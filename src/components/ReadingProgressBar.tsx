@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getProgressFraction } from '../lib/readingProgress';
+import type { ReadingProgress } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
+
+interface ReadingProgressBarProps {
+  progress: ReadingProgress;
+}
+
+export default function ReadingProgressBar({ progress }: ReadingProgressBarProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const fraction = getProgressFraction(progress);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.fill,
+            { width: `${Math.round(fraction * 100)}%` },
+            progress.finished && styles.fillFinished,
+          ]}
+        />
+      </View>
+      {progress.finished ? (
+        <View style={styles.labelRow}>
+          <MaterialIcons name="check-circle" size={14} color={colors.success} />
+          <Text style={[styles.label, styles.labelFinished]}>Finished</Text>
+        </View>
+      ) : (
+        <Text style={styles.label}>{Math.round(fraction * 100)}% read</Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  track: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.fill,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: colors.text,
+  },
+  fillFinished: {
+    backgroundColor: colors.success,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  labelFinished: {
+    color: colors.success,
+  },
+});
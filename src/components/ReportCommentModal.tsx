@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { REPORT_REASONS, type ReportReason } from '../lib/schema';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+interface ReportCommentModalProps {
+  visible: boolean;
+  // Shown in the title so the user knows whose comment they are reporting
+  username?: string;
+  onSubmit: (reason: ReportReason, details: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<ReportReason, { title: string; description: string }> = {
+  spam: { title: 'Spam', description: 'Ads, scams or repeated content' },
+  harassment: { title: 'Harassment', description: 'Insults or threats aimed at someone' },
+  hate: { title: 'Hate speech', description: 'Attacks on a group or identity' },
+  misinformation: { title: 'Misinformation', description: 'Misleading claims presented as fact' },
+  other: { title: 'Something else', description: 'Tell us more below' },
+};
+
+const MAX_DETAILS_LENGTH = 500;
+
+export default function ReportCommentModal({ visible, username, onSubmit, onClose }: ReportCommentModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from a blank form every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+      setSubmitting(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!reason || submitting) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(reason, details);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>
+            {username ? `Report @${username}'s comment` : 'Report comment'}
+          </Text>
+          <Text style={styles.subtitle}>
+            Reports are anonymous. Our moderators review every one.
+          </Text>
+
+          {REPORT_REASONS.map((option) => {
+            const selected = reason === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={styles.reasonRow}
+                onPress={() => setReason(option)}
+                disabled={submitting}
+              >
+                <MaterialIcons
+                  name={selected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={20}
+                  color={selected ? colors.text : colors.textMuted}
+                />
+                <View style={styles.reasonText}>
+                  <Text style={styles.reasonTitle}>{REASON_LABELS[option].title}</Text>
+                  <Text style={styles.reasonDescription}>{REASON_LABELS[option].description}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInput
+            style={styles.detailsInput}
+            placeholder="Add details (optional)"
+            placeholderTextColor={colors.textMuted}
+            value={details}
+            onChangeText={setDetails}
+            multiline
+            maxLength={MAX_DETAILS_LENGTH}
+            editable={!submitting}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, (!reason || submitting) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!reason || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color={colors.onPrimary} />
+              ) : (
+                <Text style={styles.submitButtonText}>Report</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+  },
+  reasonText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  reasonTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  reasonDescription: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  detailsInput: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 8,
+    fontSize: 14,
+    color: colors.text,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  submitButton: {
+    minWidth: 88,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  submitButtonDisabled: {
+    opacity: 0.4,
+  },
+  submitButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+});
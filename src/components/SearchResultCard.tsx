@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { SearchHighlight, SearchResult } from '../lib/schema';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+interface SearchResultCardProps {
+  result: SearchResult;
+  onPress?: () => void;
+}
+
+// Split the snippet into plain and highlighted runs. Ranges come from the
+// backend, so they are clamped and overlapping ones are merged.
+const toSegments = (text: string, highlights: SearchHighlight[]) => {
+  const ranges = highlights
+    .map(({ start, end }) => ({ start: Math.max(0, start), end: Math.min(text.length, end) }))
+    .filter(({ start, end }) => start < end)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (end <= cursor) return;
+    const from = Math.max(start, cursor);
+    if (from > cursor) segments.push({ text: text.slice(cursor, from), highlighted: false });
+    segments.push({ text: text.slice(from, end), highlighted: true });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlighted: false });
+  return segments;
+};
+
+export default function SearchResultCard({ result, onPress }: SearchResultCardProps) {
+  const styles = useThemedStyles(createStyles);
+  const { article, tier, snippet, highlights } = result;
+  const publishedAt = new Date(article.published_at);
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.metaRow}>
+        {!Number.isNaN(publishedAt.getTime()) && (
+          <Text style={styles.metaText}>
+            {publishedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </Text>
+        )}
+        {tier === 'AF+' && (
+          <View style={styles.tierBadge}>
+            <Text style={styles.tierBadgeText}>AF+</Text>
+          </View>
+        )}
+      </View>
+
+      <Text style={styles.title} numberOfLines={2}>
+        {article.title}
+      </Text>
+
+      {snippet ? (
+        <Text style={styles.snippet} numberOfLines={3}>
+          {toSegments(snippet, highlights).map((segment, index) =>
+            segment.highlighted ? (
+              <Text key={index} style={styles.highlight}>
+                {segment.text}
+              </Text>
+            ) : (
+              segment.text
+            )
+          )}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  tierBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+  },
+  tierBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.onPrimary,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.text,
+    lineHeight: 22,
+    marginBottom: 4,
+  },
+  snippet: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  highlight: {
+    color: colors.text,
+    fontWeight: '600',
+    backgroundColor: colors.premiumSurface,
+  },
+});
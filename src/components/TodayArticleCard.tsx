@@ -5,13 +5,16 @@ import {
   StyleSheet,
   Image,
   TouchableOpacity,
-  Share,
-  Platform,
   Animated,
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import ReadingProgressBar from './ReadingProgressBar';
+import { shareArticle } from '../lib/share';
+import type { ArticleTier, LexicalContent, ReadingProgress } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
 
 const { height: SCREEN_HEIGHT, width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -36,20 +39,32 @@ interface MediaObject {
 interface TodayArticleCardProps {
   id: number;
   title: string;
+  slug: string;
+  // Used for the share excerpt
+  content?: LexicalContent;
+  tier?: ArticleTier;
   hero_image_id?: number | MediaObject | null;
   imageUrl?: string;
   onPress?: () => void;
   isSaved?: boolean;
+  // Shown as a progress bar once the article has been started
+  progress?: ReadingProgress;
 }
 
 export default function TodayArticleCard({
   id,
   title,
+  slug,
+  content,
+  tier,
   hero_image_id,
   imageUrl,
   onPress,
   isSaved: isSavedProp,
+  progress,
 }: TodayArticleCardProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { savedArticleIds, bookmarkArticle, unbookmarkArticle, user } = useAuth();
   const bookmarkScale = useRef(new Animated.Value(1)).current;
   const bookmarkOpacity = useRef(new Animated.Value(1)).current;
@@ -122,22 +137,9 @@ export default function TodayArticleCard({
     ).start();
   }, []);
 
-  const handleShare = async (e: any) => {
+  const handleShare = (e: any) => {
     e?.stopPropagation?.();
-    try {
-      if (Platform.OS !== 'web' && Share.share) {
-        await Share.share({
-          message: title,
-          title: title,
-        });
-      } else {
-        console.log('Share functionality - link would be copied');
-      }
-    } catch (err: any) {
-      if (err?.message !== 'User did not share') {
-        console.error('Failed to share:', err);
-      }
-    }
+    shareArticle({ id, title, slug, content, tier });
   };
 
   const handleBookmark = async (e: any) => {
@@ -257,7 +259,7 @@ export default function TodayArticleCard({
                 />
               ) : (
                 <View style={styles.imagePlaceholder}>
-                  <MaterialIcons name="image" size={48} color="#999" />
+                  <MaterialIcons name="image" size={48} color={colors.textMuted} />
                 </View>
               )}
               {/* Smooth gradient overlay on image */}
@@ -280,6 +282,12 @@ export default function TodayArticleCard({
           </View>
         </View>
 
+        {progress && (
+          <View style={styles.progressContainer}>
+            <ReadingProgressBar progress={progress} />
+          </View>
+        )}
+
         {/* Action Buttons - positioned at bottom left */}
         <View style={styles.actionButtons}>
           <TouchableOpacity
@@ -287,7 +295,7 @@ export default function TodayArticleCard({
             style={styles.actionButton}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
-            <MaterialIcons name="share" size={24} color="#000" />
+            <MaterialIcons name="share" size={24} color={colors.text} />
           </TouchableOpacity>
           <TouchableOpacity
             onPress={handleBookmark}
@@ -304,7 +312,7 @@ export default function TodayArticleCard({
               <MaterialIcons 
                 name={isSaved ? "bookmark" : "bookmark-border"} 
                 size={24} 
-                color="#000" 
+                color={colors.text} 
               />
             </Animated.View>
           </TouchableOpacity>
@@ -314,7 +322,7 @@ export default function TodayArticleCard({
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
     width: '100%',
@@ -329,7 +337,7 @@ const styles = StyleSheet.create({
     maxHeight: SCREEN_HEIGHT * 0.65,
     borderRadius: 24,
     overflow: 'hidden',
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.15,
@@ -389,14 +397,14 @@ const styles = StyleSheet.create({
   image: {
     width: '100%',
     height: '100%',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
   },
   imagePlaceholder: {
     width: '100%',
     height: '100%',
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 16,
     overflow: 'hidden',
   },
@@ -461,7 +469,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 28,
     fontWeight: '800',
-    color: '#000',
+    color: colors.text,
     lineHeight: 36,
     letterSpacing: -0.6,
   },
@@ -476,5 +484,11 @@ const styles = StyleSheet.create({
   actionButton: {
     padding: 4,
   },
+  progressContainer: {
+    position: 'absolute',
+    bottom: 28,
+    right: 20,
+    width: '45%',
+  },
 });
 
@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { DailyReading } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
+
+interface WeeklyReadingChartProps {
+  // Oldest first, one entry per day
+  days: DailyReading[];
+}
+
+const BAR_AREA_HEIGHT = 96;
+const MINUTE_MS = 60 * 1000;
+
+// "2024-05-06" -> "Mon", read as a calendar day rather than UTC midnight
+const weekdayLabel = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short' });
+};
+
+export default function WeeklyReadingChart({ days }: WeeklyReadingChartProps) {
+  const styles = useThemedStyles(createStyles);
+  const max = Math.max(...days.map((day) => day.readingTimeMs), MINUTE_MS);
+  const total = days.reduce((sum, day) => sum + day.readingTimeMs, 0);
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>This week</Text>
+        <Text style={styles.total}>{Math.round(total / MINUTE_MS)} min</Text>
+      </View>
+      <View style={styles.bars}>
+        {days.map((day, index) => {
+          const isToday = index === days.length - 1;
+          return (
+            <View key={day.date} style={styles.column}>
+              <Text style={styles.value}>
+                {day.readingTimeMs >= MINUTE_MS ? Math.round(day.readingTimeMs / MINUTE_MS) : ''}
+              </Text>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.bar,
+                    isToday && styles.barToday,
+                    { height: `${Math.max((day.readingTimeMs / max) * 100, day.readingTimeMs > 0 ? 4 : 0)}%` },
+                  ]}
+                />
+              </View>
+              <Text style={[styles.dayLabel, isToday && styles.dayLabelToday]}>{weekdayLabel(day.date)}</Text>
+            </View>
+          );
+        })}
+      </View>
+      <Text style={styles.caption}>Minutes read per day</Text>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  total: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  value: {
+    fontSize: 10,
+    color: colors.textMuted,
+    marginBottom: 4,
+    height: 14,
+  },
+  barTrack: {
+    width: '100%',
+    height: BAR_AREA_HEIGHT,
+    justifyContent: 'flex-end',
+    borderRadius: 6,
+    backgroundColor: colors.fill,
+    overflow: 'hidden',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 6,
+    backgroundColor: colors.textMuted,
+  },
+  barToday: {
+    backgroundColor: colors.accent,
+  },
+  dayLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+    marginTop: 6,
+  },
+  dayLabelToday: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 10,
+  },
+});
@@ -1,8 +1,33 @@
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
 import { signUp, signIn, signOut, getCurrentUser, fetchAuthSession, updateUserAttribute, confirmSignUp } from 'aws-amplify/auth';
 import { apiClient } from '../lib/api';
 import { logger } from '../lib/logger';
 import { storeSecure, getSecure, deleteSecure, clearSecureUserData } from '../lib/secureStorage';
+import {
+  enqueueMutation,
+  flushMutationQueue,
+  startMutationQueue,
+  subscribeToMutationQueue,
+  getMutationQueueState,
+  clearMutationQueue,
+  applyPendingBookmarks,
+  OutboxEntry,
+} from '../lib/mutationQueue';
+import { clearRecentSearches } from '../lib/recentSearches';
+import { clearArticleCache } from '../lib/articleCache';
+import {
+  subscribeToBlockList,
+  syncBlockList,
+  blockUser as addToBlockList,
+  unblockUser as removeFromBlockList,
+  clearBlockList,
+} from '../lib/blockList';
+import { syncReadingProgress, clearReadingProgress } from '../lib/readingProgress';
+import { registerForPushNotifications, unregisterPushNotifications } from '../lib/pushNotifications';
+import { refreshStreakReminder, cancelStreakReminder } from '../lib/streakReminders';
+import { clearSeenAchievements } from '../lib/achievements';
+import { purchaseAfPlus, restoreAfPlus, startPurchaseListener, type AfPlusPurchaseResult } from '../lib/billing';
+import type { BlockedUser, SubscriptionStatus } from '../lib/schema';
 
 interface User {
   id: string;
@@ -33,7 +58,9 @@ interface AuthContextType {
   signup: (email: string, password: string, name: string, username: string) => Promise<{ requiresVerification: boolean; username: string; email: string; userId: string } | void>;
   confirmSignUp: (username: string, confirmationCode: string, password: string, email?: string) => Promise<void>;
   logout: () => Promise<void>;
-  upgradeToPremium: () => Promise<void>;
+  // Buy AF+ through the store; the plan is refreshed once the backend validates it
+  upgradeToPremium: (productId: string) => Promise<AfPlusPurchaseResult>;
+  restorePurchases: () => Promise<AfPlusPurchaseResult>;
   savedItems: SavedItem[];
   saveItem: (item: SavedItem) => void;
   unsaveItem: (id: string) => void;
@@ -41,6 +68,12 @@ interface AuthContextType {
   bookmarkArticle: (articleId: number) => Promise<void>;
   unbookmarkArticle: (articleId: number) => Promise<void>;
   refreshSavedArticles: () => Promise<void>;
+  pendingMutations: OutboxEntry[]; // Offline outbox entries waiting to be replayed
+  isSyncingMutations: boolean;
+  blockedUsers: BlockedUser[];
+  blockedUserIds: Set<string>; // Authors whose comments are hidden
+  blockUser: (userId: string, username?: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
@@ -53,6 +86,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [profileLoading, setProfileLoading] = useState(false); // Track if profile is being fetched
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
   const [savedArticleIds, setSavedArticleIds] = useState<Set<number>>(new Set());
+  const [pendingMutations, setPendingMutations] = useState<OutboxEntry[]>([]);
+  const [isSyncingMutations, setIsSyncingMutations] = useState(false);
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
   const profileFetchedRef = useRef(false); // Track if profile has been fetched in background
   
   // SECURITY: Store username in encrypted SecureStore instead of plain AsyncStorage
@@ -99,6 +135,67 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loadUser();
   }, []);
 
+  // Mirror the offline outbox so screens can show pending state
+  useEffect(() => {
+    return subscribeToMutationQueue((state) => {
+      setPendingMutations(state.pending);
+      setIsSyncingMutations(state.isFlushing);
+    });
+  }, []);
+
+  // Mirror the block list and pull the backend's copy once signed in
+  useEffect(() => {
+    return subscribeToBlockList(setBlockedUsers);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    syncBlockList().catch((error) => {
+      logger.error('[AUTH] syncBlockList error:', error);
+    });
+  }, [user?.id]);
+
+  // Bring in reading positions saved on other devices
+  useEffect(() => {
+    if (!user?.id) return;
+    syncReadingProgress().catch((error) => {
+      logger.error('[AUTH] syncReadingProgress error:', error);
+    });
+  }, [user?.id]);
+
+  // Push tokens can rotate; re-register on sign-in if permission was already granted
+  useEffect(() => {
+    if (!user?.id) return;
+    registerForPushNotifications({ prompt: false });
+  }, [user?.id]);
+
+  // Reschedule the "streak at risk" reminder from the latest streak
+  useEffect(() => {
+    if (!user?.id) return;
+    refreshStreakReminder();
+  }, [user?.id]);
+
+  // Replay queued mutations whenever connectivity returns while signed in
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return startMutationQueue((result) => {
+      const touchedBookmarks = [...result.completed, ...result.dropped].some(
+        (entry) => entry.mutation.type === 'bookmark' || entry.mutation.type === 'unbookmark'
+      );
+      if (touchedBookmarks) {
+        refreshSavedArticles();
+      }
+    });
+  }, [user?.id]);
+
+  // Validate AF+ purchases that complete outside the purchase flow (Ask to
+  // Buy, slow payments) or were left unfinished by an earlier launch
+  useEffect(() => {
+    if (!user?.id) return;
+    return startPurchaseListener(applySubscription);
+  }, [user?.id]);
+
   const loadUser = async () => {
     logger.log('[AUTH] loadUser: Starting to load user session...');
     try {
@@ -786,6 +883,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Capture user email before clearing state
     const userEmail = user?.email;
     
+    // Needs the session, so it runs before signOut
+    await unregisterPushNotifications();
+    await cancelStreakReminder();
+
     try {
       logger.log('[AUTH] logout: Calling signOut()...');
       await signOut();
@@ -795,6 +896,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(null);
       setSavedItems([]);
       setSavedArticleIds(new Set());
+      // Queued mutations, search history, blocks, reading progress, seen badges and
+      // cached articles (AF+ ones included) belong to the signed-out user
+      await clearMutationQueue();
+      await clearRecentSearches();
+      await clearBlockList();
+      await clearReadingProgress();
+      await clearSeenAchievements();
+      await clearArticleCache();
       
       // SECURITY: Clear SecureStore data for the current user if email exists
       if (userEmail) {
@@ -814,6 +923,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(null);
       setSavedItems([]);
       setSavedArticleIds(new Set());
+      await clearMutationQueue();
+      await clearRecentSearches();
+      await clearBlockList();
+      await clearReadingProgress();
+      await clearSeenAchievements();
+      await clearArticleCache();
       
       // Still try to clear secure storage
       if (userEmail) {
@@ -828,12 +943,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const upgradeToPremium = async () => {
-    if (!user) return;
-    
-    // For now, just update local state
-    // Will be updated to use custom:PaidPlan attribute when custom attributes are added
-    setUser({ ...user, isPremium: true });
+  // The backend has updated the plan and the custom:plan attribute; refresh
+  // the ID token so it carries the new plan, then reload the profile
+  const applySubscription = async (subscription: SubscriptionStatus) => {
+    setUser((currentUser) =>
+      currentUser ? { ...currentUser, plan: subscription.plan, isPremium: subscription.active } : currentUser
+    );
+    try {
+      await fetchAuthSession({ forceRefresh: true });
+      await refreshProfile();
+    } catch (error: any) {
+      logger.warn('[AUTH] applySubscription: Could not refresh after purchase:', error?.message || error);
+    }
+  };
+
+  const upgradeToPremium = async (productId: string): Promise<AfPlusPurchaseResult> => {
+    if (!user) return { success: false, error: 'Sign in to join AF+' };
+
+    const result = await purchaseAfPlus(productId);
+    if (result.subscription) {
+      await applySubscription(result.subscription);
+    }
+    return result;
+  };
+
+  const restorePurchases = async (): Promise<AfPlusPurchaseResult> => {
+    if (!user) return { success: false, error: 'Sign in to restore purchases' };
+
+    const result = await restoreAfPlus();
+    if (result.subscription) {
+      await applySubscription(result.subscription);
+    }
+    return result;
   };
 
   const saveItem = (item: SavedItem) => {
@@ -845,6 +986,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   // Refresh saved articles from the API
+  // Pending bookmark mutations are overlaid so optimistic state isn't lost
   const refreshSavedArticles = async () => {
     if (!user) {
       setSavedArticleIds(new Set());
@@ -855,13 +997,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const result = await apiClient.getSavedArticles();
       if (result.success && result.articles) {
         const articleIds = new Set(result.articles.map(article => article.id));
-        setSavedArticleIds(articleIds);
+        setSavedArticleIds(applyPendingBookmarks(articleIds, getMutationQueueState().pending));
       } else {
-        setSavedArticleIds(new Set());
+        setSavedArticleIds(applyPendingBookmarks(new Set(), getMutationQueueState().pending));
       }
     } catch (error) {
       logger.error('[AUTH] refreshSavedArticles error:', error);
-      setSavedArticleIds(new Set());
+      setSavedArticleIds(applyPendingBookmarks(new Set(), getMutationQueueState().pending));
+    }
+  };
+
+  // Queue a bookmark change through the offline outbox and try to send it now.
+  // If the device is offline the optimistic state is kept until the replay.
+  const queueBookmarkChange = async (type: 'bookmark' | 'unbookmark', articleId: number) => {
+    // Optimistically update the state
+    setSavedArticleIds(prev => {
+      const newSet = new Set(prev);
+      if (type === 'bookmark') {
+        newSet.add(articleId);
+      } else {
+        newSet.delete(articleId);
+      }
+      return newSet;
+    });
+
+    const entry = await enqueueMutation({ type, articleId });
+    if (!entry) {
+      // Cancelled out a pending opposite change; nothing to send
+      return;
+    }
+
+    const result = await flushMutationQueue();
+    const dropped = result.dropped.find(e => e.id === entry.id);
+    if (dropped) {
+      // Revert optimistic update on error
+      await refreshSavedArticles();
+      throw new Error(dropped.lastError || `Failed to ${type} article`);
+    }
+
+    if (result.completed.some(e => e.id === entry.id)) {
+      // Refresh from API to ensure consistency
+      await refreshSavedArticles();
+    } else {
+      logger.log(`[AUTH] ${type}Article: Queued for replay when back online`);
     }
   };
 
@@ -870,19 +1048,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (!user) return;
 
     try {
-      const result = await apiClient.bookmarkArticle(articleId);
-      if (result.success) {
-        // Optimistically update the state
-        setSavedArticleIds(prev => new Set([...prev, articleId]));
-        // Refresh from API to ensure consistency
-        await refreshSavedArticles();
-      } else {
-        throw new Error(result.error || 'Failed to bookmark article');
-      }
+      await queueBookmarkChange('bookmark', articleId);
     } catch (error: any) {
       logger.error('[AUTH] bookmarkArticle error:', error);
-      // Revert optimistic update on error
-      await refreshSavedArticles();
       throw error;
     }
   };
@@ -892,27 +1060,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (!user) return;
 
     try {
-      const result = await apiClient.unbookmarkArticle(articleId);
-      if (result.success) {
-        // Optimistically update the state
-        setSavedArticleIds(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(articleId);
-          return newSet;
-        });
-        // Refresh from API to ensure consistency
-        await refreshSavedArticles();
-      } else {
-        throw new Error(result.error || 'Failed to unbookmark article');
-      }
+      await queueBookmarkChange('unbookmark', articleId);
     } catch (error: any) {
       logger.error('[AUTH] unbookmarkArticle error:', error);
-      // Revert optimistic update on error
-      await refreshSavedArticles();
       throw error;
     }
   };
 
+  // Block a member; their comments disappear immediately and come back if the backend rejects it
+  const blockUser = async (userId: string, username?: string) => {
+    if (!user) return;
+
+    const result = await addToBlockList({ userId, username });
+    if (!result.success) {
+      logger.error('[AUTH] blockUser error:', result.error);
+      throw new Error(result.error || 'Failed to block user');
+    }
+  };
+
+  const unblockUser = async (userId: string) => {
+    if (!user) return;
+
+    const result = await removeFromBlockList(userId);
+    if (!result.success) {
+      logger.error('[AUTH] unblockUser error:', result.error);
+      throw new Error(result.error || 'Failed to unblock user');
+    }
+  };
+
   const refreshProfile = async (userOverride?: User) => {
     // Use provided user or state user
     const userToUse = userOverride || user;
@@ -937,51 +1112,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Log the full profile response to see what data we're getting
         console.log('[AUTH] refreshProfile: Full profile response:', JSON.stringify(profileResponse, null, 2));
         
+        // Profile is already validated and unwrapped by the API client; member number,
+        // avatar and bio aliases are resolved there too
         const profile = profileResponse.profile;
         const userInfo = profileResponse.userInfo;
+        const memberNumberStr = profile.memberNumber ?? userInfo?.memberNumber;
         
-        // Handle nested profile structure (API sometimes returns profile.profile)
-        const actualProfile = (profile as any)?.profile || profile;
-        
-        // Extract member number from various possible field names and locations
-        // Check actual profile object first, then nested profile, then userInfo, then root response
-        const userInfoAny = userInfo as any;
-        const userNumber = 
-          actualProfile.userNumber ?? 
-          actualProfile.memberNumber ?? 
-          actualProfile.user_number ??
-          actualProfile.member_number ??
-          (profile as any)?.userNumber ??
-          (profile as any)?.memberNumber ??
-          (profile as any)?.user_number ??
-          (profile as any)?.member_number ??
-          userInfoAny?.userNumber ??
-          userInfoAny?.memberNumber ??
-          userInfoAny?.user_number ??
-          userInfoAny?.member_number ??
-          (profileResponse as any).userNumber ??
-          (profileResponse as any).memberNumber ??
-          (profileResponse as any).user_number ??
-          (profileResponse as any).member_number;
-        
-        const memberNumberStr = userNumber !== null && userNumber !== undefined ? String(userNumber) : undefined;
-        
-        console.log('[AUTH] refreshProfile: Full profile object:', JSON.stringify(profile, null, 2));
-        console.log('[AUTH] refreshProfile: Actual profile (after unwrapping):', JSON.stringify(actualProfile, null, 2));
-        console.log('[AUTH] refreshProfile: userInfo object:', JSON.stringify(userInfo, null, 2));
-        console.log('[AUTH] refreshProfile: Extracted userNumber/memberNumber:', userNumber);
         console.log('[AUTH] refreshProfile: Member number string:', memberNumberStr);
-        console.log('[AUTH] refreshProfile: Profile keys:', Object.keys(profile));
-        console.log('[AUTH] refreshProfile: Actual profile keys:', Object.keys(actualProfile));
-        console.log('[AUTH] refreshProfile: userInfo keys:', userInfo ? Object.keys(userInfo) : 'null');
         
         // Get avatar URL - convert S3 key to URL if needed (safety check)
-        let avatarUrl = actualProfile.profilePicUrl || actualProfile.profilePicture || actualProfile.avatar || 
-                       profile.profilePicUrl || profile.profilePicture || profile.avatar || undefined;
+        let avatarUrl = profile.profilePicUrl || undefined;
         
         // Safety check: if avatar is an S3 key (doesn't start with http), convert it
         // This should rarely happen if getUserProfile works correctly, but add as fallback
-        if (avatarUrl && typeof avatarUrl === 'string' && !avatarUrl.startsWith('http')) {
+        if (avatarUrl && !avatarUrl.startsWith('http')) {
           logger.warn('[AUTH] refreshProfile: Avatar is S3 key, converting to URL (fallback)');
           try {
             const urlResult = await apiClient.getProfilePictureUrl(avatarUrl);
@@ -989,50 +1133,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               avatarUrl = urlResult.url;
               logger.log('[AUTH] refreshProfile: Successfully converted S3 key to URL in fallback');
             } else {
-              logger.warn('[AUTH] refreshProfile: Failed to convert S3 key in fallback, setting to null');
-              avatarUrl = null;
+              logger.warn('[AUTH] refreshProfile: Failed to convert S3 key in fallback, clearing avatar');
+              avatarUrl = undefined;
             }
           } catch (error: any) {
             logger.error('[AUTH] refreshProfile: Error converting S3 key in fallback:', error);
-            avatarUrl = null;
+            avatarUrl = undefined;
           }
         }
         
-        // Extract saved article IDs from profile
-        // savedArticles can be an array of article objects with id fields, or an array of IDs
-        const savedArticlesData = actualProfile.savedArticles || profile.savedArticles || [];
-        const articleIds: number[] = [];
-        
-        if (Array.isArray(savedArticlesData)) {
-          savedArticlesData.forEach((item: any) => {
-            // If it's an object with an id field, extract the id
-            if (item && typeof item === 'object' && item.id !== undefined) {
-              const id = typeof item.id === 'number' ? item.id : parseInt(item.id, 10);
-              if (!isNaN(id)) {
-                articleIds.push(id);
-              }
-            } 
-            // If it's already a number/ID, use it directly
-            else if (typeof item === 'number') {
-              articleIds.push(item);
-            } 
-            // If it's a string that can be parsed as a number
-            else if (typeof item === 'string') {
-              const id = parseInt(item, 10);
-              if (!isNaN(id)) {
-                articleIds.push(id);
-              }
-            }
-          });
-        }
+        const articleIds = profile.savedArticleIds;
         
         // Populate savedArticleIds immediately from profile data
+        // (with any queued bookmark changes applied on top)
+        const pendingBookmarks = getMutationQueueState().pending;
         if (articleIds.length > 0) {
-          setSavedArticleIds(new Set(articleIds));
+          setSavedArticleIds(applyPendingBookmarks(new Set(articleIds), pendingBookmarks));
           logger.log(`[AUTH] refreshProfile: Loaded ${articleIds.length} saved article IDs from profile`);
         } else {
           // If no saved articles in profile, clear the set
-          setSavedArticleIds(new Set());
+          setSavedArticleIds(applyPendingBookmarks(new Set(), pendingBookmarks));
           logger.log('[AUTH] refreshProfile: No saved articles found in profile');
         }
         
@@ -1041,30 +1161,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           if (!currentUser) return currentUser;
           
           // Merge backend profile data with current user data
-          // Use actualProfile for all field access since API may return nested structure
-          // API returns: activity, createdAt, email, plan, profilePicUrl, savedArticles, 
-          // savedComments, statistics, updatedAt, username, userNumber
+          const plan = userInfo?.plan || profile.plan || 'AF';
           const updatedUser: User = {
             ...currentUser,
-            // Bio/description - check if API returns description field (may not be in your list)
-            bio: actualProfile.description || actualProfile.bio || profile.description || profile.bio || undefined,
+            bio: profile.description,
             // Avatar - should already be converted to URL above
             avatar: avatarUrl,
-            hideProfile: actualProfile.hideProfile || profile.hideProfile || false,
+            hideProfile: profile.hideProfile || false,
             // Username - API returns username (without @)
-            username: (actualProfile.username || profile.username)
-              ? ((actualProfile.username || profile.username).startsWith('@') 
-                  ? (actualProfile.username || profile.username) 
-                  : `@${actualProfile.username || profile.username}`)
+            username: profile.username
+              ? (profile.username.startsWith('@') ? profile.username : `@${profile.username}`)
               : currentUser.username,
             // Plan - API returns plan ('AF', 'AF+', 'AFPlus', etc.)
-            plan: userInfo?.plan || actualProfile.plan || profile.plan || 'AF',
-            // Premium status - API returns plan ('AF' = free, anything else = premium)
-            isPremium: (userInfo?.plan && userInfo.plan !== 'AF') || 
-                      (actualProfile.plan && actualProfile.plan !== 'AF') ||
-                      (profile.plan && profile.plan !== 'AF') ||
-                      actualProfile.isPremium || profile.isPremium || false,
-            // Member number - API returns userNumber
+            plan,
+            // Premium status - 'AF' = free, anything else = premium
+            isPremium: plan !== 'AF' || profile.isPremium || false,
             memberNumber: memberNumberStr,
           };
           
@@ -1132,6 +1243,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const blockedUserIds = useMemo(
+    () => new Set(blockedUsers.map((entry) => entry.userId)),
+    [blockedUsers]
+  );
+
   const contextValue: AuthContextType = {
     user,
     loading,
@@ -1141,6 +1257,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     confirmSignUp: confirmSignUpVerification,
     logout,
     upgradeToPremium,
+    restorePurchases,
     savedItems,
     saveItem,
     unsaveItem,
@@ -1148,6 +1265,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     bookmarkArticle,
     unbookmarkArticle,
     refreshSavedArticles,
+    pendingMutations,
+    isSyncingMutations,
+    blockedUsers,
+    blockedUserIds,
+    blockUser,
+    unblockUser,
     updateProfile,
     refreshProfile,
   };
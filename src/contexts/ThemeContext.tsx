@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { useColorScheme } from 'react-native';
+import { store, get } from '../lib/secureStorage';
+import { logger } from '../lib/logger';
+import { THEME_MODES, getThemeColors, type ColorScheme, type ThemeColors, type ThemeMode } from '../lib/theme';
+
+// Device-wide preference, kept across sign-outs
+const STORAGE_KEY = 'theme_mode';
+
+interface ThemeContextType {
+  mode: ThemeMode; // What the user picked in Settings
+  colorScheme: ColorScheme; // What is applied ('system' resolved)
+  isDark: boolean;
+  colors: ThemeColors;
+  setMode: (mode: ThemeMode) => void;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const systemScheme = useColorScheme();
+  const [mode, setModeState] = useState<ThemeMode>('system');
+
+  // Restore the saved preference
+  useEffect(() => {
+    get(STORAGE_KEY)
+      .then((saved) => {
+        if (saved && THEME_MODES.includes(saved as ThemeMode)) {
+          setModeState(saved as ThemeMode);
+        }
+      })
+      .catch((error) => logger.warn('[THEME] Failed to read theme preference:', error));
+  }, []);
+
+  const setMode = (next: ThemeMode) => {
+    setModeState(next);
+    store(STORAGE_KEY, next).catch((error) => logger.warn('[THEME] Failed to save theme preference:', error));
+  };
+
+  const colorScheme: ColorScheme = mode === 'system' ? (systemScheme === 'dark' ? 'dark' : 'light') : mode;
+
+  const contextValue = useMemo<ThemeContextType>(
+    () => ({
+      mode,
+      colorScheme,
+      isDark: colorScheme === 'dark',
+      colors: getThemeColors(colorScheme),
+      setMode,
+    }),
+    [mode, colorScheme]
+  );
+
+  return <ThemeContext.Provider value={contextValue}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider.');
+  }
+  return context;
+}
+
+/**
+ * Styles built from the active palette. `createStyles` should be defined at
+ * module level so the sheet is only rebuilt when the palette changes.
+ */
+export function useThemedStyles<T>(createStyles: (colors: ThemeColors) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+}
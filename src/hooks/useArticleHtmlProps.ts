@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { defaultSystemFonts } from 'react-native-render-html';
+import { useTheme } from '../contexts/ThemeContext';
+import { SERIF_FONT_FAMILY, type ReaderTypography } from '../lib/readerPreferences';
+import type { ThemeColors } from '../lib/theme';
+
+// Padding around the text of an article page (ParagraphBlock); pagination
+// subtracts the vertical insets from the viewport height
+export const ARTICLE_PAGE_INSETS = { top: 50, bottom: 40, horizontal: 24 };
+
+const MAX_CONTENT_WIDTH = 600;
+
+export const getArticleContentWidth = (windowWidth: number) =>
+  Math.min(windowWidth - ARTICLE_PAGE_INSETS.horizontal * 2, MAX_CONTENT_WIDTH);
+
+// RenderHTML drops font families it doesn't know about
+const SYSTEM_FONTS = [...defaultSystemFonts, SERIF_FONT_FAMILY];
+
+// Sizes are pre-scaled in getReaderTypography, so skip the OS scaling here
+const DEFAULT_TEXT_PROPS = { allowFontScaling: false };
+
+/**
+ * RenderHTML props for article text. Shared by the visible pages and the
+ * hidden measuring pass so both lay text out identically.
+ */
+export function useArticleHtmlProps(typography: ReaderTypography) {
+  const { colors } = useTheme();
+  const tagsStyles = useMemo(() => createHtmlTagStyles(colors, typography), [colors, typography]);
+  return { tagsStyles, systemFonts: SYSTEM_FONTS, defaultTextProps: DEFAULT_TEXT_PROPS };
+}
+
+// Headings keep their proportions to the body text size
+const createHtmlTagStyles = (colors: ThemeColors, { fontSize, lineHeight, fontFamily, textAlign }: ReaderTypography) => ({
+  body: {
+    fontFamily,
+  },
+  p: {
+    fontSize,
+    lineHeight,
+    textAlign,
+    color: colors.text,
+    marginBottom: 16,
+  },
+  h1: {
+    fontSize: Math.round(fontSize * 1.875),
+    fontWeight: '700',
+    marginBottom: 16,
+    color: colors.text,
+  },
+  h2: {
+    fontSize: Math.round(fontSize * 1.625),
+    fontWeight: '700',
+    marginBottom: 14,
+    color: colors.text,
+  },
+  h3: {
+    fontSize: Math.round(fontSize * 1.375),
+    fontWeight: '600',
+    marginBottom: 12,
+    color: colors.text,
+  },
+  a: {
+    color: colors.link,
+    textDecorationLine: 'underline',
+  },
+  ul: {
+    marginBottom: 16,
+    paddingLeft: 20,
+  },
+  ol: {
+    marginBottom: 16,
+    paddingLeft: 20,
+  },
+  li: {
+    fontSize,
+    lineHeight,
+    textAlign,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  hr: {
+    height: 1,
+    backgroundColor: colors.border,
+    marginVertical: 24,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  em: {
+    fontStyle: 'italic',
+  },
+  u: {
+    textDecorationLine: 'underline',
+  },
+  s: {
+    textDecorationLine: 'line-through',
+  },
+  code: {
+    fontFamily: 'monospace',
+    backgroundColor: colors.fill,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 3,
+    fontSize: Math.round(fontSize * 0.875),
+  },
+  img: {
+    maxWidth: '100%',
+    height: 'auto',
+    marginVertical: 16,
+    borderRadius: 8,
+  },
+});
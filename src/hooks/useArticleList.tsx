@@ -3,25 +3,14 @@ import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import ArticleCard from '../components/ArticleCard';
+import { useReadingProgress } from './useReadingProgress';
+import type { Article } from '../lib/schema';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Article {
-  id: number;
-  title: string;
-  hero_image_id: number | null;
-  content: {
-    root: {
-      children: any[];
-    };
-  };
-  published_at: string;
-  slug: string;
-  imageUrl?: string;
-}
-
 export function useArticleList(savedArticleIds?: Set<number>) {
   const navigation = useNavigation<NavigationProp>();
+  const readingProgress = useReadingProgress();
 
   const handleArticlePress = useCallback((article: Article) => {
     navigation.navigate('ArticleDetail', { article });
@@ -33,13 +22,17 @@ export function useArticleList(savedArticleIds?: Set<number>) {
       <ArticleCard 
         id={item.id}
         title={item.title}
+        slug={item.slug}
+        content={item.content}
+        tier={item.tier}
         hero_image_id={item.hero_image_id}
         imageUrl={item.imageUrl}
         onPress={() => handleArticlePress(item)}
         isSaved={isSaved}
+        progress={readingProgress[item.id]}
       />
     );
-  }, [handleArticlePress, savedArticleIds]);
+  }, [handleArticlePress, savedArticleIds, readingProgress]);
 
   return {
     handleArticlePress,
@@ -0,0 +1,109 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { apiClient } from '../lib/api';
+import { logger } from '../lib/logger';
+import { enqueueMutation, generateIdempotencyKey, isRetryableStatus } from '../lib/mutationQueue';
+import type { ReadSession } from '../lib/schema';
+
+// Pages flipped past quicker than this don't count as viewed
+const MIN_PAGE_MS = 1000;
+// One page can't add more than this per visit, so a reader left open on the
+// nightstand doesn't count as hours of reading
+const MAX_PAGE_VISIT_MS = 5 * 60 * 1000;
+// Shorter sessions (opened by mistake, bounced straight back) aren't sent
+const MIN_SESSION_MS = 5000;
+
+interface SessionState {
+  startedAt: string;
+  // Milliseconds per page, in the order first viewed
+  pageTimes: Map<number, number>;
+  furthestPage: number;
+}
+
+const newSession = (page: number): SessionState => ({
+  startedAt: new Date().toISOString(),
+  pageTimes: new Map(),
+  furthestPage: page,
+});
+
+const sendSession = async (session: ReadSession) => {
+  const idempotencyKey = generateIdempotencyKey();
+  const result = await apiClient.recordReadSession(session, { idempotencyKey });
+  if (!result.success && isRetryableStatus(result.status)) {
+    await enqueueMutation({ type: 'recordReadSession', session }, idempotencyKey);
+  }
+};
+
+/**
+ * Track time spent on each page of an article and send it as a read session
+ * when the reader is closed or the app goes to the background (a new session
+ * starts when it comes back).
+ */
+export function useReadSession(articleId: number, currentPage: number, totalPages: number) {
+  const sessionRef = useRef<SessionState>(newSession(currentPage));
+  // Page on screen and when it was opened; null while the app is in the background
+  const visitRef = useRef<{ page: number; since: number | null }>({ page: currentPage, since: Date.now() });
+  const totalPagesRef = useRef(totalPages);
+  totalPagesRef.current = totalPages;
+
+  const closeVisit = () => {
+    const { page, since } = visitRef.current;
+    if (since === null) return;
+    const elapsed = Math.min(Date.now() - since, MAX_PAGE_VISIT_MS);
+    const session = sessionRef.current;
+    if (elapsed >= MIN_PAGE_MS || session.pageTimes.has(page)) {
+      session.pageTimes.set(page, (session.pageTimes.get(page) ?? 0) + elapsed);
+    }
+    visitRef.current = { page, since: null };
+  };
+
+  const openVisit = (page: number) => {
+    visitRef.current = { page, since: Date.now() };
+    sessionRef.current.furthestPage = Math.max(sessionRef.current.furthestPage, page);
+  };
+
+  const endSession = () => {
+    closeVisit();
+    const session = sessionRef.current;
+    const pages = Array.from(session.pageTimes, ([page, durationMs]) => ({ page, durationMs }));
+    const durationMs = pages.reduce((sum, page) => sum + page.durationMs, 0);
+    if (durationMs < MIN_SESSION_MS) return;
+
+    const lastPage = Math.max(totalPagesRef.current - 1, 1);
+    sendSession({
+      articleId,
+      startedAt: session.startedAt,
+      endedAt: new Date().toISOString(),
+      durationMs,
+      totalPages: totalPagesRef.current,
+      pages,
+      completion: Math.min(session.furthestPage / lastPage, 1),
+      completed: session.furthestPage >= lastPage,
+    }).catch((error) => logger.warn('[ReadSession] Failed to send read session:', error));
+  };
+
+  useEffect(() => {
+    if (visitRef.current.since === null || visitRef.current.page === currentPage) return;
+    closeVisit();
+    openVisit(currentPage);
+  }, [currentPage]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active' && visitRef.current.since === null) {
+        sessionRef.current = newSession(visitRef.current.page);
+        openVisit(visitRef.current.page);
+      } else if (status === 'background' && visitRef.current.since !== null) {
+        endSession();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      // Already sent if the app went to the background
+      if (visitRef.current.since !== null) {
+        endSession();
+      }
+    };
+  }, [articleId]);
+}
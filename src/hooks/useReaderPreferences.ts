@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import {
+  getReaderPreferences,
+  subscribeToReaderPreferences,
+  updateReaderPreferences,
+  type ReaderPreferences,
+} from '../lib/readerPreferences';
+
+export function useReaderPreferences() {
+  const [preferences, setPreferences] = useState<ReaderPreferences>(getReaderPreferences);
+
+  useEffect(() => subscribeToReaderPreferences(setPreferences), []);
+
+  return { preferences, updatePreferences: updateReaderPreferences };
+}
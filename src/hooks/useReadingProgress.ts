@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { subscribeToReadingProgress, type ReadingProgressMap } from '../lib/readingProgress';
+
+// Reading progress for every article, keyed by article ID
+export function useReadingProgress() {
+  const [progress, setProgress] = useState<ReadingProgressMap>({});
+
+  useEffect(() => subscribeToReadingProgress(setProgress), []);
+
+  return progress;
+}
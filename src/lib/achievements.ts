@@ -0,0 +1,132 @@
+/**
+ * Achievements
+ *
+ * Badges worked out on the device from the stats summary (counts, streaks and
+ * the events the backend records) and the member number, so the same rules
+ * apply to the user's own profile and to public profiles. The badges this
+ * device has already shown are remembered, so a newly earned one gets its
+ * unlock animation once; that record is cleared on logout.
+ */
+
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import type { ProfileStats } from './schema';
+
+const SEEN_KEY = 'achievements_seen';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Member numbers up to this one get the early member badge
+const EARLY_MEMBER_LIMIT = 1000;
+
+export type AchievementId =
+  | 'first-comment'
+  | 'articles-10'
+  | 'articles-50'
+  | 'articles-100'
+  | 'streak-7'
+  | 'streak-30'
+  | 'streak-100'
+  | 'afplus-anniversary'
+  | 'early-member';
+
+export interface Achievement {
+  id: AchievementId;
+  title: string;
+  description: string;
+  earned: boolean;
+  // How far along a milestone is, for badges not earned yet
+  progress?: { current: number; target: number };
+}
+
+interface AchievementInput {
+  stats: ProfileStats;
+  memberNumber?: string;
+}
+
+const findEvent = (stats: ProfileStats, type: string) => stats.events?.find((event) => event.type === type);
+
+const milestone = (
+  id: AchievementId,
+  title: string,
+  description: string,
+  current: number,
+  target: number
+): Achievement => ({
+  id,
+  title,
+  description,
+  earned: current >= target,
+  progress: { current: Math.min(current, target), target },
+});
+
+// Every achievement in display order, earned or not
+export const getAchievements = ({ stats, memberNumber }: AchievementInput): Achievement[] => {
+  const bestStreak = Math.max(stats.streak, stats.longestStreak ?? 0);
+  const afPlusStarted = findEvent(stats, 'afplus_started');
+  const afPlusDays = afPlusStarted ? Math.floor((Date.now() - new Date(afPlusStarted.at).getTime()) / DAY_MS) : 0;
+  const number = Number(memberNumber);
+
+  return [
+    {
+      id: 'first-comment',
+      title: 'First Word',
+      description: 'Post your first comment',
+      // The event outlives the comment if it's later deleted
+      earned: stats.commentsPosted > 0 || !!findEvent(stats, 'first_comment'),
+    },
+    milestone('articles-10', 'Regular', 'Read 10 articles', stats.articlesRead, 10),
+    milestone('articles-50', 'Bookworm', 'Read 50 articles', stats.articlesRead, 50),
+    milestone('articles-100', 'Centurion', 'Read 100 articles', stats.articlesRead, 100),
+    milestone('streak-7', 'Week Streak', 'Read 7 days in a row', bestStreak, 7),
+    milestone('streak-30', 'Month Streak', 'Read 30 days in a row', bestStreak, 30),
+    milestone('streak-100', 'Unstoppable', 'Read 100 days in a row', bestStreak, 100),
+    afPlusStarted
+      ? milestone('afplus-anniversary', 'AF+ Anniversary', 'One year of AF+', afPlusDays, 365)
+      : { id: 'afplus-anniversary', title: 'AF+ Anniversary', description: 'One year of AF+', earned: false },
+    {
+      id: 'early-member',
+      title: 'Early Member',
+      description: `One of the first ${EARLY_MEMBER_LIMIT.toLocaleString()} members`,
+      earned: Number.isInteger(number) && number > 0 && number <= EARLY_MEMBER_LIMIT,
+    },
+  ];
+};
+
+const getSeenAchievements = async (): Promise<AchievementId[] | null> => {
+  try {
+    const raw = await get(SEEN_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    logger.warn('[Achievements] Failed to read seen achievements:', error);
+    return null;
+  }
+};
+
+/**
+ * The earned badges this device hasn't shown yet, marking them as shown. The
+ * first call only records what's already earned, so existing badges don't all
+ * animate at once after an update or a fresh sign-in.
+ */
+export const takeNewAchievements = async (achievements: Achievement[]): Promise<Set<AchievementId>> => {
+  const earned = achievements.filter((achievement) => achievement.earned).map((achievement) => achievement.id);
+  const seen = await getSeenAchievements();
+
+  const fresh = seen ? earned.filter((id) => !seen.includes(id)) : [];
+  if (!seen || fresh.length > 0) {
+    try {
+      await store(SEEN_KEY, JSON.stringify(seen ? [...seen, ...fresh] : earned));
+    } catch (error) {
+      logger.warn('[Achievements] Failed to save seen achievements:', error);
+    }
+  }
+  return new Set(fresh);
+};
+
+// Called on logout
+export const clearSeenAchievements = async (): Promise<void> => {
+  try {
+    await remove(SEEN_KEY);
+  } catch (error) {
+    logger.warn('[Achievements] Failed to clear seen achievements:', error);
+  }
+};
@@ -1,17 +1,314 @@
 import { fetchAuthSession } from 'aws-amplify/auth';
 import { logger } from './logger';
+import { cacheArticleList, getCachedArticleList } from './articleCache';
+import {
+  ApiError,
+  toApiError,
+  parse,
+  object,
+  array,
+  optional,
+  nullable,
+  oneOf,
+  boolean,
+  number,
+  string,
+  articleSchema,
+  savedArticleSchema,
+  searchResultSchema,
+  commentSchema,
+  blockedUserSchema,
+  notificationPreferencesSchema,
+  reactionCountsSchema,
+  reactionTypeSchema,
+  publicUserSchema,
+  publicProfileSchema,
+  profileSchema,
+  profileStatsSchema,
+  readingActivityDaySchema,
+  readingProgressSchema,
+  subscriptionStatusSchema,
+  userInfoSchema,
+} from './schema';
+import type {
+  Article,
+  ArticleTier,
+  BlockedUser,
+  Comment,
+  MentionInput,
+  NotificationPreferences,
+  Profile,
+  ProfileStats,
+  PublicProfile,
+  PublicUser,
+  ReactionCounts,
+  ReactionType,
+  ReadingActivityDay,
+  ReadingProgress,
+  ReadingProgressUpdate,
+  ReadSession,
+  ReportReason,
+  SavedArticle,
+  SearchResult,
+  SubscriptionReceipt,
+  SubscriptionStatus,
+  UserInfo,
+} from './schema';
 
 // API Gateway base URL from environment variables
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_GATEWAY_URL;
 
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Statuses worth retrying; network errors and timeouts always are
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryOnStatus: [429, 502, 503, 504],
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+// Longest server-requested (Retry-After) wait we accept before giving up
+const MAX_RETRY_AFTER_MS = 30000;
+
 interface ApiOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method?: HttpMethod;
   body?: any;
   headers?: Record<string, string>;
+  // Attach Cognito tokens (default true). 'optional' is for public routes: the
+  // token is sent when signed in, and a 401 retries without it instead of
+  // ending the session
+  auth?: boolean | 'optional';
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // false disables retries; a partial policy is merged over the default
+  retry?: Partial<RetryPolicy> | false;
+}
+
+// Per-call options accepted by read methods that screens call on mount
+export interface RequestOptions {
+  // Abort when the caller goes away (e.g. the screen unmounts)
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface SearchFilters {
+  tier?: ArticleTier;
+  // Earliest published_at, as an ISO date (inclusive); the search screen's
+  // date presets all run up to now
+  from?: string;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Options for mutations that may be replayed from the offline outbox
+export interface MutationOptions {
+  // Sent as Idempotency-Key so the backend can ignore duplicate replays
+  idempotencyKey?: string;
 }
 
+// POSTs are only replayed when an Idempotency-Key makes that safe
+const resolveRetryPolicy = (
+  method: HttpMethod,
+  headers: Record<string, string>,
+  retry: ApiOptions['retry']
+): RetryPolicy | null => {
+  if (retry === false) return null;
+  if (method === 'POST' && !headers['Idempotency-Key']) return null;
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+};
+
+const isRetryableError = (error: ApiError, policy: RetryPolicy) => {
+  if (error.code === 'network' || error.code === 'timeout') return true;
+  // The daily comment limit is a 429 too, but waiting seconds won't lift it
+  if (error.data?.limitReached) return false;
+  return error.status !== undefined && policy.retryOnStatus.includes(error.status);
+};
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number, policy: RetryPolicy) =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number, signal: AbortSignal | undefined, url: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('Request was cancelled', { code: 'aborted', url }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Response envelopes; entity schemas live in ./schema
+const articleListSchema = object<{ articles?: Article[]; count?: number }>({
+  articles: optional(array(articleSchema)),
+  count: optional(number),
+});
+
+// Cursor-paginated article lists (archive, premium feed)
+const articlePageSchema = object<{ articles: Article[]; nextCursor?: string; hasMore?: boolean }>({
+  articles: array(articleSchema),
+  nextCursor: optional(string),
+  hasMore: optional(boolean),
+});
+
+const searchPageSchema = object<{ results: SearchResult[]; nextCursor?: string; hasMore?: boolean; total?: number }>({
+  results: array(searchResultSchema),
+  nextCursor: optional(string),
+  hasMore: optional(boolean),
+  total: optional(number),
+});
+
+const savedArticleListSchema = object<{ success?: boolean; articles?: SavedArticle[]; count?: number }>({
+  success: optional(boolean),
+  articles: optional(array(savedArticleSchema)),
+  count: optional(number),
+});
+
+const commentListSchema = object<{
+  success?: boolean;
+  comments?: Comment[];
+  count?: number;
+  hasMore?: boolean;
+  lastCommentId?: string;
+}>({
+  success: optional(boolean),
+  comments: optional(array(commentSchema)),
+  count: optional(number),
+  hasMore: optional(boolean),
+  lastCommentId: optional(string),
+});
+
+const reactionMutationSchema = object<{
+  reactions?: ReactionCounts;
+  reactionCount?: number;
+  myReaction?: ReactionType | null;
+}>({
+  reactions: optional(reactionCountsSchema),
+  reactionCount: optional(number),
+  myReaction: optional(nullable(reactionTypeSchema)),
+});
+
+const notificationPreferencesResponseSchema = object<{ preferences: NotificationPreferences }>({
+  preferences: notificationPreferencesSchema,
+});
+
+const readingProgressListSchema = object<{ progress: ReadingProgress[] }>({
+  progress: array(readingProgressSchema),
+});
+
+const readingProgressResponseSchema = object<{ progress: ReadingProgress }>({
+  progress: readingProgressSchema,
+});
+
+const readingActivitySchema = object<{ days: ReadingActivityDay[] }>({
+  days: array(readingActivityDaySchema),
+});
+
+const subscriptionResponseSchema = object<{ subscription: SubscriptionStatus }>({
+  subscription: subscriptionStatusSchema,
+});
+
+const blockListSchema = object<{ blocked: BlockedUser[] }>({
+  blocked: array(blockedUserSchema),
+});
+
+const commentMutationSchema = object<{
+  success?: boolean;
+  comment?: Comment;
+  limitReached?: boolean;
+  nextCommentAvailable?: string;
+  message?: string;
+  error?: string;
+}>({
+  success: optional(boolean),
+  comment: optional(commentSchema),
+  limitReached: optional(boolean),
+  nextCommentAvailable: optional(string),
+  message: optional(string),
+  error: optional(string),
+});
+
+const userListSchema = object<{ users?: PublicUser[]; count?: number }>({
+  users: optional(array(publicUserSchema)),
+  count: optional(number),
+});
+
+// Older backends only send success (true when the email is taken)
+const emailCheckSchema = object<{ exists?: boolean; available?: boolean; success?: boolean; message?: string }>({
+  exists: optional(boolean),
+  available: optional(boolean),
+  success: optional(boolean),
+  message: optional(string),
+});
+
+const deleteCommentSchema = object<{ success?: boolean; error?: string; message?: string }>({
+  success: optional(boolean),
+  error: optional(string),
+  message: optional(string),
+});
+
+// The picture route has answered with { url }, { profilePicUrl } and the bare URL
+const profilePictureSchema = oneOf(
+  string,
+  object<{ url?: string; profilePicUrl?: string }>({
+    url: optional(string),
+    profilePicUrl: optional(string),
+  }),
+  'URL or picture object'
+);
+
+const profileUpdateSchema = object<{
+  description?: string;
+  // S3 key of the new picture (a full URL from older backends)
+  profilePicUrl?: string;
+  profilePicKey?: string;
+  profile?: { description?: string; profilePicUrl?: string };
+}>({
+  description: optional(string),
+  profilePicUrl: optional(string),
+  profilePicKey: optional(string),
+  profile: optional(
+    object<{ description?: string; profilePicUrl?: string }>({
+      description: optional(string),
+      profilePicUrl: optional(string),
+    })
+  ),
+});
+
 class ApiClient {
   private unauthorizedHandler?: () => Promise<void> | void;
+  // Identical GETs currently on the wire, keyed by auth mode + URL
+  private inFlightGets = new Map<string, SharedRequest>();
 
   setUnauthorizedHandler(handler: () => Promise<void> | void) {
     this.unauthorizedHandler = handler;
@@ -58,6 +355,10 @@ class ApiClient {
     return message.split('.')[0].trim().substring(0, 100);
   }
 
+  private idempotencyHeaders(options?: MutationOptions): Record<string, string> {
+    return options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {};
+  }
+
   // Get userId from current auth session
   private async getUserId(): Promise<string | null> {
     try {
@@ -166,84 +467,145 @@ class ApiClient {
     }
   }
 
-  // Make API request without authentication headers
-  private async requestWithoutAuth<T>(
+  /**
+   * Single request pipeline for every backend call.
+   *
+   * - Auth headers are attached unless `auth: false` (`auth: 'optional'` falls
+   *   back to an anonymous request on 401)
+   * - Each attempt is bounded by `timeoutMs`; `signal` cancels the whole call
+   * - Failed attempts are retried per the retry policy (network errors,
+   *   timeouts and 429/502/503/504), honoring Retry-After
+   * - Identical in-flight GETs share one network request
+   */
+  private async request<T>(
     endpoint: string,
     options: ApiOptions = {}
   ): Promise<T> {
-    const { method = 'GET', body, headers: customHeaders = {} } = options;
-    
+    const { method = 'GET', auth = true } = options;
+
     if (!API_BASE_URL) {
-      throw new Error('API base URL is not configured');
+      throw new ApiError('API base URL is not configured');
     }
-    
+
     const fullUrl = `${API_BASE_URL}${endpoint}`;
-    const headers = {
-      'Content-Type': 'application/json',
-      ...customHeaders,
-    };
 
-    const config: RequestInit = {
-      method,
-      headers,
-    };
+    if (method !== 'GET') {
+      return this.execute<T>(fullUrl, options, options.signal);
+    }
 
-    if (body && method !== 'GET') {
-      config.body = JSON.stringify(body);
+    const key = `${auth ? 'auth' : 'public'} ${fullUrl}`;
+    let shared = this.inFlightGets.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = { controller, subscribers: 0, promise: Promise.resolve() };
+      entry.promise = this.execute(fullUrl, options, controller.signal).finally(() => {
+        if (this.inFlightGets.get(key) === entry) {
+          this.inFlightGets.delete(key);
+        }
+      });
+      // Every subscriber may have left; don't surface that as an unhandled rejection
+      entry.promise.catch(() => undefined);
+      this.inFlightGets.set(key, entry);
+      shared = entry;
+    } else {
+      logger.log('[API] Joining in-flight request:', endpoint);
     }
 
-    let response: Response;
-    try {
-      response = await fetch(fullUrl, config);
-    } catch (networkError: any) {
-      logger.error('[API] Network error:', networkError);
-      throw networkError;
+    return this.subscribe<T>(key, shared, fullUrl, options.signal);
+  }
+
+  // Attach a caller to a shared GET. The network request is only cancelled
+  // once every caller has aborted.
+  private subscribe<T>(key: string, shared: SharedRequest, url: string, signal?: AbortSignal): Promise<T> {
+    shared.subscribers++;
+    if (!signal) {
+      return shared.promise as Promise<T>;
     }
 
-    if (!response.ok) {
-      let errorData: any = {};
-      try {
-        const responseText = await response.text();
-        errorData = responseText ? JSON.parse(responseText) : {};
-        logger.error('[API] Error response:', { status: response.status, errorData });
-      } catch (parseError) {
-        logger.error('[API] Failed to parse error response:', parseError);
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          // Don't let a new caller join the cancelled request before it settles
+          if (this.inFlightGets.get(key) === shared) {
+            this.inFlightGets.delete(key);
+          }
+        }
+        reject(new ApiError('Request was cancelled', { code: 'aborted', url }));
+      };
+
+      if (signal.aborted) {
+        leave();
+        return;
       }
-      const sanitizedMessage = this.sanitizeErrorMessage(errorData.message || response.statusText);
-      const error: any = new Error(sanitizedMessage);
-      error.status = response.status;
-      throw error;
-    }
 
-    const contentType = response.headers.get('content-type');
-    if (contentType?.includes('application/json')) {
-      return await response.json();
+      signal.addEventListener('abort', leave, { once: true });
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', leave));
+    });
+  }
+
+  // Run attempts until one succeeds or the retry policy gives up
+  private async execute<T>(url: string, options: ApiOptions, signal?: AbortSignal): Promise<T> {
+    const { method = 'GET', headers = {} } = options;
+    const policy = resolveRetryPolicy(method, headers, options.retry);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(url, options, signal);
+      } catch (error: any) {
+        const apiError = toApiError(error);
+        if (!policy || attempt >= policy.retries || !isRetryableError(apiError, policy)) {
+          throw apiError;
+        }
+
+        const delay = apiError.retryAfterMs ?? backoffDelay(attempt, policy);
+        if (delay > MAX_RETRY_AFTER_MS) {
+          logger.warn('[API] Retry-After too long, giving up:', delay);
+          throw apiError;
+        }
+
+        logger.log(`[API] Retry ${attempt + 1}/${policy.retries} after ${Math.round(delay)}ms:`, method, url);
+        await sleep(delay, signal, url);
+      }
     }
-    
-    return {} as T;
   }
 
-  // Make authenticated API request with retry logic
-  private async request<T>(
-    endpoint: string,
-    options: ApiOptions = {}
-  ): Promise<T> {
-    const { method = 'GET', body, headers: customHeaders = {} } = options;
-    
-    if (!API_BASE_URL) {
-      throw new Error('API base URL is not configured');
+  // A single HTTP round trip, bounded by the per-call timeout
+  private async attempt<T>(url: string, options: ApiOptions, signal?: AbortSignal): Promise<T> {
+    const {
+      method = 'GET',
+      body,
+      headers: customHeaders = {},
+      auth = true,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+    } = options;
+
+    // Headers are rebuilt per attempt so a retry picks up a refreshed token
+    const baseHeaders = auth ? await this.getAuthHeaders() : { 'Content-Type': 'application/json' };
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
     }
-    
-    const fullUrl = `${API_BASE_URL}${endpoint}`;
-    const authHeaders = await this.getAuthHeaders();
-    const headers = {
-      ...authHeaders,
-      ...customHeaders,
-    };
 
     const config: RequestInit = {
       method,
-      headers,
+      headers: {
+        ...baseHeaders,
+        ...customHeaders,
+      },
+      signal: controller.signal,
     };
 
     if (body && method !== 'GET') {
@@ -251,15 +613,32 @@ class ApiClient {
     }
 
     try {
-      const response = await fetch(fullUrl, config);
+      let response: Response;
+      try {
+        response = await fetch(url, config);
+      } catch (networkError: any) {
+        if (timedOut) {
+          throw new ApiError('Request timed out. Please try again.', { code: 'timeout', url });
+        }
+        if (controller.signal.aborted) {
+          throw new ApiError('Request was cancelled', { code: 'aborted', url });
+        }
+        logger.error('[API] Network error:', networkError);
+        throw new ApiError(this.sanitizeErrorMessage(networkError?.message || 'Network request failed'), {
+          code: 'network',
+          url,
+        });
+      }
 
       if (!response.ok) {
-        if (response.status === 401) {
+        if (response.status === 401 && auth === 'optional' && 'Authorization' in baseHeaders) {
+          logger.warn('[API] 401 on a public route, retrying without credentials');
+          return await this.attempt<T>(url, { ...options, auth: false }, signal);
+        }
+        if (response.status === 401 && auth === true) {
           logger.warn('[API] 401 Unauthorized');
           await this.handleUnauthorized();
-          const error = new Error('Unauthorized') as any;
-          error.status = response.status;
-          throw error;
+          throw new ApiError('Unauthorized', { status: response.status, url });
         }
 
         let errorData: any = {};
@@ -271,74 +650,38 @@ class ApiClient {
           logger.error('[API] Failed to parse error response:', parseError);
         }
         const sanitizedMessage = this.sanitizeErrorMessage(errorData.message || response.statusText);
-        const error = new Error(sanitizedMessage) as any;
-        error.status = response.status;
-        error.url = fullUrl;
-        throw error;
+        throw new ApiError(sanitizedMessage, {
+          status: response.status,
+          url,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+          data: errorData,
+        });
       }
 
       const contentType = response.headers.get('content-type');
       if (contentType?.includes('application/json')) {
         return await response.json();
       }
-      
+
       return {} as T;
     } catch (error: any) {
-      logger.error('[API] Request failed:', error);
-      
-      // Retry GET requests with network errors (exponential backoff)
-      if (error.message === 'Failed to fetch' && method === 'GET') {
-        logger.log('[API] Retrying failed fetch request...');
-        for (let attempt = 1; attempt <= 3; attempt++) {
-          const delay = 1000 * Math.pow(2, attempt - 1);
-          logger.log(`[API] Retry ${attempt}/3 after ${delay}ms`);
-          
-          await new Promise(resolve => setTimeout(resolve, delay));
-          
-          try {
-            logger.log(`[API] Retry attempt ${attempt}: ${method} ${endpoint}`);
-            const response = await fetch(fullUrl, { method, headers });
-            logger.log(`[API] Retry ${attempt} response status: ${response.status}`);
-            
-            if (!response.ok) {
-              if (response.status === 401) {
-                await this.handleUnauthorized();
-                throw new Error('Unauthorized');
-              }
-              const errorData = await response.json().catch(() => ({}));
-              throw new Error(errorData.message || response.statusText);
-            }
-            
-            const contentType = response.headers.get('content-type');
-            if (contentType?.includes('application/json')) {
-              return await response.json();
-            }
-            return {} as T;
-          } catch (retryError: any) {
-            logger.error(`[API] Retry ${attempt} failed:`, retryError);
-            if (attempt === 3) {
-              logger.error('[API] All retry attempts failed');
-              throw retryError;
-            }
-          }
-        }
+      if (timedOut && !(error instanceof ApiError)) {
+        throw new ApiError('Request timed out. Please try again.', { code: 'timeout', url });
       }
-      
       throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   // Get the authenticated user's profile
   async getUserProfile(): Promise<{
     success: boolean;
-    profile?: any;
-    userInfo?: {
-      userId: string;
-      email?: string;
-      username?: string;
-      plan?: string;
-    };
+    profile?: Profile;
+    userInfo?: UserInfo;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       logger.log('[API] getUserProfile: Starting...');
@@ -358,9 +701,8 @@ class ApiClient {
       const response = await this.request<any>(endpoint, { method: 'GET' });
       logger.log('[API] getUserProfile: Response received');
       
-      // Handle profile picture - convert S3 key to URL if needed
-      // Handle both nested (response.profile) and flat (response) structures
-      const profile = response.profile || response;
+      // Flat, nested (response.profile) and doubly nested structures are all accepted
+      const profile = parse(profileSchema, response);
       
       // Helper function to convert S3 key to URL
       const convertProfilePicUrl = async (picUrl: string): Promise<string | null> => {
@@ -397,103 +739,233 @@ class ApiClient {
         }
       }
       
+      const userInfo = response.userInfo
+        ? parse(userInfoSchema, response.userInfo, 'response.userInfo')
+        : {
+            userId,
+            email: profile.email,
+            username: profile.username,
+            plan: profile.plan || 'AF',
+            memberNumber: profile.memberNumber,
+          };
+
       // Return in a consistent format
       return {
         success: response.success ?? true,
-        profile: profile,
-        userInfo: response.userInfo || {
-          userId,
-          email: profile.email || response.email,
-          username: profile.username || response.username,
-          plan: profile.plan || response.plan || 'AF',
-        },
+        profile,
+        userInfo,
       };
     } catch (error: any) {
-      logger.error('[API] getUserProfile error:', error?.message || error);
+      const apiError = toApiError(error, 'Failed to fetch user profile');
+      logger.error('[API] getUserProfile error:', { message: apiError.message, path: apiError.path });
       return {
         success: false,
-        error: error?.message || 'Failed to fetch user profile',
+        error: apiError.message,
+        apiError,
       };
     }
   }
 
-  async getProfileStatsSummary(): Promise<{
+  async getProfileStatsSummary(options?: RequestOptions): Promise<{
     success: boolean;
-    stats?: {
-      // Total UNIQUE articles read; mirrors articlesReadCount from backend
-      articlesRead?: number;
-      articlesReadCount?: number;
-      commentsPosted?: number;
-      streak?: number;
-      // Timestamp of the last NEW unique article that counted toward the streak
-      streakLastReadAt?: string;
-      // Convenience fields for UI
-      lastActivityDate?: string;
-      lastViewedAt?: string;
-      updatedAt?: string;
-      longestStreak?: number;
-    };
+    stats?: ProfileStats;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
-      const endpoint = '/api/profile/stats/summary';
-      const response = await this.request<any>(endpoint, { method: 'GET' });
+      // Daily figures are bucketed by the device's calendar days
+      const endpoint = `/api/profile/stats/summary?tzOffsetMinutes=${new Date().getTimezoneOffset()}`;
+      const response = await this.request<any>(endpoint, { method: 'GET', ...options });
       
-      // Normalize stats so the app can rely on articlesRead being a UNIQUE count
-      const rawStats = response.stats || response.data || response || {};
-      const articlesReadCount =
-        rawStats.articlesReadCount ??
-        rawStats.uniqueArticlesRead ??
-        rawStats.articlesRead ??
-        0;
-
-      const normalizedStats = {
-        ...rawStats,
-        articlesRead: articlesReadCount,
-        articlesReadCount,
-      };
+      // Stats may be wrapped in `stats` or `data`; articlesRead is always the UNIQUE count
+      const stats = response.stats
+        ? parse(profileStatsSchema, response.stats, 'response.stats')
+        : response.data
+          ? parse(profileStatsSchema, response.data, 'response.data')
+          : parse(profileStatsSchema, response);
 
       return {
         success: response.success ?? true,
-        stats: normalizedStats,
+        stats,
       };
     } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load profile stats summary');
       logger.error('[API] getProfileStatsSummary error:', {
-        message: error?.message,
-        status: error?.status,
-        url: error?.url,
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Day-by-day reading activity for the streak calendar, covering the last
+  // `days` days in the device's time zone
+  async getReadingActivity(days: number, options?: RequestOptions): Promise<{
+    success: boolean;
+    days?: ReadingActivityDay[];
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const query = new URLSearchParams({
+        days: String(days),
+        tzOffsetMinutes: String(new Date().getTimezoneOffset()),
+      });
+      const response = await this.request<any>(`/api/profile/stats/activity?${query.toString()}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(readingActivitySchema, response);
+      return { success: true, days: data.days };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load reading activity');
+      if (!apiError.isAborted) {
+        logger.error('[API] getReadingActivity error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Another member's profile. Private profiles come back without bio, member
+  // number or stats (see PublicProfile).
+  async getPublicProfile(userId: string, options?: RequestOptions): Promise<{
+    success: boolean;
+    profile?: PublicProfile;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/users/${encodeURIComponent(userId)}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      return { success: true, profile: parse(publicProfileSchema, response) };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load profile');
+      if (!apiError.isAborted) {
+        logger.error('[API] getPublicProfile error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.status === 404 ? 'This member could not be found' : apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Same as getPublicProfile, looked up by username (/members/:username links)
+  async getPublicProfileByUsername(username: string, options?: RequestOptions): Promise<{
+    success: boolean;
+    profile?: PublicProfile;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/users/by-username/${encodeURIComponent(username)}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
       });
+      return { success: true, profile: parse(publicProfileSchema, response) };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load profile');
+      if (!apiError.isAborted) {
+        logger.error('[API] getPublicProfileByUsername error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
       return {
         success: false,
-        error: error?.message || 'Failed to load profile stats summary',
+        error: apiError.status === 404 ? 'This member could not be found' : apiError.message,
+        apiError,
       };
     }
   }
 
-  // Get user comments
-  async getUserComments(userId: string): Promise<any[]> {
-    return this.request<any[]>(`/users/${userId}/comments`);
+  // A member's recent comments, newest first. Answered with 403 when the
+  // member has hidden their profile.
+  async getUserComments(
+    userId: string,
+    options?: RequestOptions & { limit?: number }
+  ): Promise<{
+    success: boolean;
+    comments?: Comment[];
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const params = new URLSearchParams();
+      if (options?.limit) params.append('limit', String(options.limit));
+      const query = params.toString();
+
+      const response = await this.request<any>(
+        `/api/users/${encodeURIComponent(userId)}/comments${query ? `?${query}` : ''}`,
+        {
+          method: 'GET',
+          signal: options?.signal,
+          timeoutMs: options?.timeoutMs,
+        }
+      );
+      const data = parse(commentListSchema, response);
+      return { success: true, comments: data.comments ?? [] };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load comments');
+      if (!apiError.isAborted) {
+        logger.error('[API] getUserComments error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        comments: [],
+      };
+    }
   }
 
   // Get my comments (authenticated user's comments)
-  async getMyComments(): Promise<{
+  async getMyComments(options?: RequestOptions): Promise<{
     success: boolean;
-    comments?: Array<{
-      id: string;
-      text: string;
-      articleId: string;
-      articleTitle?: string;
-      timestamp: string;
-      replyTo?: string;
-    }>;
+    comments?: Comment[];
     count?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       const endpoint = `/api/profile/comments`;
       logger.log('[API] getMyComments: Making request to:', endpoint);
       const response = await this.request<any>(endpoint, {
         method: 'GET',
+        ...options,
       });
 
       logger.log('[API] getMyComments: Full raw response:', JSON.stringify(response, null, 2));
@@ -518,24 +990,27 @@ class ApiClient {
         }
       }
 
+      const data = parse(commentListSchema, response);
       const result = {
-        success: response.success ?? true,
-        comments: response.comments || [],
-        count: response.count || 0,
+        success: data.success ?? true,
+        comments: data.comments ?? [],
+        count: data.count ?? 0,
       };
 
       logger.log('[API] getMyComments: Returning result:', JSON.stringify(result, null, 2));
       return result;
     } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch comments');
       logger.error('[API] getMyComments error:', {
-        message: error?.message,
-        stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
       });
       return {
         success: false,
-        error: error?.message || 'Failed to fetch comments',
+        error: apiError.message,
+        apiError,
         comments: [],
       };
     }
@@ -543,7 +1018,8 @@ class ApiClient {
 
   // Check if email exists in the system
   async checkEmailExists(email: string): Promise<{ exists?: boolean; available?: boolean; success?: boolean; message?: string }> {
-    return await this.requestWithoutAuth(`/api/users?email=${encodeURIComponent(email)}`);
+    const response = await this.request<any>(`/api/users?email=${encodeURIComponent(email)}`, { auth: false });
+    return parse(emailCheckSchema, response);
   }
 
   // Register user for verification (unauthenticated)
@@ -551,7 +1027,8 @@ class ApiClient {
     userId: string;
     username: string;
   }): Promise<{ success: boolean; message?: string }> {
-    return await this.requestWithoutAuth('/api/users/verify', {
+    return await this.request('/api/users/verify', {
+      auth: false,
       method: 'POST',
       body: userData,
     });
@@ -581,18 +1058,24 @@ class ApiClient {
   }
 
   // Get the most recent article (today's article)
-  async getRecentArticle(): Promise<{
+  // Falls back to the offline cache when the network request fails
+  async getRecentArticle(options?: RequestOptions): Promise<{
     success: boolean;
-    article?: any;
+    article?: Article;
+    fromCache?: boolean;
+    syncedAt?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
-      const data = await this.requestWithoutAuth<any>(`/api/articles/recent`);
+      const data = await this.request<any>(`/api/articles/recent`, { auth: false, ...options });
       
       if (data?.success && data?.article) {
+        const article = parse(articleSchema, data.article, 'response.article');
+        cacheArticleList('recent', [article]);
         return {
           success: true,
-          article: data.article,
+          article,
         };
       }
       
@@ -609,29 +1092,53 @@ class ApiClient {
         };
       }
       
-      logger.error('[API] getRecentArticle error:', error?.message || error);
+      const apiError = toApiError(error, 'Failed to fetch recent article');
+      if (apiError.isAborted) {
+        return { success: false, error: apiError.message, apiError };
+      }
+      logger.error('[API] getRecentArticle error:', { message: apiError.message, path: apiError.path });
+
+      // A malformed response is a backend bug, not a connectivity problem; don't mask it
+      const cached = apiError.isSchemaMismatch ? null : await getCachedArticleList<Article>('recent');
+      if (cached && cached.articles.length > 0) {
+        logger.log('[API] getRecentArticle: Serving article from offline cache');
+        return {
+          success: true,
+          article: cached.articles[0],
+          fromCache: true,
+          syncedAt: cached.syncedAt,
+        };
+      }
+
       return {
         success: false,
-        error: error?.message || 'Failed to fetch recent article',
+        error: apiError.message,
+        apiError,
       };
     }
   }
 
   // Get the next 6 most recent articles (excluding the most recent one)
-  async getRecentArticlesBatch(): Promise<{
+  // Falls back to the offline cache when the network request fails
+  async getRecentArticlesBatch(options?: RequestOptions): Promise<{
     success: boolean;
-    articles?: any[];
+    articles?: Article[];
     count?: number;
+    fromCache?: boolean;
+    syncedAt?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
-      const data = await this.requestWithoutAuth<any>(`/api/articles/recent-batch`);
+      const data = await this.request<any>(`/api/articles/recent-batch`, { auth: false, ...options });
       
       if (data?.success) {
+        const { articles = [], count } = parse(articleListSchema, data);
+        cacheArticleList('recent-batch', articles);
         return {
           success: true,
-          articles: data.articles || [],
-          count: data.count || 0,
+          articles,
+          count: count ?? articles.length,
         };
       }
       
@@ -641,152 +1148,649 @@ class ApiClient {
         articles: [],
       };
     } catch (error: any) {
-      logger.error('[API] getRecentArticlesBatch error:', error?.message || error);
+      const apiError = toApiError(error, 'Failed to fetch articles');
+      if (apiError.isAborted) {
+        return { success: false, error: apiError.message, apiError, articles: [] };
+      }
+      logger.error('[API] getRecentArticlesBatch error:', { message: apiError.message, path: apiError.path });
+
+      const cached = apiError.isSchemaMismatch ? null : await getCachedArticleList<Article>('recent-batch');
+      if (cached && cached.articles.length > 0) {
+        logger.log('[API] getRecentArticlesBatch: Serving articles from offline cache');
+        return {
+          success: true,
+          articles: cached.articles,
+          count: cached.articles.length,
+          fromCache: true,
+          syncedAt: cached.syncedAt,
+        };
+      }
+
       return {
         success: false,
-        error: error?.message || 'Failed to fetch articles',
+        error: apiError.message,
+        apiError,
         articles: [],
       };
     }
   }
 
-  // Sync user profile after sign in/sign up (non-critical call)
-  async callProfileEndpoint(): Promise<any> {
+  // Get a page of all published articles, newest first. `before` (ISO date)
+  // starts the page at that date instead of today, for jumping back in time.
+  async getArticleArchive(
+    options?: RequestOptions & {
+      cursor?: string;
+      limit?: number;
+      before?: string;
+    }
+  ): Promise<{
+    success: boolean;
+    articles?: Article[];
+    nextCursor?: string;
+    hasMore?: boolean;
+    error?: string;
+    apiError?: ApiError;
+  }> {
     try {
-      return await this.request<any>(`/api/profile`, { method: 'GET' });
+      const params = new URLSearchParams();
+      if (options?.limit) params.append('limit', String(options.limit));
+      if (options?.cursor) params.append('cursor', options.cursor);
+      if (options?.before) params.append('before', options.before);
+
+      const query = params.toString();
+      const response = await this.request<any>(`/api/articles${query ? `?${query}` : ''}`, {
+        auth: false,
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(articlePageSchema, response);
+
+      return {
+        success: true,
+        articles: data.articles,
+        nextCursor: data.nextCursor,
+        hasMore: data.hasMore ?? !!data.nextCursor,
+      };
     } catch (error: any) {
-      logger.error('[API] callProfileEndpoint error:', error?.message || error);
-      return null;
+      const apiError = toApiError(error, 'Failed to fetch articles');
+      if (!apiError.isAborted) {
+        logger.error('[API] getArticleArchive error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        articles: [],
+      };
     }
   }
 
-  // ========== ARTICLE STATS ==========
-
-  async recordArticleView(articleId: string | number): Promise<{
+  // A single article, e.g. when opened from a push notification. AF+ articles
+  // answer 403 for accounts without AF+.
+  async getArticleById(articleId: string | number, options?: RequestOptions): Promise<{
     success: boolean;
+    article?: Article;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
-      const endpoint = `/api/profile/stats/article-view`;
-      logger.log('[API] recordArticleView: Recording view for article:', articleId);
-      const response = await this.request<any>(endpoint, {
-        method: 'POST',
-        body: { articleId: String(articleId) },
+      const response = await this.request<any>(`/api/articles/${encodeURIComponent(String(articleId))}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
       });
-
+      return { success: true, article: parse(articleSchema, response.article, 'response.article') };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch article');
+      if (!apiError.isAborted) {
+        logger.error('[API] getArticleById error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
       return {
-        success: response.success ?? true,
-        error: response.error,
+        success: false,
+        error: apiError.message,
+        apiError,
       };
-    } catch (error: any) {
-      logger.error('[API] recordArticleView error:', {
-        message: error?.message,
-        status: error?.status,
-        url: error?.url,
+    }
+  }
+
+  // A single article by its URL slug, for deep links (/articles/:slug). Same
+  // access rules as getArticleById.
+  async getArticleBySlug(slug: string, options?: RequestOptions): Promise<{
+    success: boolean;
+    article?: Article;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/articles/by-slug/${encodeURIComponent(slug)}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
       });
+      return { success: true, article: parse(articleSchema, response.article, 'response.article') };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch article');
+      if (!apiError.isAborted) {
+        logger.error('[API] getArticleBySlug error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
       return {
         success: false,
-        error: error?.message || 'Failed to record article view',
+        error: apiError.status === 404 ? 'This article could not be found' : apiError.message,
+        apiError,
       };
     }
   }
 
-  // ========== COMMENTS API ==========
-
-  // Get comments for an article
-  async getArticleComments(
-    articleId: string | number,
-    options?: {
+  // Get a page of AF+ premium articles. Access is decided by the backend from
+  // the caller's token; a 403 means the account has no AF+ subscription.
+  async getPremiumArticles(
+    options?: RequestOptions & {
+      cursor?: string;
       limit?: number;
-      lastCommentId?: string;
-      sort?: 'asc' | 'desc';
     }
   ): Promise<{
     success: boolean;
-    comments?: Array<{
-      comment_id: string;
-      article_id: string;
-      content: string;
-      createdAt: string;
-      updatedAt: string;
-      isDeleted: boolean;
-      parentCommentId?: string;
-      author: {
-        username: string; // Public username (e.g., "@john_doe")
-        name?: string; // Display name (optional)
-        avatar: string | null; // Full S3 public URL or null (ready to use)
-      };
-    }>;
-    count?: number;
+    articles?: Article[];
+    nextCursor?: string;
     hasMore?: boolean;
-    lastCommentId?: string;
+    forbidden?: boolean;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
-      const articleIdStr = String(articleId);
-      let endpoint = `/api/articles/${encodeURIComponent(articleIdStr)}/comments`;
-      
       const params = new URLSearchParams();
       if (options?.limit) params.append('limit', String(options.limit));
-      if (options?.lastCommentId) params.append('lastCommentId', options.lastCommentId);
-      if (options?.sort) params.append('sort', options.sort);
-      
-      if (params.toString()) {
-        endpoint += `?${params.toString()}`;
-      }
+      if (options?.cursor) params.append('cursor', options.cursor);
+
+      const query = params.toString();
+      const response = await this.request<any>(`/api/articles/premium${query ? `?${query}` : ''}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(articlePageSchema, response);
 
-      // Comments can be fetched without auth (public)
-      const response = await this.requestWithoutAuth<any>(endpoint);
-      
       return {
         success: true,
-        comments: response.comments || [],
-        count: response.count || 0,
-        hasMore: response.hasMore || false,
-        lastCommentId: response.lastCommentId,
+        articles: data.articles,
+        nextCursor: data.nextCursor,
+        hasMore: data.hasMore ?? !!data.nextCursor,
       };
     } catch (error: any) {
-      logger.error('[API] getArticleComments error:', {
-        message: error?.message,
-        stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
-        fullError: error,
-        stringified: JSON.stringify(error, Object.getOwnPropertyNames(error)),
-      });
+      const apiError = toApiError(error, 'Failed to fetch premium articles');
+      if (!apiError.isAborted) {
+        logger.error('[API] getPremiumArticles error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
       return {
         success: false,
-        error: error?.message || 'Failed to fetch comments',
-        comments: [],
+        forbidden: apiError.status === 403,
+        error: apiError.message,
+        apiError,
+        articles: [],
       };
     }
   }
 
-  // Create a new comment
-  async createComment(
-    articleId: string | number,
-    content: string
+  // Full-text search over titles and article bodies. Results only include
+  // tiers the caller can read; each carries a body snippet with match ranges.
+  async searchArticles(
+    query: string,
+    filters?: SearchFilters,
+    options?: RequestOptions & {
+      cursor?: string;
+      limit?: number;
+    }
   ): Promise<{
     success: boolean;
-    comment?: {
-      comment_id: string;
-      article_id: string;
-      content: string;
-      createdAt: string;
-      updatedAt: string;
-      isDeleted: boolean;
-      parentCommentId?: string;
-      author: {
-        username: string; // Public username (e.g., "@john_doe")
-        name?: string; // Display name (optional)
-        avatar: string | null; // Full S3 public URL or null (ready to use)
-      };
-    };
+    results?: SearchResult[];
+    nextCursor?: string;
+    hasMore?: boolean;
+    total?: number;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const params = new URLSearchParams({ q: query.trim() });
+      if (filters?.tier) params.append('tier', filters.tier);
+      if (filters?.from) params.append('from', filters.from);
+      if (options?.limit) params.append('limit', String(options.limit));
+      if (options?.cursor) params.append('cursor', options.cursor);
+
+      const response = await this.request<any>(`/api/articles/search?${params.toString()}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(searchPageSchema, response);
+
+      return {
+        success: true,
+        results: data.results,
+        nextCursor: data.nextCursor,
+        hasMore: data.hasMore ?? !!data.nextCursor,
+        total: data.total,
+      };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Search failed');
+      if (!apiError.isAborted) {
+        logger.error('[API] searchArticles error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        results: [],
+      };
+    }
+  }
+
+  // Sync user profile after sign in/sign up (non-critical call)
+  async callProfileEndpoint(): Promise<any> {
+    try {
+      return await this.request<any>(`/api/profile`, { method: 'GET' });
+    } catch (error: any) {
+      logger.error('[API] callProfileEndpoint error:', error?.message || error);
+      return null;
+    }
+  }
+
+  // ========== ARTICLE STATS ==========
+
+  async recordArticleView(
+    articleId: string | number,
+    options?: MutationOptions
+  ): Promise<{
+    success: boolean;
+    status?: number;
+    error?: string;
+  }> {
+    try {
+      const endpoint = `/api/profile/stats/article-view`;
+      logger.log('[API] recordArticleView: Recording view for article:', articleId);
+      const response = await this.request<any>(endpoint, {
+        method: 'POST',
+        body: { articleId: String(articleId) },
+        headers: this.idempotencyHeaders(options),
+      });
+
+      return {
+        success: response.success ?? true,
+        error: response.error,
+      };
+    } catch (error: any) {
+      logger.error('[API] recordArticleView error:', {
+        message: error?.message,
+        status: error?.status,
+        url: error?.url,
+      });
+      return {
+        success: false,
+        status: error?.status,
+        error: error?.message || 'Failed to record article view',
+      };
+    }
+  }
+
+  // Time and completion for one visit to an article; feeds the reading stats
+  async recordReadSession(
+    session: ReadSession,
+    options?: MutationOptions
+  ): Promise<{
+    success: boolean;
+    status?: number;
+    error?: string;
+  }> {
+    try {
+      await this.request<any>(`/api/profile/stats/read-sessions`, {
+        method: 'POST',
+        body: session,
+        headers: this.idempotencyHeaders(options),
+      });
+      return { success: true };
+    } catch (error: any) {
+      logger.error('[API] recordReadSession error:', {
+        message: error?.message,
+        status: error?.status,
+        url: error?.url,
+      });
+      return {
+        success: false,
+        status: error?.status,
+        error: error?.message || 'Failed to record read session',
+      };
+    }
+  }
+
+  // Record that an article was shared, for analytics. `activityType` is the
+  // share target reported by iOS (e.g. com.apple.UIKit.activity.Message).
+  async recordArticleShare(
+    articleId: string | number,
+    details: { platform: string; activityType?: string; teaser: boolean }
+  ): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      await this.request<any>(`/api/articles/${encodeURIComponent(String(articleId))}/shares`, {
+        method: 'POST',
+        body: details,
+      });
+      return { success: true };
+    } catch (error: any) {
+      logger.warn('[API] recordArticleShare error:', {
+        message: error?.message,
+        status: error?.status,
+        url: error?.url,
+      });
+      return {
+        success: false,
+        error: error?.message || 'Failed to record share',
+      };
+    }
+  }
+
+  // ========== READING PROGRESS API ==========
+
+  // Where the user is in every article they have opened
+  async getReadingProgress(options?: RequestOptions): Promise<{
+    success: boolean;
+    progress?: ReadingProgress[];
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/reading-progress`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(readingProgressListSchema, response);
+      return { success: true, progress: data.progress };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load reading progress');
+      if (!apiError.isAborted) {
+        logger.error('[API] getReadingProgress error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // The backend ignores updates older than the one it has (by updatedAt), so
+  // late replays can't move the position back, and keeps `finished` once set.
+  // The response carries the stored progress.
+  async updateReadingProgress(
+    articleId: string | number,
+    progress: ReadingProgressUpdate,
+    options?: MutationOptions
+  ): Promise<{
+    success: boolean;
+    progress?: ReadingProgress;
+    status?: number;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(
+        `/api/reading-progress/${encodeURIComponent(String(articleId))}`,
+        {
+          method: 'PUT',
+          body: progress,
+          headers: this.idempotencyHeaders(options),
+        }
+      );
+      const data = parse(readingProgressResponseSchema, response);
+      return { success: true, progress: data.progress };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to save reading progress');
+      logger.warn('[API] updateReadingProgress error:', {
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        status: apiError.status,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // ========== SUBSCRIPTIONS API ==========
+
+  // Validate a store purchase with the store's servers. On success the backend
+  // updates the member's plan, including the Cognito custom:plan attribute (a
+  // refreshed ID token carries it). The transaction ID doubles as the
+  // Idempotency-Key, so the call is safe to retry.
+  async validateSubscriptionReceipt(receipt: SubscriptionReceipt): Promise<{
+    success: boolean;
+    subscription?: SubscriptionStatus;
+    status?: number;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/subscriptions/validate`, {
+        method: 'POST',
+        body: receipt,
+        headers: this.idempotencyHeaders({ idempotencyKey: `${receipt.platform}:${receipt.transactionId}` }),
+      });
+      const data = parse(subscriptionResponseSchema, response);
+      return { success: true, subscription: data.subscription };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to validate purchase');
+      logger.error('[API] validateSubscriptionReceipt error:', {
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        status: apiError.status,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // ========== COMMENTS API ==========
+
+  // Get comments for an article
+  async getArticleComments(
+    articleId: string | number,
+    options?: RequestOptions & {
+      limit?: number;
+      lastCommentId?: string;
+      // 'top' orders by reaction count, newest first among ties
+      sort?: 'asc' | 'desc' | 'top';
+    }
+  ): Promise<{
+    success: boolean;
+    comments?: Comment[];
+    count?: number;
+    hasMore?: boolean;
+    lastCommentId?: string;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const articleIdStr = String(articleId);
+      let endpoint = `/api/articles/${encodeURIComponent(articleIdStr)}/comments`;
+      
+      const params = new URLSearchParams();
+      if (options?.limit) params.append('limit', String(options.limit));
+      if (options?.lastCommentId) params.append('lastCommentId', options.lastCommentId);
+      if (options?.sort) params.append('sort', options.sort);
+      
+      if (params.toString()) {
+        endpoint += `?${params.toString()}`;
+      }
+
+      // Comments are public; the token (when signed in) lets the backend
+      // include the caller's own reaction on each comment
+      const response = await this.request<any>(endpoint, {
+        auth: 'optional',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(commentListSchema, response);
+      
+      return {
+        success: true,
+        comments: data.comments ?? [],
+        count: data.count ?? 0,
+        hasMore: data.hasMore ?? false,
+        lastCommentId: data.lastCommentId,
+      };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch comments');
+      // Paging cancels superseded requests; those aren't errors
+      if (!apiError.isAborted) {
+        logger.error('[API] getArticleComments error:', {
+          message: apiError.message,
+          path: apiError.path,
+          stack: error?.stack,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        comments: [],
+      };
+    }
+  }
+
+  // Get replies to a top-level comment, oldest first
+  async getCommentReplies(
+    commentId: string,
+    options?: RequestOptions & {
+      limit?: number;
+      lastCommentId?: string;
+    }
+  ): Promise<{
+    success: boolean;
+    comments?: Comment[];
+    hasMore?: boolean;
+    lastCommentId?: string;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const params = new URLSearchParams();
+      if (options?.limit) params.append('limit', String(options.limit));
+      if (options?.lastCommentId) params.append('lastCommentId', options.lastCommentId);
+
+      const query = params.toString();
+      // Public like the comment list; the token adds the caller's own reactions
+      const response = await this.request<any>(
+        `/api/comments/${encodeURIComponent(commentId)}/replies${query ? `?${query}` : ''}`,
+        {
+          auth: 'optional',
+          signal: options?.signal,
+          timeoutMs: options?.timeoutMs,
+        }
+      );
+      const data = parse(commentListSchema, response);
+
+      return {
+        success: true,
+        comments: data.comments ?? [],
+        hasMore: data.hasMore ?? false,
+        lastCommentId: data.lastCommentId,
+      };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch replies');
+      if (!apiError.isAborted) {
+        logger.error('[API] getCommentReplies error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        comments: [],
+      };
+    }
+  }
+
+  // Create a new top-level comment
+  async createComment(
+    articleId: string | number,
+    content: string,
+    options?: MutationOptions & { mentions?: MentionInput[] }
+  ) {
+    return this.submitComment(articleId, content, undefined, options);
+  }
+
+  // Reply to a top-level comment. Threads are one level deep, so replying to a
+  // reply should pass that reply's parentCommentId.
+  async createReply(
+    articleId: string | number,
+    parentCommentId: string,
+    content: string,
+    options?: MutationOptions & { mentions?: MentionInput[] }
+  ) {
+    return this.submitComment(articleId, content, parentCommentId, options);
+  }
+
+  private async submitComment(
+    articleId: string | number,
+    content: string,
+    parentCommentId?: string,
+    options?: MutationOptions & { mentions?: MentionInput[] }
+  ): Promise<{
+    success: boolean;
+    comment?: Comment;
     // When the user has reached their daily comment limit
     limitReached?: boolean;
     nextCommentAvailable?: string;
     message?: string;
+    status?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       const articleIdStr = String(articleId);
@@ -794,80 +1798,152 @@ class ApiClient {
       
       const response = await this.request<any>(endpoint, {
         method: 'POST',
-        body: { content: content.trim() },
+        body: {
+          content: content.trim(),
+          ...(parentCommentId ? { parentCommentId } : {}),
+          ...(options?.mentions?.length ? { mentions: options.mentions } : {}),
+        },
+        headers: this.idempotencyHeaders(options),
       });
+      const data = parse(commentMutationSchema, response);
 
       return {
         // Respect backend "success" flag if present, otherwise infer from presence of comment
-        success: response.success !== undefined ? response.success : !!response.comment,
-        comment: response.comment,
-        limitReached: response.limitReached,
-        nextCommentAvailable: response.nextCommentAvailable,
-        message: response.message,
-        error: response.error,
+        success: data.success !== undefined ? data.success : !!data.comment,
+        comment: data.comment,
+        limitReached: data.limitReached,
+        nextCommentAvailable: data.nextCommentAvailable,
+        message: data.message,
+        error: data.error,
       };
     } catch (error: any) {
-      logger.error('[API] createComment error:', {
-        message: error?.message,
+      const apiError = toApiError(error, 'Failed to post comment');
+
+      // The daily comment limit may also arrive as a 429 with the limit details in the body
+      if (apiError.status === 429 && apiError.data?.limitReached) {
+        return {
+          success: false,
+          limitReached: true,
+          nextCommentAvailable: apiError.data.nextCommentAvailable,
+          message: apiError.data.message,
+          status: apiError.status,
+          error: apiError.data.error,
+        };
+      }
+
+      logger.error('[API] submitComment error:', {
+        message: apiError.message,
+        path: apiError.path,
         stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
-        fullError: error,
-        stringified: JSON.stringify(error, Object.getOwnPropertyNames(error)),
+        status: apiError.status,
+        url: apiError.url,
       });
       return {
         success: false,
-        error: error?.message || 'Failed to post comment',
+        status: apiError.status,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // React to a comment. A user has at most one reaction per comment, so this
+  // replaces any previous reaction. Returns the comment's updated totals.
+  async addReaction(
+    commentId: string,
+    type: ReactionType,
+    options?: MutationOptions
+  ) {
+    return this.submitReaction(commentId, 'PUT', type, options);
+  }
+
+  async removeReaction(commentId: string, options?: MutationOptions) {
+    return this.submitReaction(commentId, 'DELETE', undefined, options);
+  }
+
+  private async submitReaction(
+    commentId: string,
+    method: 'PUT' | 'DELETE',
+    type?: ReactionType,
+    options?: MutationOptions
+  ): Promise<{
+    success: boolean;
+    reactions?: ReactionCounts;
+    reactionCount?: number;
+    myReaction?: ReactionType | null;
+    status?: number;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/comments/${encodeURIComponent(commentId)}/reactions`, {
+        method,
+        body: type ? { type } : undefined,
+        headers: this.idempotencyHeaders(options),
+      });
+      const data = parse(reactionMutationSchema, response);
+
+      return {
+        success: true,
+        reactions: data.reactions,
+        reactionCount: data.reactionCount,
+        myReaction: data.myReaction ?? null,
+      };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to update reaction');
+      logger.error('[API] submitReaction error:', {
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        status: apiError.status,
+        error: apiError.message,
+        apiError,
       };
     }
   }
 
   // Update a comment
+  // Mention offsets refer to the trimmed content
   async updateComment(
     commentId: string,
-    content: string
+    content: string,
+    mentions?: MentionInput[]
   ): Promise<{
     success: boolean;
-    comment?: {
-      comment_id: string;
-      article_id: string;
-      content: string;
-      createdAt: string;
-      updatedAt: string;
-      isDeleted: boolean;
-      parentCommentId?: string;
-      author: {
-        username: string; // Public username (e.g., "@john_doe")
-        name?: string; // Display name (optional)
-        avatar: string | null; // Full S3 public URL or null (ready to use)
-      };
-    };
+    comment?: Comment;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       const endpoint = `/api/comments/${encodeURIComponent(commentId)}`;
       
       const response = await this.request<any>(endpoint, {
         method: 'PUT',
-        body: { content: content.trim() },
+        body: mentions ? { content: content.trim(), mentions } : { content: content.trim() },
       });
+      const data = parse(commentMutationSchema, response);
 
       return {
         success: true,
-        comment: response.comment,
+        comment: data.comment,
       };
     } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to update comment');
       logger.error('[API] updateComment error:', {
-        message: error?.message,
+        message: apiError.message,
+        path: apiError.path,
         stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
-        fullError: error,
-        stringified: JSON.stringify(error, Object.getOwnPropertyNames(error)),
+        status: apiError.status,
+        url: apiError.url,
       });
       return {
         success: false,
-        error: error?.message || 'Failed to update comment',
+        error: apiError.message,
+        apiError,
       };
     }
   }
@@ -883,12 +1959,13 @@ class ApiClient {
       const response = await this.request<any>(endpoint, {
         method: 'DELETE',
       });
+      const data = parse(deleteCommentSchema, response);
 
       // Check if response indicates failure
-      if (response && response.success === false) {
+      if (data.success === false) {
         return {
           success: false,
-          error: response.error || response.message || 'Failed to delete comment',
+          error: data.error || data.message || 'Failed to delete comment',
         };
       }
 
@@ -911,22 +1988,282 @@ class ApiClient {
     }
   }
 
+  // ========== NOTIFICATIONS API ==========
+
+  // Register this device's push token so the backend can deliver notifications
+  // to it. Registering the same token again is a no-op.
+  async registerPushToken(token: string, platform: string): Promise<{
+    success: boolean;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      await this.request<any>(`/api/notifications/devices`, {
+        method: 'PUT',
+        body: { token, platform },
+      });
+      return { success: true };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to register for notifications');
+      logger.error('[API] registerPushToken error:', {
+        message: apiError.message,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Stop sending notifications to this device (on logout)
+  async unregisterPushToken(token: string): Promise<{
+    success: boolean;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      await this.request<any>(`/api/notifications/devices/${encodeURIComponent(token)}`, {
+        method: 'DELETE',
+      });
+      return { success: true };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to unregister from notifications');
+      logger.error('[API] unregisterPushToken error:', {
+        message: apiError.message,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  async getNotificationPreferences(options?: RequestOptions): Promise<{
+    success: boolean;
+    preferences?: NotificationPreferences;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/notifications/preferences`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(notificationPreferencesResponseSchema, response);
+      return { success: true, preferences: data.preferences };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to load notification settings');
+      if (!apiError.isAborted) {
+        logger.error('[API] getNotificationPreferences error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Only the topics passed are changed; the response carries the full set.
+  // Topics the plan doesn't include (AF+ drops on AF) are rejected with 403.
+  async updateNotificationPreferences(updates: Partial<NotificationPreferences>): Promise<{
+    success: boolean;
+    preferences?: NotificationPreferences;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/notifications/preferences`, {
+        method: 'PUT',
+        body: updates,
+      });
+      const data = parse(notificationPreferencesResponseSchema, response);
+      return { success: true, preferences: data.preferences };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to save notification settings');
+      logger.error('[API] updateNotificationPreferences error:', {
+        message: apiError.message,
+        path: apiError.path,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // ========== MODERATION API ==========
+
+  // Report a comment to the moderators. Reporting the same comment twice is
+  // answered with 409, which counts as success from the user's point of view.
+  async reportComment(
+    commentId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<{
+    success: boolean;
+    alreadyReported?: boolean;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      await this.request<any>(`/api/comments/${encodeURIComponent(commentId)}/report`, {
+        method: 'POST',
+        body: details?.trim() ? { reason, details: details.trim() } : { reason },
+      });
+      return { success: true };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to report comment');
+      if (apiError.status === 409) {
+        return { success: true, alreadyReported: true };
+      }
+      logger.error('[API] reportComment error:', {
+        message: apiError.message,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // Members the current user has blocked
+  async getBlockedUsers(options?: RequestOptions): Promise<{
+    success: boolean;
+    blocked?: BlockedUser[];
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const response = await this.request<any>(`/api/profile/blocks`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(blockListSchema, response);
+      return { success: true, blocked: data.blocked };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch blocked members');
+      if (!apiError.isAborted) {
+        logger.error('[API] getBlockedUsers error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        blocked: [],
+      };
+    }
+  }
+
+  async blockUser(userId: string) {
+    return this.updateBlock(userId, 'PUT');
+  }
+
+  async unblockUser(userId: string) {
+    return this.updateBlock(userId, 'DELETE');
+  }
+
+  private async updateBlock(userId: string, method: 'PUT' | 'DELETE'): Promise<{
+    success: boolean;
+    status?: number;
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      await this.request<any>(`/api/profile/blocks/${encodeURIComponent(userId)}`, { method });
+      return { success: true };
+    } catch (error: any) {
+      const apiError = toApiError(error, method === 'PUT' ? 'Failed to block member' : 'Failed to unblock member');
+      logger.error('[API] updateBlock error:', {
+        message: apiError.message,
+        status: apiError.status,
+        url: apiError.url,
+      });
+      return {
+        success: false,
+        status: apiError.status,
+        error: apiError.message,
+        apiError,
+      };
+    }
+  }
+
+  // ========== USER SEARCH API ==========
+
+  // Members whose username or display name starts with the query; backs
+  // @mention autocomplete in the comment composer
+  async searchUsers(
+    query: string,
+    options?: RequestOptions & { limit?: number }
+  ): Promise<{
+    success: boolean;
+    users?: PublicUser[];
+    error?: string;
+    apiError?: ApiError;
+  }> {
+    try {
+      const params = new URLSearchParams({ q: query.trim() });
+      if (options?.limit) params.append('limit', String(options.limit));
+
+      const response = await this.request<any>(`/api/users/search?${params.toString()}`, {
+        method: 'GET',
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+      });
+      const data = parse(userListSchema, response);
+      return { success: true, users: data.users ?? [] };
+    } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to search members');
+      if (!apiError.isAborted) {
+        logger.error('[API] searchUsers error:', {
+          message: apiError.message,
+          path: apiError.path,
+          status: apiError.status,
+          url: apiError.url,
+        });
+      }
+      return {
+        success: false,
+        error: apiError.message,
+        apiError,
+        users: [],
+      };
+    }
+  }
+
   // ========== BATCH USERS API ==========
 
   // Batch fetch user profiles (efficient for fetching multiple users)
   async batchFetchUsers(userIds: string[]): Promise<{
     success: boolean;
-    users?: Array<{
-      userId: string;
-      username: string;
-      name?: string;
-      avatar?: string | null;
-      description?: string;
-      createdAt?: string;
-      updatedAt?: string;
-    }>;
+    users?: PublicUser[];
     count?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       if (!userIds || userIds.length === 0) {
@@ -948,22 +2285,26 @@ class ApiClient {
         method: 'POST',
         body: { userIds },
       });
+      const data = parse(userListSchema, response);
 
       return {
         success: true,
-        users: response.users || [],
-        count: response.count || 0,
+        users: data.users ?? [],
+        count: data.count ?? 0,
       };
     } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch users');
       logger.error('[API] batchFetchUsers error:', {
-        message: error?.message,
+        message: apiError.message,
+        path: apiError.path,
         stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
+        status: apiError.status,
+        url: apiError.url,
       });
       return {
         success: false,
-        error: error?.message || 'Failed to fetch users',
+        error: apiError.message,
+        apiError,
       };
     }
   }
@@ -971,8 +2312,12 @@ class ApiClient {
   // ========== BOOKMARKS API ==========
 
   // Bookmark an article
-  async bookmarkArticle(articleId: string | number): Promise<{
+  async bookmarkArticle(
+    articleId: string | number,
+    options?: MutationOptions
+  ): Promise<{
     success: boolean;
+    status?: number;
     error?: string;
   }> {
     try {
@@ -982,6 +2327,7 @@ class ApiClient {
       const response = await this.request<any>(endpoint, {
         method: 'POST',
         body: { articleId: articleIdStr },
+        headers: this.idempotencyHeaders(options),
       });
 
       return {
@@ -996,14 +2342,19 @@ class ApiClient {
       });
       return {
         success: false,
+        status: error?.status,
         error: error?.message || 'Failed to bookmark article',
       };
     }
   }
 
   // Unbookmark an article
-  async unbookmarkArticle(articleId: string | number): Promise<{
+  async unbookmarkArticle(
+    articleId: string | number,
+    options?: MutationOptions
+  ): Promise<{
     success: boolean;
+    status?: number;
     error?: string;
   }> {
     try {
@@ -1012,6 +2363,7 @@ class ApiClient {
       
       const response = await this.request<any>(endpoint, {
         method: 'DELETE',
+        headers: this.idempotencyHeaders(options),
       });
 
       return {
@@ -1026,51 +2378,46 @@ class ApiClient {
       });
       return {
         success: false,
+        status: error?.status,
         error: error?.message || 'Failed to unbookmark article',
       };
     }
   }
 
   // Get saved articles for the authenticated user
-  async getSavedArticles(): Promise<{
+  async getSavedArticles(options?: RequestOptions): Promise<{
     success: boolean;
-    articles?: Array<{
-      id: number;
-      title: string;
-      hero_image_id: number | null;
-      content: {
-        root: {
-          children: any[];
-        };
-      };
-      published_at: string;
-      slug: string;
-      imageUrl?: string;
-    }>;
+    articles?: SavedArticle[];
     count?: number;
     error?: string;
+    apiError?: ApiError;
   }> {
     try {
       const endpoint = `/api/profile/saved-articles`;
       const response = await this.request<any>(endpoint, {
         method: 'GET',
+        ...options,
       });
+      const data = parse(savedArticleListSchema, response);
 
       return {
-        success: response.success ?? true,
-        articles: response.articles || [],
-        count: response.count || 0,
+        success: data.success ?? true,
+        articles: data.articles ?? [],
+        count: data.count ?? 0,
       };
     } catch (error: any) {
+      const apiError = toApiError(error, 'Failed to fetch saved articles');
       logger.error('[API] getSavedArticles error:', {
-        message: error?.message,
+        message: apiError.message,
+        path: apiError.path,
         stack: error?.stack,
-        status: error?.status,
-        url: error?.url,
+        status: apiError.status,
+        url: apiError.url,
       });
       return {
         success: false,
-        error: error?.message || 'Failed to fetch saved articles',
+        error: apiError.message,
+        apiError,
         articles: [],
       };
     }
@@ -1096,10 +2443,15 @@ class ApiClient {
 
       const endpoint = `/api/profile/picture?key=${encodeURIComponent(s3Key)}`;
       const response = await this.request<any>(endpoint);
+      const data = parse(profilePictureSchema, response);
+      const url = typeof data === 'string' ? data : data.url || data.profilePicUrl;
+      if (!url) {
+        throw new ApiError('Invalid response: expected url at response.url, got undefined', { path: 'response.url' });
+      }
 
       return {
         success: true,
-        url: response.url || response.profilePicUrl || response,
+        url,
       };
     } catch (error: any) {
       logger.error('[API] getProfilePictureUrl error:', {
@@ -1219,10 +2571,11 @@ class ApiClient {
         method: 'PUT',
         body,
       });
+      const data = parse(profileUpdateSchema, response);
 
       // Backend now returns S3 key instead of full URL
       // Format: "profile-pictures/user123/123.jpg"
-      const profilePicKey = response.profilePicUrl || response.profile?.profilePicUrl || response.profilePicKey;
+      const profilePicKey = data.profilePicUrl || data.profile?.profilePicUrl || data.profilePicKey;
       
       // If we got an S3 key, fetch the actual URL
       let profilePicUrl: string | undefined;
@@ -1242,7 +2595,7 @@ class ApiClient {
       return {
         success: true,
         profile: {
-          description: response.description || response.profile?.description,
+          description: data.description || data.profile?.description,
           profilePicUrl: profilePicUrl,
           profilePicKey: profilePicKey,
         },
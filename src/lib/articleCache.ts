@@ -0,0 +1,281 @@
+/**
+ * Offline Article Cache
+ *
+ * Persists fetched articles (including their Lexical content and hero media
+ * metadata) so Home and ArticleDetail can render without a connection.
+ * Built on the non-sensitive AsyncStorage wrappers in secureStorage.
+ *
+ * Entries are evicted when they are older than MAX_ENTRY_AGE_MS, and the
+ * least recently used entries are evicted once the cache exceeds
+ * MAX_CACHE_BYTES or MAX_ENTRIES.
+ */
+
+import { Image } from 'react-native';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+
+const INDEX_KEY = 'article_cache_index';
+const ARTICLE_KEY_PREFIX = 'article_cache_';
+const LIST_KEY_PREFIX = 'article_cache_list_';
+
+const MAX_CACHE_BYTES = 5 * 1024 * 1024; // ~5MB of serialized article JSON
+const MAX_ENTRIES = 100;
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Named lists that screens restore as a whole (e.g. Home's today + batch)
+export type ArticleListKey = 'recent' | 'recent-batch';
+
+export interface CacheableArticle {
+  id: number;
+  hero_image_id?: { url?: string } | number | null;
+  [key: string]: any;
+}
+
+interface CacheIndexEntry {
+  cachedAt: number;
+  lastAccessedAt: number;
+  size: number;
+  // So links that only carry a slug can be opened offline
+  slug?: string;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+interface CachedList {
+  ids: number[];
+  syncedAt: number;
+}
+
+// Serialize index read-modify-write cycles so concurrent saves don't clobber each other
+let indexLock: Promise<unknown> = Promise.resolve();
+
+const withIndexLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = indexLock.then(task, task);
+  indexLock = run.catch(() => undefined);
+  return run;
+};
+
+const articleKey = (id: number | string) => `${ARTICLE_KEY_PREFIX}${id}`;
+const listKey = (key: ArticleListKey) => `${LIST_KEY_PREFIX}${key}`;
+
+const readIndex = async (): Promise<CacheIndex> => {
+  const raw = await get(INDEX_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as CacheIndex;
+  } catch (error) {
+    logger.warn('[ArticleCache] Corrupt cache index, resetting');
+    return {};
+  }
+};
+
+const writeIndex = async (index: CacheIndex): Promise<void> => {
+  await store(INDEX_KEY, JSON.stringify(index));
+};
+
+// Warm the native image cache so hero images also show up offline
+const prefetchHeroImage = (article: CacheableArticle) => {
+  const hero = article.hero_image_id;
+  if (!hero || typeof hero !== 'object' || !hero.url) return;
+  const url = hero.url.startsWith('http') ? hero.url : `https://${hero.url}`;
+  Image.prefetch(url).catch(() => {
+    // Non-fatal: the article still renders with a placeholder
+  });
+};
+
+/**
+ * Drop expired entries, then evict least recently used entries until the
+ * cache fits within its size and count budgets. Mutates and returns the index.
+ */
+const evict = async (index: CacheIndex): Promise<CacheIndex> => {
+  const now = Date.now();
+  const expired = Object.keys(index).filter(
+    (id) => now - index[id].cachedAt > MAX_ENTRY_AGE_MS
+  );
+
+  const byLeastRecentUse = Object.keys(index)
+    .filter((id) => !expired.includes(id))
+    .sort((a, b) => index[a].lastAccessedAt - index[b].lastAccessedAt);
+
+  let totalBytes = byLeastRecentUse.reduce((sum, id) => sum + index[id].size, 0);
+  let count = byLeastRecentUse.length;
+  const overBudget: string[] = [];
+
+  for (const id of byLeastRecentUse) {
+    if (totalBytes <= MAX_CACHE_BYTES && count <= MAX_ENTRIES) break;
+    overBudget.push(id);
+    totalBytes -= index[id].size;
+    count--;
+  }
+
+  const toRemove = [...expired, ...overBudget];
+  if (toRemove.length > 0) {
+    logger.log(`[ArticleCache] Evicting ${toRemove.length} cached article(s)`);
+    await Promise.all(toRemove.map((id) => remove(articleKey(id))));
+    toRemove.forEach((id) => {
+      delete index[id];
+    });
+  }
+
+  return index;
+};
+
+/**
+ * Save articles to the cache. Existing entries are overwritten with the
+ * fresh copy.
+ */
+export const cacheArticles = async (articles: CacheableArticle[]): Promise<void> => {
+  const valid = articles.filter((article) => article && typeof article.id === 'number');
+  if (valid.length === 0) return;
+
+  try {
+    await withIndexLock(async () => {
+      const index = await readIndex();
+      const now = Date.now();
+
+      for (const article of valid) {
+        const serialized = JSON.stringify(article);
+        await store(articleKey(article.id), serialized);
+        index[String(article.id)] = {
+          cachedAt: now,
+          lastAccessedAt: now,
+          size: serialized.length,
+          slug: typeof article.slug === 'string' ? article.slug : undefined,
+        };
+        prefetchHeroImage(article);
+      }
+
+      await writeIndex(await evict(index));
+    });
+  } catch (error) {
+    // Caching is best-effort; never break the online path
+    logger.error('[ArticleCache] Error caching articles:', error);
+  }
+};
+
+export const cacheArticle = async (article: CacheableArticle): Promise<void> =>
+  cacheArticles([article]);
+
+/**
+ * Read cached articles in one index update: expired or missing entries are
+ * dropped and the rest are marked as used. Returns entries in the order of ids.
+ */
+const readCachedEntries = <T extends CacheableArticle>(
+  ids: number[]
+): Promise<Array<{ article: T; cachedAt: number }>> =>
+  withIndexLock(async () => {
+    const index = await readIndex();
+    const now = Date.now();
+    const found: Array<{ article: T; cachedAt: number }> = [];
+    let changed = false;
+
+    for (const id of ids) {
+      const entry = index[String(id)];
+      if (!entry) continue;
+
+      const raw = now - entry.cachedAt > MAX_ENTRY_AGE_MS ? null : await get(articleKey(id));
+      if (!raw) {
+        await remove(articleKey(id));
+        delete index[String(id)];
+      } else {
+        entry.lastAccessedAt = now;
+        found.push({ article: JSON.parse(raw) as T, cachedAt: entry.cachedAt });
+      }
+      changed = true;
+    }
+
+    if (changed) await writeIndex(index);
+    return found;
+  });
+
+/**
+ * Read a single cached article. Returns null when it was never cached or
+ * has expired.
+ */
+export const getCachedArticle = async <T extends CacheableArticle = CacheableArticle>(
+  id: number
+): Promise<{ article: T; cachedAt: number } | null> => {
+  try {
+    const [cached] = await readCachedEntries<T>([id]);
+    return cached ?? null;
+  } catch (error) {
+    logger.error('[ArticleCache] Error reading cached article:', error);
+    return null;
+  }
+};
+
+/**
+ * Read a cached article by its slug. Returns null when none is cached.
+ */
+export const getCachedArticleBySlug = async <T extends CacheableArticle = CacheableArticle>(
+  slug: string
+): Promise<{ article: T; cachedAt: number } | null> => {
+  try {
+    const index = await withIndexLock(readIndex);
+    const id = Object.keys(index).find((key) => index[key].slug === slug);
+    return id ? await getCachedArticle<T>(Number(id)) : null;
+  } catch (error) {
+    logger.error('[ArticleCache] Error reading cached article by slug:', error);
+    return null;
+  }
+};
+
+/**
+ * Timestamp of when an article was last saved, without touching its LRU position
+ */
+export const getArticleCachedAt = (id: number): Promise<number | null> =>
+  withIndexLock(async () => {
+    const index = await readIndex();
+    return index[String(id)]?.cachedAt ?? null;
+  });
+
+/**
+ * Cache a named list of articles along with the time it was synced
+ */
+export const cacheArticleList = async (
+  key: ArticleListKey,
+  articles: CacheableArticle[]
+): Promise<void> => {
+  await cacheArticles(articles);
+  try {
+    const list: CachedList = {
+      ids: articles.map((article) => article.id),
+      syncedAt: Date.now(),
+    };
+    await store(listKey(key), JSON.stringify(list));
+  } catch (error) {
+    logger.error('[ArticleCache] Error caching article list:', error);
+  }
+};
+
+/**
+ * Restore a named list. Articles evicted since the list was saved are skipped.
+ */
+export const getCachedArticleList = async <T extends CacheableArticle = CacheableArticle>(
+  key: ArticleListKey
+): Promise<{ articles: T[]; syncedAt: number } | null> => {
+  try {
+    const raw = await get(listKey(key));
+    if (!raw) return null;
+
+    const list = JSON.parse(raw) as CachedList;
+    const cached = await readCachedEntries<T>(list.ids);
+    return { articles: cached.map((entry) => entry.article), syncedAt: list.syncedAt };
+  } catch (error) {
+    logger.error('[ArticleCache] Error reading cached article list:', error);
+    return null;
+  }
+};
+
+/**
+ * Remove every cached article and list
+ */
+export const clearArticleCache = async (): Promise<void> => {
+  await withIndexLock(async () => {
+    const index = await readIndex();
+    await Promise.all(Object.keys(index).map((id) => remove(articleKey(id))));
+    await Promise.all((['recent', 'recent-batch'] as ArticleListKey[]).map((key) => remove(listKey(key))));
+    await remove(INDEX_KEY);
+  });
+  logger.log('[ArticleCache] Cleared article cache');
+};
@@ -0,0 +1,64 @@
+/**
+ * Article Grouping
+ *
+ * Buckets articles into week or month sections by `published_at` for
+ * SectionList rendering. Input is expected newest first, and sections keep
+ * that order. Weeks start on Monday, in the device's local time zone.
+ */
+
+import type { Article } from './schema';
+
+export type GroupingMode = 'week' | 'month';
+
+export interface ArticleSection {
+  key: string;
+  title: string;
+  data: Article[];
+}
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // getDay(): 0 = Sunday; shift so Monday is the first day of the week
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday);
+  return start;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const sectionFor = (date: Date, mode: GroupingMode): { key: string; title: string } => {
+  if (mode === 'month') {
+    return {
+      key: `month-${date.getFullYear()}-${pad(date.getMonth() + 1)}`,
+      title: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    };
+  }
+
+  const weekStart = startOfWeek(date);
+  return {
+    key: `week-${weekStart.getFullYear()}-${pad(weekStart.getMonth() + 1)}-${pad(weekStart.getDate())}`,
+    title: `Week of ${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+  };
+};
+
+export const groupArticlesByPeriod = (articles: Article[], mode: GroupingMode): ArticleSection[] => {
+  const sections: ArticleSection[] = [];
+  const byKey = new Map<string, ArticleSection>();
+
+  articles.forEach((article) => {
+    const date = new Date(article.published_at);
+    const { key, title } = Number.isNaN(date.getTime())
+      ? { key: 'undated', title: 'Undated' }
+      : sectionFor(date, mode);
+
+    let section = byKey.get(key);
+    if (!section) {
+      section = { key, title, data: [] };
+      byKey.set(key, section);
+      sections.push(section);
+    }
+    section.data.push(article);
+  });
+
+  return sections;
+};
@@ -0,0 +1,170 @@
+/**
+ * Billing
+ *
+ * Buying and restoring the AF+ subscription. A BillingProvider talks to the
+ * store: the App Store or Google Play through expo-iap, or the local stand-in
+ * (EXPO_PUBLIC_BILLING_PROVIDER=local) for development without the stores.
+ * Every purchase is validated by the backend before its store transaction is
+ * finished. While a member is signed in, startPurchaseListener picks up the
+ * purchases that complete outside the purchase flow (Ask to Buy approvals,
+ * slow payments) and, at startup, transactions left unfinished by a purchase
+ * that was interrupted before validation. The backend updates the member's
+ * plan; AuthContext refreshes the user afterwards.
+ */
+
+import { Platform } from 'react-native';
+import { apiClient } from './api';
+import { logger } from './logger';
+import { localBillingProvider } from './localBilling';
+import { storeBillingProvider } from './storeBilling';
+import type { BillingPlatform, SubscriptionReceipt, SubscriptionStatus } from './schema';
+
+// Subscription product IDs, as configured in App Store Connect and Play Console
+export const AF_PLUS_PRODUCT_IDS = ['afplus_monthly', 'afplus_yearly'];
+
+export interface BillingProduct {
+  productId: string;
+  title: string;
+  description: string;
+  // Localized by the store, e.g. "$4.99"
+  displayPrice: string;
+}
+
+// A completed store purchase; also the receipt the backend validates
+export type BillingPurchase = SubscriptionReceipt;
+
+export type PurchaseOutcome =
+  | { status: 'purchased'; purchase: BillingPurchase }
+  | { status: 'cancelled' }
+  // Waiting on approval (Ask to Buy) or a slow payment method; the store
+  // delivers the purchase later
+  | { status: 'pending' };
+
+export interface BillingProvider {
+  platform: BillingPlatform;
+  connect(): Promise<void>;
+  getProducts(productIds: string[]): Promise<BillingProduct[]>;
+  purchase(productId: string): Promise<PurchaseOutcome>;
+  // Purchases the store still holds for this store account, for restoring
+  getPurchases(): Promise<BillingPurchase[]>;
+  // Completed purchases whose transaction hasn't been finished yet
+  getUnfinishedPurchases(): Promise<BillingPurchase[]>;
+  // Acknowledge the transaction once the backend has validated it
+  finish(purchase: BillingPurchase): Promise<void>;
+  // Receives purchases the store delivers while no purchase() is waiting
+  setPurchaseHandler(handler: ((purchase: BillingPurchase) => void) | null): void;
+}
+
+export interface AfPlusPurchaseResult {
+  success: boolean;
+  subscription?: SubscriptionStatus;
+  cancelled?: boolean;
+  pending?: boolean;
+  error?: string;
+}
+
+export const getBillingProvider = (): BillingProvider =>
+  process.env.EXPO_PUBLIC_BILLING_PROVIDER === 'local' || Platform.OS === 'web'
+    ? localBillingProvider
+    : storeBillingProvider;
+
+export const getAfPlusProducts = async (): Promise<BillingProduct[]> => {
+  const provider = getBillingProvider();
+  await provider.connect();
+  const products = await provider.getProducts(AF_PLUS_PRODUCT_IDS);
+  // Keep the configured order (monthly first)
+  return AF_PLUS_PRODUCT_IDS.map((id) => products.find((product) => product.productId === id)).filter(
+    (product): product is BillingProduct => !!product
+  );
+};
+
+const validateAndFinish = async (provider: BillingProvider, purchase: BillingPurchase): Promise<AfPlusPurchaseResult> => {
+  const result = await apiClient.validateSubscriptionReceipt(purchase);
+  if (!result.success || !result.subscription) {
+    // Left unfinished; startPurchaseListener tries it again on the next launch
+    return { success: false, error: result.error || "We couldn't confirm your purchase. Please try again." };
+  }
+  await provider.finish(purchase);
+  return { success: result.subscription.active, subscription: result.subscription };
+};
+
+export const purchaseAfPlus = async (productId: string): Promise<AfPlusPurchaseResult> => {
+  const provider = getBillingProvider();
+  try {
+    await provider.connect();
+    const outcome = await provider.purchase(productId);
+    if (outcome.status === 'cancelled') return { success: false, cancelled: true };
+    if (outcome.status === 'pending') return { success: false, pending: true };
+    return await validateAndFinish(provider, outcome.purchase);
+  } catch (error: any) {
+    logger.error('[Billing] Purchase failed:', error?.message || error);
+    return { success: false, error: error?.message || 'The purchase could not be completed' };
+  }
+};
+
+// Validate the AF+ purchases the store holds until one is still active
+export const restoreAfPlus = async (): Promise<AfPlusPurchaseResult> => {
+  const provider = getBillingProvider();
+  try {
+    await provider.connect();
+    const purchases = (await provider.getPurchases()).filter((purchase) =>
+      AF_PLUS_PRODUCT_IDS.includes(purchase.productId)
+    );
+
+    let lastFailure: AfPlusPurchaseResult | null = null;
+    for (const purchase of purchases) {
+      const result = await validateAndFinish(provider, purchase);
+      if (result.success) return result;
+      lastFailure = result;
+    }
+    return lastFailure?.error
+      ? lastFailure
+      : { success: false, error: 'No active AF+ subscription was found for this store account' };
+  } catch (error: any) {
+    logger.error('[Billing] Restore failed:', error?.message || error);
+    return { success: false, error: error?.message || 'Purchases could not be restored' };
+  }
+};
+
+/**
+ * Validate and finish AF+ purchases that arrive outside purchaseAfPlus, then
+ * report each validated subscription. Unfinished transactions are checked
+ * once when it starts. Returns a function that stops listening.
+ */
+export const startPurchaseListener = (onValidated: (subscription: SubscriptionStatus) => void): (() => void) => {
+  const provider = getBillingProvider();
+  // A re-delivered transaction can arrive while the startup check handles it
+  const inFlight = new Set<string>();
+  let stopped = false;
+
+  const handle = async (purchase: BillingPurchase) => {
+    if (stopped || !AF_PLUS_PRODUCT_IDS.includes(purchase.productId) || inFlight.has(purchase.transactionId)) return;
+    inFlight.add(purchase.transactionId);
+    try {
+      const result = await validateAndFinish(provider, purchase);
+      if (result.subscription && !stopped) onValidated(result.subscription);
+      else if (result.error) logger.warn('[Billing] Could not validate purchase:', result.error);
+    } catch (error: any) {
+      logger.error('[Billing] Failed to process purchase:', error?.message || error);
+    } finally {
+      inFlight.delete(purchase.transactionId);
+    }
+  };
+
+  provider.setPurchaseHandler(handle);
+  (async () => {
+    try {
+      await provider.connect();
+      for (const purchase of await provider.getUnfinishedPurchases()) {
+        await handle(purchase);
+      }
+    } catch (error: any) {
+      logger.error('[Billing] Failed to check unfinished purchases:', error?.message || error);
+    }
+  })();
+
+  return () => {
+    stopped = true;
+    provider.setPurchaseHandler(null);
+  };
+};
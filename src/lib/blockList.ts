@@ -0,0 +1,128 @@
+/**
+ * Block List
+ *
+ * Members the signed-in user has blocked. Their comments are hidden on the
+ * client, so the list is cached on the device and available before the first
+ * network round trip. The backend is the source of truth: syncBlockList()
+ * replaces the local copy, and block/unblock are applied optimistically and
+ * rolled back if the backend rejects them.
+ */
+
+import { apiClient } from './api';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import type { BlockedUser } from './schema';
+
+const STORAGE_KEY = 'blocked_users';
+
+type Listener = (blocked: BlockedUser[]) => void;
+
+let blocked: BlockedUser[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  const snapshot = [...blocked];
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      logger.error('[BlockList] Listener threw an error:', error);
+    }
+  });
+};
+
+const persist = async () => {
+  try {
+    if (blocked.length === 0) {
+      await remove(STORAGE_KEY);
+    } else {
+      await store(STORAGE_KEY, JSON.stringify(blocked));
+    }
+  } catch (error) {
+    logger.error('[BlockList] Error persisting block list:', error);
+  }
+};
+
+const ensureLoaded = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const raw = await get(STORAGE_KEY);
+      if (raw) {
+        try {
+          blocked = JSON.parse(raw) as BlockedUser[];
+        } catch (error) {
+          logger.warn('[BlockList] Corrupt block list, discarding');
+        }
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+};
+
+const setBlocked = async (next: BlockedUser[]) => {
+  blocked = next;
+  notify();
+  await persist();
+};
+
+export const getBlockedUsers = (): BlockedUser[] => [...blocked];
+
+/**
+ * Subscribe to block list changes. The listener is called right away with the
+ * current list and again once the cached copy has been read from storage.
+ */
+export const subscribeToBlockList = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener([...blocked]);
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Replace the local copy with the backend's list
+export const syncBlockList = async (): Promise<void> => {
+  await ensureLoaded();
+  const result = await apiClient.getBlockedUsers();
+  if (result.success && result.blocked) {
+    await setBlocked(result.blocked);
+  }
+};
+
+export const blockUser = async (user: BlockedUser): Promise<{ success: boolean; error?: string }> => {
+  await ensureLoaded();
+  if (blocked.some((entry) => entry.userId === user.userId)) {
+    return { success: true };
+  }
+
+  const previous = blocked;
+  await setBlocked([...blocked, { ...user, blockedAt: user.blockedAt ?? new Date().toISOString() }]);
+
+  const result = await apiClient.blockUser(user.userId);
+  if (!result.success) {
+    await setBlocked(previous);
+    return { success: false, error: result.error };
+  }
+  return { success: true };
+};
+
+export const unblockUser = async (userId: string): Promise<{ success: boolean; error?: string }> => {
+  await ensureLoaded();
+  const previous = blocked;
+  await setBlocked(blocked.filter((entry) => entry.userId !== userId));
+
+  const result = await apiClient.unblockUser(userId);
+  if (!result.success) {
+    await setBlocked(previous);
+    return { success: false, error: result.error };
+  }
+  return { success: true };
+};
+
+// Called on logout; the list belongs to the signed-out user
+export const clearBlockList = async (): Promise<void> => {
+  await ensureLoaded();
+  await setBlocked([]);
+};
@@ -0,0 +1,62 @@
+/**
+ * Comment Store
+ *
+ * In-memory list of an article's top-level comments keyed by comment_id.
+ * Pages from the cursor-paginated comments endpoint overlap when comments are
+ * posted or deleted between requests, so every merge goes through the store:
+ * a comment that is already loaded is updated in place instead of being
+ * listed twice.
+ */
+
+import type { Comment } from './schema';
+
+export interface CommentStore {
+  byId: Record<string, Comment>;
+  // Display order of the loaded comments
+  order: string[];
+}
+
+export const EMPTY_COMMENT_STORE: CommentStore = { byId: {}, order: [] };
+
+const mergeInto = (store: CommentStore, comments: Comment[], position: 'start' | 'end'): CommentStore => {
+  const byId = { ...store.byId };
+  const added: string[] = [];
+  comments.forEach((comment) => {
+    if (!byId[comment.comment_id] && !added.includes(comment.comment_id)) {
+      added.push(comment.comment_id);
+    }
+    byId[comment.comment_id] = comment;
+  });
+
+  if (added.length === 0) {
+    return { byId, order: store.order };
+  }
+  return { byId, order: position === 'start' ? [...added, ...store.order] : [...store.order, ...added] };
+};
+
+// Add the next page below what is already loaded
+export const appendComments = (store: CommentStore, comments: Comment[]): CommentStore =>
+  mergeInto(store, comments, 'end');
+
+// Add comments that arrived since the last load (refresh, or a comment just posted) to the top
+export const prependComments = (store: CommentStore, comments: Comment[]): CommentStore =>
+  mergeInto(store, comments, 'start');
+
+export const updateComment = (
+  store: CommentStore,
+  commentId: string,
+  update: (comment: Comment) => Comment
+): CommentStore => {
+  const existing = store.byId[commentId];
+  if (!existing) return store;
+  return { ...store, byId: { ...store.byId, [commentId]: update(existing) } };
+};
+
+export const removeComment = (store: CommentStore, commentId: string): CommentStore => {
+  if (!store.byId[commentId]) return store;
+  const { [commentId]: _removed, ...byId } = store.byId;
+  return { byId, order: store.order.filter((id) => id !== commentId) };
+};
+
+export const selectComments = (store: CommentStore): Comment[] =>
+  store.order.map((id) => store.byId[id]);
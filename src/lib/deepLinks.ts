@@ -0,0 +1,49 @@
+/**
+ * Deep Links
+ *
+ * URLs that open the app: the `athleticfinance://` scheme and https links on
+ * the website, both of the form `/articles/:slug` and `/members/:username`.
+ * Articles and profiles are only reachable when signed in, so a link opened
+ * while signed out is held here and resumed after login (see AppNavigator).
+ */
+
+import { normalizeHandle } from './mentions';
+
+export const DEEP_LINK_SCHEME = 'athleticfinance';
+export const WEB_HOST = 'athleticfinance.com';
+
+export const DEEP_LINK_PREFIXES = [`${DEEP_LINK_SCHEME}://`, `https://${WEB_HOST}`, `https://www.${WEB_HOST}`];
+
+export type DeepLinkTarget =
+  | { name: 'ArticleDetail'; params: { slug: string } }
+  | { name: 'UserProfile'; params: { username: string } };
+
+let pendingTarget: DeepLinkTarget | null = null;
+
+// Path as handed over by React Navigation, e.g. "articles/salary-cap?ref=x"
+export const parseDeepLinkPath = (path: string): DeepLinkTarget | null => {
+  const [screen, value] = path.split(/[?#]/)[0].split('/').filter(Boolean);
+  if (!value) return null;
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+
+  if (screen === 'articles') return { name: 'ArticleDetail', params: { slug: decoded } };
+  if (screen === 'members') return { name: 'UserProfile', params: { username: normalizeHandle(decoded) } };
+  return null;
+};
+
+export const setPendingDeepLink = (target: DeepLinkTarget) => {
+  pendingTarget = target;
+};
+
+// Returns the held link once, then forgets it
+export const takePendingDeepLink = (): DeepLinkTarget | null => {
+  const target = pendingTarget;
+  pendingTarget = null;
+  return target;
+};
@@ -0,0 +1,90 @@
+/**
+ * Local Billing
+ *
+ * A stand-in for the app stores, so the AF+ purchase flow can be run in a
+ * simulator and against the mock server without store accounts. Products are
+ * fixed, a confirmation dialog takes the place of the store's purchase sheet
+ * and purchases are kept on the device so restoring finds them. Receipts are
+ * marked with the 'local' platform; only backends that allow test purchases
+ * accept them.
+ */
+
+import { Alert } from 'react-native';
+import { store, get } from './secureStorage';
+import { logger } from './logger';
+import type { BillingProduct, BillingProvider, BillingPurchase, PurchaseOutcome } from './billing';
+
+const STORAGE_KEY = 'local_billing_purchases';
+
+const PRODUCTS: BillingProduct[] = [
+  { productId: 'afplus_monthly', title: 'AF+ Monthly', description: 'Billed every month', displayPrice: '$4.99' },
+  { productId: 'afplus_yearly', title: 'AF+ Yearly', description: 'Billed once a year', displayPrice: '$49.99' },
+];
+
+const getStoredPurchases = async (): Promise<BillingPurchase[]> => {
+  try {
+    const raw = await get(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logger.warn('[LocalBilling] Failed to read purchases:', error);
+    return [];
+  }
+};
+
+const createPurchase = async (productId: string): Promise<BillingPurchase> => {
+  const now = Date.now();
+  const purchase: BillingPurchase = {
+    platform: 'local',
+    productId,
+    transactionId: `local-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    purchaseToken: `local:${productId}:${now}`,
+  };
+  // Newest first, so restoring tries the latest purchase before older ones
+  await store(STORAGE_KEY, JSON.stringify([purchase, ...(await getStoredPurchases())]));
+  return purchase;
+};
+
+export const localBillingProvider: BillingProvider = {
+  platform: 'local',
+
+  connect: async () => {},
+
+  getProducts: async (productIds) => PRODUCTS.filter((product) => productIds.includes(product.productId)),
+
+  purchase: (productId) =>
+    new Promise<PurchaseOutcome>((resolve, reject) => {
+      const product = PRODUCTS.find((candidate) => candidate.productId === productId);
+      if (!product) {
+        reject(new Error(`Unknown product: ${productId}`));
+        return;
+      }
+
+      const cancel = () => resolve({ status: 'cancelled' });
+      Alert.alert(
+        'Test purchase',
+        `Subscribe to ${product.title} for ${product.displayPrice}? This is the local billing provider; nothing is charged.`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: cancel },
+          {
+            text: 'Subscribe',
+            onPress: () => {
+              createPurchase(productId).then((purchase) => resolve({ status: 'purchased', purchase }), reject);
+            },
+          },
+        ],
+        { cancelable: true, onDismiss: cancel }
+      );
+    }),
+
+  getPurchases: getStoredPurchases,
+
+  // Local purchases complete inside purchase(), so none are left unfinished
+  // and none arrive later
+  getUnfinishedPurchases: async () => [],
+
+  // Nothing to acknowledge locally
+  finish: async () => {},
+
+  setPurchaseHandler: () => {},
+};
@@ -0,0 +1,121 @@
+/**
+ * Comment Mentions
+ *
+ * Helpers for @mentions in comments: finding the "@query" being typed in the
+ * composer, inserting the chosen member, turning the members picked while
+ * composing into the mention entities sent with the comment, and splitting a
+ * stored comment into plain and mention runs for rendering.
+ */
+
+import type { CommentMention, MentionInput } from './schema';
+
+// Handles are letters, digits, underscores and dots
+const HANDLE_CHAR = /[A-Za-z0-9_.]/;
+// Dots followed by whitespace or the end of the text end a sentence rather
+// than continue a handle ("thanks @bob.")
+const TRAILING_DOTS = /^\.+(?=\s|$)/;
+
+export interface MentionCandidate {
+  userId: string;
+  username: string;
+}
+
+export interface ActiveMentionQuery {
+  // Index of the "@"
+  start: number;
+  query: string;
+}
+
+export const normalizeHandle = (username: string) => username.replace(/^@+/, '');
+
+/**
+ * The "@query" the cursor is in, if any. The "@" must start the text or follow
+ * whitespace so email addresses don't trigger autocomplete.
+ */
+export const findMentionQuery = (text: string, cursor: number): ActiveMentionQuery | null => {
+  let index = cursor - 1;
+  while (index >= 0 && HANDLE_CHAR.test(text[index])) {
+    index--;
+  }
+  if (index < 0 || text[index] !== '@') return null;
+  if (index > 0 && !/\s/.test(text[index - 1])) return null;
+  const typed = text.slice(index + 1, cursor);
+  const handle = typed.replace(/\.+$/, '');
+  const query = TRAILING_DOTS.test(text.slice(index + 1 + handle.length)) ? handle : typed;
+  return { start: index, query };
+};
+
+// Replace the active "@query" with the member's handle plus a trailing space,
+// or keep the sentence-ending dots that follow it
+export const insertMention = (
+  text: string,
+  active: ActiveMentionQuery,
+  username: string
+): { text: string; cursor: number } => {
+  const end = active.start + 1 + active.query.length;
+  const rest = text.slice(end);
+  const dots = rest.match(TRAILING_DOTS)?.[0] ?? '';
+  const handle = `@${normalizeHandle(username)}${dots ? '' : ' '}`;
+  return {
+    text: text.slice(0, active.start) + handle + rest,
+    cursor: active.start + handle.length + dots.length,
+  };
+};
+
+/**
+ * Mention entities for the final comment text. Each picked member is matched
+ * wherever their "@handle" still appears as a whole word, so edits made after
+ * picking (or deleting the mention) are reflected.
+ */
+export const buildMentionEntities = (text: string, candidates: MentionCandidate[]): MentionInput[] => {
+  const entities: MentionInput[] = [];
+  const seen = new Set<string>();
+
+  candidates.forEach(({ userId, username }) => {
+    const handle = `@${normalizeHandle(username)}`;
+    if (seen.has(handle.toLowerCase())) return;
+    seen.add(handle.toLowerCase());
+
+    let from = 0;
+    let index = text.indexOf(handle, from);
+    while (index !== -1) {
+      const end = index + handle.length;
+      const before = index === 0 ? '' : text[index - 1];
+      const after = end < text.length ? text[end] : '';
+      const endsHandle = !after || !HANDLE_CHAR.test(after) || TRAILING_DOTS.test(text.slice(end));
+      if ((!before || /\s/.test(before)) && endsHandle) {
+        entities.push({ userId, start: index, end });
+      }
+      from = end;
+      index = text.indexOf(handle, from);
+    }
+  });
+
+  return entities.sort((a, b) => a.start - b.start);
+};
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; mention: CommentMention };
+
+/**
+ * Split comment content into plain and mention runs. Mention runs show the
+ * member's current username rather than the text stored at posting time.
+ * Ranges come from the backend, so invalid or overlapping ones are skipped.
+ */
+export const toMentionSegments = (content: string, mentions: CommentMention[] = []): MentionSegment[] => {
+  const sorted = [...mentions]
+    .filter(({ start, end }) => start >= 0 && end <= content.length && start < end)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: MentionSegment[] = [];
+  let cursor = 0;
+  sorted.forEach((mention) => {
+    if (mention.start < cursor) return;
+    if (mention.start > cursor) segments.push({ type: 'text', text: content.slice(cursor, mention.start) });
+    segments.push({ type: 'mention', text: `@${normalizeHandle(mention.username)}`, mention });
+    cursor = mention.end;
+  });
+  if (cursor < content.length) segments.push({ type: 'text', text: content.slice(cursor) });
+  return segments;
+};
@@ -0,0 +1,338 @@
+/**
+ * Offline Mutation Queue (Outbox)
+ *
+ * Persists bookmark, comment, article-view, read-session and reading-progress
+ * mutations that could not reach the backend and replays them in order once
+ * connectivity returns. Every entry carries an idempotency key so a replay
+ * that already landed on the server is not applied twice.
+ *
+ * Conflicting mutations are coalesced when enqueued: a bookmark followed by
+ * an unbookmark of the same article (or vice versa) cancels out, and a newer
+ * reading position replaces one that hasn't been sent.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { apiClient } from './api';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import type { MentionInput, ReadingProgressUpdate, ReadSession } from './schema';
+
+const OUTBOX_KEY = 'mutation_outbox';
+const MAX_ATTEMPTS = 8;
+
+export type Mutation =
+  | { type: 'bookmark'; articleId: number }
+  | { type: 'unbookmark'; articleId: number }
+  | { type: 'createComment'; articleId: number; content: string; parentCommentId?: string; mentions?: MentionInput[] }
+  | { type: 'recordArticleView'; articleId: number }
+  | { type: 'recordReadSession'; session: ReadSession }
+  | { type: 'updateReadingProgress'; articleId: number; progress: ReadingProgressUpdate };
+
+export interface OutboxEntry {
+  // Doubles as the Idempotency-Key sent to the backend
+  id: string;
+  mutation: Mutation;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface MutationQueueState {
+  pending: OutboxEntry[];
+  isFlushing: boolean;
+}
+
+export interface FlushResult {
+  completed: OutboxEntry[];
+  // Entries the backend rejected permanently (e.g. 4xx); they are not retried
+  dropped: OutboxEntry[];
+}
+
+type Listener = (state: MutationQueueState) => void;
+
+let entries: OutboxEntry[] = [];
+let loaded = false;
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<FlushResult> | null = null;
+// Entry currently being sent; it can no longer be coalesced away
+let inFlightId: string | null = null;
+const listeners = new Set<Listener>();
+
+// Callers that try a mutation directly first send it with a key made here and
+// pass the same key to enqueueMutation, so a replay of a request that did
+// reach the server is recognized as a duplicate
+export const generateIdempotencyKey = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  // RFC 4122 version 4 layout
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const getState = (): MutationQueueState => ({
+  pending: [...entries],
+  isFlushing: flushPromise !== null,
+});
+
+const notify = () => {
+  const state = getState();
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (error) {
+      logger.error('[MutationQueue] Listener threw an error:', error);
+    }
+  });
+};
+
+const persist = async () => {
+  try {
+    if (entries.length === 0) {
+      await remove(OUTBOX_KEY);
+    } else {
+      await store(OUTBOX_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    logger.error('[MutationQueue] Error persisting outbox:', error);
+  }
+};
+
+const ensureLoaded = async () => {
+  if (loaded) return;
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const raw = await get(OUTBOX_KEY);
+      if (raw) {
+        try {
+          const stored = JSON.parse(raw) as OutboxEntry[];
+          // Keep anything enqueued before the load finished
+          entries = [...stored, ...entries];
+        } catch (error) {
+          logger.warn('[MutationQueue] Corrupt outbox, discarding');
+        }
+      }
+      loaded = true;
+      notify();
+    })();
+  }
+  await loadPromise;
+};
+
+// Network failures, timeouts, rate limits and server errors are worth retrying
+export const isRetryableStatus = (status?: number) =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+const execute = async (entry: OutboxEntry) => {
+  const { mutation } = entry;
+  const options = { idempotencyKey: entry.id };
+
+  switch (mutation.type) {
+    case 'bookmark':
+      return apiClient.bookmarkArticle(mutation.articleId, options);
+    case 'unbookmark':
+      return apiClient.unbookmarkArticle(mutation.articleId, options);
+    case 'createComment':
+      return mutation.parentCommentId
+        ? apiClient.createReply(mutation.articleId, mutation.parentCommentId, mutation.content, {
+            ...options,
+            mentions: mutation.mentions,
+          })
+        : apiClient.createComment(mutation.articleId, mutation.content, { ...options, mentions: mutation.mentions });
+    case 'recordArticleView':
+      return apiClient.recordArticleView(mutation.articleId, options);
+    case 'recordReadSession':
+      return apiClient.recordReadSession(mutation.session, options);
+    case 'updateReadingProgress':
+      return apiClient.updateReadingProgress(mutation.articleId, mutation.progress, options);
+  }
+};
+
+/**
+ * Add a mutation to the outbox. Returns the queued entry, or null when the
+ * mutation was coalesced away (duplicate or cancelled by its opposite).
+ */
+export const enqueueMutation = async (mutation: Mutation, idempotencyKey?: string): Promise<OutboxEntry | null> => {
+  await ensureLoaded();
+
+  if (mutation.type === 'bookmark' || mutation.type === 'unbookmark') {
+    const opposite = mutation.type === 'bookmark' ? 'unbookmark' : 'bookmark';
+    const sameArticle = (entry: OutboxEntry) =>
+      (entry.mutation.type === 'bookmark' || entry.mutation.type === 'unbookmark') &&
+      entry.mutation.articleId === mutation.articleId;
+    const last = [...entries].reverse().find(sameArticle);
+
+    if (last?.mutation.type === mutation.type) {
+      return last;
+    }
+    if (last?.mutation.type === opposite && last.id !== inFlightId) {
+      entries = entries.filter((entry) => entry.id !== last.id);
+      await persist();
+      notify();
+      logger.log('[MutationQueue] Cancelled pending', opposite, 'for article', mutation.articleId);
+      return null;
+    }
+  }
+
+  if (mutation.type === 'recordArticleView') {
+    const existing = entries.find(
+      (entry) =>
+        entry.mutation.type === 'recordArticleView' &&
+        entry.mutation.articleId === mutation.articleId
+    );
+    if (existing) return existing;
+  }
+
+  if (mutation.type === 'updateReadingProgress') {
+    // A newer position replaces one that hasn't been sent yet
+    const superseded = entries.find(
+      (entry) =>
+        entry.mutation.type === 'updateReadingProgress' &&
+        entry.mutation.articleId === mutation.articleId &&
+        entry.id !== inFlightId
+    );
+    if (superseded) {
+      entries = entries.filter((entry) => entry.id !== superseded.id);
+    }
+  }
+
+  const entry: OutboxEntry = {
+    id: idempotencyKey ?? generateIdempotencyKey(),
+    mutation,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  entries = [...entries, entry];
+  await persist();
+  notify();
+  return entry;
+};
+
+/**
+ * Replay queued mutations in order. Stops at the first retryable failure so
+ * later mutations never overtake earlier ones.
+ */
+export const flushMutationQueue = async (): Promise<FlushResult> => {
+  if (flushPromise) return flushPromise;
+
+  flushPromise = (async () => {
+    await ensureLoaded();
+    const completed: OutboxEntry[] = [];
+    const dropped: OutboxEntry[] = [];
+
+    // Nothing can land while offline; connectivity returning triggers a flush
+    const netState = await NetInfo.fetch();
+    if (netState.isConnected === false) {
+      return { completed, dropped };
+    }
+    notify();
+
+    while (entries.length > 0) {
+      const entry = entries[0];
+      inFlightId = entry.id;
+      const result = await execute(entry);
+      inFlightId = null;
+
+      // A daily comment limit is a definitive answer, not a transient failure
+      const limitReached = 'limitReached' in result && !!result.limitReached;
+
+      // Requests that never got an answer (offline, timed out) don't use up attempts
+      const attempts = result.status === undefined ? entry.attempts : entry.attempts + 1;
+
+      if (result.success) {
+        completed.push(entry);
+      } else if (!limitReached && isRetryableStatus(result.status) && attempts < MAX_ATTEMPTS) {
+        entries = [{ ...entry, attempts, lastError: result.error }, ...entries.slice(1)];
+        await persist();
+        logger.log('[MutationQueue] Replay paused, will retry later:', result.error);
+        break;
+      } else {
+        logger.warn('[MutationQueue] Dropping mutation after failure:', entry.mutation.type, result.error);
+        dropped.push({ ...entry, lastError: result.error });
+      }
+
+      entries = entries.filter((e) => e.id !== entry.id);
+      await persist();
+      notify();
+    }
+
+    return { completed, dropped };
+  })();
+
+  try {
+    return await flushPromise;
+  } finally {
+    flushPromise = null;
+    notify();
+  }
+};
+
+export const getMutationQueueState = (): MutationQueueState => getState();
+
+export const subscribeToMutationQueue = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener(getState());
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Replay the outbox whenever connectivity returns or the app is foregrounded.
+ * Returns a function that stops listening.
+ */
+export const startMutationQueue = (onFlushed?: (result: FlushResult) => void): (() => void) => {
+  const flushAndReport = async () => {
+    const result = await flushMutationQueue();
+    if (result.completed.length > 0 || result.dropped.length > 0) {
+      onFlushed?.(result);
+    }
+  };
+
+  let wasConnected: boolean | null = null;
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    const isConnected = state.isConnected !== false;
+    if (isConnected && wasConnected !== true) {
+      flushAndReport();
+    }
+    wasConnected = isConnected;
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (status) => {
+    if (status === 'active') {
+      flushAndReport();
+    }
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
+
+/**
+ * Discard every queued mutation (e.g. on logout, since they belong to the user)
+ */
+export const clearMutationQueue = async (): Promise<void> => {
+  await ensureLoaded();
+  entries = [];
+  await persist();
+  notify();
+  logger.log('[MutationQueue] Cleared outbox');
+};
+
+/**
+ * Overlay queued bookmark changes on a set of saved article IDs from the
+ * server, so optimistic state survives a refresh while mutations are pending.
+ */
+export const applyPendingBookmarks = (savedIds: Set<number>, pending: OutboxEntry[]): Set<number> => {
+  const result = new Set(savedIds);
+  pending.forEach(({ mutation }) => {
+    if (mutation.type === 'bookmark') result.add(mutation.articleId);
+    if (mutation.type === 'unbookmark') result.delete(mutation.articleId);
+  });
+  return result;
+};
@@ -79,6 +79,29 @@ interface LexicalRoot {
 export interface ParagraphBlock {
   id: string;
   html: string;
+  // Units shown on this page, used to keep the reader's place when pages change
+  unitIds: string[];
+}
+
+// Smallest piece of content a page can hold: a paragraph, heading, media
+// block or single list item. Pages are only ever split between units.
+export interface PageUnit {
+  id: string;
+  html: string;
+  // Set for list items; consecutive items of the same list share one <ul>/<ol>
+  list?: {
+    id: string;
+    tag: 'ul' | 'ol';
+    index: number;
+  };
+  // Headings are moved to the next page rather than left at the bottom
+  keepWithNext?: boolean;
+}
+
+// Content between two horizontal rules, which always start a new page
+export interface ArticleSection {
+  id: string;
+  units: PageUnit[];
 }
 
 const escapeHTML = (str: string = ''): string =>
@@ -208,53 +231,132 @@ const renderNodeToHTML = (node: LexicalNode): string => {
   }
 };
 
-// Parse lexical content into blocks of HTML similar to Payload preview
-export const parseToParagraphBlocks = (content: LexicalRoot): ParagraphBlock[] => {
-  // Log the full content JSON for debugging
-  //console.log('[PARAGRAPH_PARSER] Full article content JSON:', JSON.stringify(content, null, 2));
-  
+// Split lexical content into sections at horizontal rules, and each section
+// into page units
+export const parseToSections = (content: LexicalRoot): ArticleSection[] => {
   if (!content?.root?.children) {
     return [];
   }
 
-  const blocks: ParagraphBlock[] = [];
-  let currentPageHtml = '';
-  let bufferIndex = 0;
-
-  const flushPage = () => {
-    if (currentPageHtml.trim()) {
-      blocks.push({
-        id: `block-${bufferIndex++}`,
-        html: currentPageHtml,
-      });
+  const sections: ArticleSection[] = [];
+  let currentUnits: PageUnit[] = [];
+  let unitIndex = 0;
+  let listIndex = 0;
+
+  const addUnit = (html: string, extra: Partial<PageUnit> = {}) => {
+    currentUnits.push({ id: `unit-${unitIndex++}`, html, ...extra });
+  };
+
+  const flushSection = () => {
+    if (currentUnits.some((unit) => unit.html.trim())) {
+      sections.push({ id: `section-${sections.length}`, units: currentUnits });
     }
-    currentPageHtml = '';
+    currentUnits = [];
   };
 
   content.root.children.forEach((node) => {
-    // Check if it's a horizontal rule FIRST, before rendering
-    const isDivider = node.type === 'horizontalrule';
+    if (node.type === 'horizontalrule') {
+      // The rule itself is not rendered; it only separates pages
+      flushSection();
+      return;
+    }
 
-    if (isDivider) {
-      // Finish current page (all content before this horizontal rule)
-      flushPage();
-      // Don't include the horizontal rule itself in the HTML
+    if (node.type === 'list') {
+      const listNode = node as LexicalListNode;
+      const list = { id: `list-${listIndex++}`, tag: listNode.tag || 'ul' };
+      (listNode.children ?? []).forEach((item, index) => {
+        addUnit(renderNodeToHTML(item), { list: { ...list, index } });
+      });
       return;
     }
 
-    // Render all other content (headings, paragraphs, lists, blocks, etc.)
     const html = renderNodeToHTML(node);
-    
-    // Add to current page even if empty (to preserve structure)
-    // Empty paragraphs will be filtered by renderNodeToHTML anyway
     if (html) {
-      currentPageHtml += html;
+      addUnit(html, node.type === 'heading' ? { keepWithNext: true } : {});
     }
   });
 
-  // Flush any remaining content after the last horizontal rule as the final page
-  flushPage();
+  flushSection();
 
-  return blocks;
+  return sections;
+};
+
+// Join units into page HTML, reopening lists that continue from the previous page
+export const composePageHtml = (units: PageUnit[]): string => {
+  let html = '';
+  let openList: PageUnit['list'];
+
+  const closeList = () => {
+    if (openList) {
+      html += `</${openList.tag}>`;
+      openList = undefined;
+    }
+  };
+
+  units.forEach((unit) => {
+    if (unit.list?.id !== openList?.id) {
+      closeList();
+      if (unit.list) {
+        const start = unit.list.tag === 'ol' && unit.list.index > 0 ? ` start="${unit.list.index + 1}"` : '';
+        html += `<${unit.list.tag}${start}>`;
+        openList = unit.list;
+      }
+    }
+    html += unit.html;
+  });
+  closeList();
+
+  return html;
 };
 
+const toBlock = (index: number, units: PageUnit[]): ParagraphBlock => ({
+  id: `block-${index}`,
+  html: composePageHtml(units),
+  unitIds: units.map((unit) => unit.id),
+});
+
+// Parse lexical content into blocks of HTML similar to Payload preview, one per section
+export const parseToParagraphBlocks = (content: LexicalRoot): ParagraphBlock[] =>
+  parseToSections(content).map((section, index) => toBlock(index, section.units));
+
+/**
+ * Fill pages with as many units as fit in `maxHeight`, using the rendered
+ * height of each unit. A unit taller than a whole page gets a page of its
+ * own rather than being cut. Units without a height yet count as zero.
+ */
+export const paginateSections = (
+  sections: ArticleSection[],
+  heights: Record<string, number>,
+  maxHeight: number
+): ParagraphBlock[] => {
+  const blocks: ParagraphBlock[] = [];
+
+  sections.forEach(({ units }) => {
+    let pageUnits: PageUnit[] = [];
+    let pageHeight = 0;
+
+    const flushPage = () => {
+      if (pageUnits.length) {
+        blocks.push(toBlock(blocks.length, pageUnits));
+      }
+      pageUnits = [];
+      pageHeight = 0;
+    };
+
+    units.forEach((unit, index) => {
+      const height = heights[unit.id] ?? 0;
+      const next = unit.keepWithNext ? units[index + 1] : undefined;
+      const needed = height + (next ? heights[next.id] ?? 0 : 0);
+
+      if (pageUnits.length && pageHeight + needed > maxHeight) {
+        flushPage();
+      }
+      pageUnits.push(unit);
+      pageHeight += height;
+    });
+
+    flushPage();
+  });
+
+  return blocks;
+};
@@ -0,0 +1,129 @@
+/**
+ * Push Notifications
+ *
+ * Registers the device's Expo push token with the backend, which sends the
+ * daily article and AF+ drop notifications according to the preferences stored
+ * on the server. The token is kept on the device so it can be unregistered on
+ * logout. Notifications carry the article ID in `data.articleId`; tapping one
+ * opens that article (see subscribeToNotificationTaps).
+ */
+
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { apiClient } from './api';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import { canAccessPremiumContent } from './planUtils';
+import type { NotificationTopic } from './schema';
+
+const TOKEN_KEY = 'push_token';
+const ANDROID_CHANNEL_ID = 'articles';
+
+// Show notifications that arrive while the app is open as banners
+export const configureNotificationHandler = () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+// Topics the plan may subscribe to; AF+ drops are for AF+ members only
+export const getAvailableNotificationTopics = (plan: string | undefined | null): NotificationTopic[] =>
+  canAccessPremiumContent(plan) ? ['daily', 'afplus'] : ['daily'];
+
+/**
+ * Get this device's push token and register it with the backend. With
+ * `prompt: false` nothing is asked of the user: registration only happens if
+ * permission was granted before (used to refresh the token on sign-in).
+ */
+export const registerForPushNotifications = async ({ prompt }: { prompt: boolean }): Promise<{
+  success: boolean;
+  permissionDenied?: boolean;
+  error?: string;
+}> => {
+  if (!Device.isDevice) {
+    return { success: false, error: 'Push notifications need a physical device' };
+  }
+
+  try {
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted' && prompt) {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      return { success: false, permissionDenied: true };
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Articles',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+    const result = await apiClient.registerPushToken(token, Platform.OS);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    await store(TOKEN_KEY, token);
+    return { success: true };
+  } catch (error: any) {
+    logger.error('[PushNotifications] Registration failed:', error?.message || error);
+    return { success: false, error: error?.message || 'Failed to register for notifications' };
+  }
+};
+
+// Called on logout, while the session is still valid; never throws
+export const unregisterPushNotifications = async (): Promise<void> => {
+  try {
+    const token = await get(TOKEN_KEY);
+    if (!token) return;
+    await apiClient.unregisterPushToken(token);
+    await remove(TOKEN_KEY);
+  } catch (error: any) {
+    logger.warn('[PushNotifications] Unregister failed:', error?.message || error);
+  }
+};
+
+const getArticleId = (response: Notifications.NotificationResponse | null): number | null => {
+  const articleId = Number(response?.notification.request.content.data?.articleId);
+  return Number.isInteger(articleId) && articleId > 0 ? articleId : null;
+};
+
+/**
+ * Call `onOpenArticle` when the user taps a notification, including the one
+ * that launched the app from a cold start.
+ */
+export const subscribeToNotificationTaps = (onOpenArticle: (articleId: number) => void): (() => void) => {
+  let active = true;
+
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      const articleId = getArticleId(response);
+      if (active && articleId) {
+        onOpenArticle(articleId);
+        Notifications.clearLastNotificationResponseAsync().catch(() => {});
+      }
+    })
+    .catch((error) => logger.warn('[PushNotifications] Could not read launch notification:', error));
+
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    const articleId = getArticleId(response);
+    if (articleId) onOpenArticle(articleId);
+  });
+
+  return () => {
+    active = false;
+    subscription.remove();
+  };
+};
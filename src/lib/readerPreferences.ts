@@ -0,0 +1,143 @@
+/**
+ * Reader Preferences
+ *
+ * Typography settings for article pages: text size, line spacing, serif or
+ * sans-serif and justified text, plus how the article is split into pages.
+ * Stored on the device and shared with every open article through
+ * subscribeToReaderPreferences, so changes apply live. getReaderTypography
+ * turns them into concrete sizes, scaled by the OS dynamic type setting.
+ */
+
+import { Platform } from 'react-native';
+import { store, get } from './secureStorage';
+import { logger } from './logger';
+
+const STORAGE_KEY = 'reader_preferences';
+
+export type ReaderLineSpacing = 'compact' | 'normal' | 'relaxed';
+export type ReaderFont = 'sans' | 'serif';
+// 'fit' fills each page to the screen height; 'sections' only breaks at dividers
+export type ReaderPagination = 'fit' | 'sections';
+
+export interface ReaderPreferences {
+  // Multiplier on the base text size, one of FONT_SCALE_STEPS
+  fontScale: number;
+  lineSpacing: ReaderLineSpacing;
+  font: ReaderFont;
+  justify: boolean;
+  pagination: ReaderPagination;
+}
+
+export const FONT_SCALE_STEPS = [0.85, 1, 1.15, 1.3, 1.5];
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  fontScale: 1,
+  lineSpacing: 'normal',
+  font: 'sans',
+  justify: false,
+  pagination: 'fit',
+};
+
+// Line height as a multiple of the font size
+const LINE_HEIGHT_RATIOS: Record<ReaderLineSpacing, number> = {
+  compact: 1.45,
+  normal: 1.75,
+  relaxed: 2,
+};
+
+// Large OS text sizes are honoured up to this multiplier so a page still fits the screen
+const MAX_OS_FONT_SCALE = 1.6;
+
+const BASE_FONT_SIZE = 16;
+
+export const SERIF_FONT_FAMILY = Platform.select({ ios: 'Georgia', default: 'serif' });
+
+type Listener = (preferences: ReaderPreferences) => void;
+
+let preferences: ReaderPreferences = DEFAULT_READER_PREFERENCES;
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  listeners.forEach((listener) => {
+    try {
+      listener(preferences);
+    } catch (error) {
+      logger.error('[ReaderPreferences] Listener threw an error:', error);
+    }
+  });
+};
+
+// Keep only known values so an older or corrupt copy can't break the reader
+const sanitize = (value: any): ReaderPreferences => ({
+  fontScale: FONT_SCALE_STEPS.includes(value?.fontScale) ? value.fontScale : DEFAULT_READER_PREFERENCES.fontScale,
+  lineSpacing: value?.lineSpacing in LINE_HEIGHT_RATIOS ? value.lineSpacing : DEFAULT_READER_PREFERENCES.lineSpacing,
+  font: value?.font === 'serif' ? 'serif' : 'sans',
+  justify: value?.justify === true,
+  pagination: value?.pagination === 'sections' ? 'sections' : 'fit',
+});
+
+const ensureLoaded = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await get(STORAGE_KEY);
+        if (raw) {
+          preferences = sanitize(JSON.parse(raw));
+        }
+      } catch (error) {
+        logger.warn('[ReaderPreferences] Failed to read reader preferences:', error);
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+};
+
+export const getReaderPreferences = (): ReaderPreferences => preferences;
+
+/**
+ * Subscribe to preference changes. The listener is called right away with the
+ * current value and again once the saved copy has been read from storage.
+ */
+export const subscribeToReaderPreferences = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener(preferences);
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateReaderPreferences = async (updates: Partial<ReaderPreferences>): Promise<void> => {
+  await ensureLoaded();
+  preferences = sanitize({ ...preferences, ...updates });
+  notify();
+  try {
+    await store(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    logger.warn('[ReaderPreferences] Failed to save reader preferences:', error);
+  }
+};
+
+export interface ReaderTypography {
+  fontSize: number;
+  lineHeight: number;
+  fontFamily?: string;
+  textAlign: 'left' | 'justify';
+}
+
+/**
+ * Sizes for body text. `osFontScale` is the system text size multiplier
+ * (useWindowDimensions().fontScale); sizes are returned already scaled, so
+ * text using them must be rendered with allowFontScaling off.
+ */
+export const getReaderTypography = (prefs: ReaderPreferences, osFontScale: number): ReaderTypography => {
+  const fontSize = Math.round(BASE_FONT_SIZE * prefs.fontScale * Math.min(osFontScale, MAX_OS_FONT_SCALE));
+  return {
+    fontSize,
+    lineHeight: Math.round(fontSize * LINE_HEIGHT_RATIOS[prefs.lineSpacing]),
+    fontFamily: prefs.font === 'serif' ? SERIF_FONT_FAMILY : undefined,
+    textAlign: prefs.justify ? 'justify' : 'left',
+  };
+};
@@ -0,0 +1,209 @@
+/**
+ * Reading Progress
+ *
+ * The page each article was left on, so the reader can resume there and
+ * article cards can show how far along the user is. Progress is saved on the
+ * device right away and sent to the backend shortly after the reader stops
+ * turning pages (at once when the article is finished); updates that fail
+ * for a retryable reason go through the mutation queue. syncReadingProgress()
+ * merges the backend's copy in, keeping the most recent position per article.
+ */
+
+import { apiClient } from './api';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import { enqueueMutation, isRetryableStatus } from './mutationQueue';
+import type { ReadingProgress } from './schema';
+
+const STORAGE_KEY = 'reading_progress';
+const SYNC_DELAY_MS = 3000;
+
+export interface LocalReadingProgress extends ReadingProgress {
+  // First content unit on the page (see paragraphParser), so the position
+  // survives a change of pagination. Only kept on this device.
+  unitId?: string;
+}
+
+export type ReadingProgressMap = Record<number, LocalReadingProgress>;
+
+type Listener = (progress: ReadingProgressMap) => void;
+
+let progressByArticle: ReadingProgressMap = {};
+let loadPromise: Promise<void> | null = null;
+const syncTimers = new Map<number, ReturnType<typeof setTimeout>>();
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  const snapshot = { ...progressByArticle };
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      logger.error('[ReadingProgress] Listener threw an error:', error);
+    }
+  });
+};
+
+const persist = async () => {
+  try {
+    if (Object.keys(progressByArticle).length === 0) {
+      await remove(STORAGE_KEY);
+    } else {
+      await store(STORAGE_KEY, JSON.stringify(progressByArticle));
+    }
+  } catch (error) {
+    logger.error('[ReadingProgress] Error persisting reading progress:', error);
+  }
+};
+
+const ensureLoaded = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const raw = await get(STORAGE_KEY);
+      if (raw) {
+        try {
+          // Keep anything saved before the load finished
+          progressByArticle = { ...(JSON.parse(raw) as ReadingProgressMap), ...progressByArticle };
+        } catch (error) {
+          logger.warn('[ReadingProgress] Corrupt reading progress, discarding');
+        }
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+};
+
+const isNewer = (a: ReadingProgress, b: ReadingProgress) =>
+  new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+
+const pushToBackend = async (articleId: number) => {
+  syncTimers.delete(articleId);
+  const progress = progressByArticle[articleId];
+  if (!progress) return;
+
+  const update = {
+    title: progress.title,
+    page: progress.page,
+    totalPages: progress.totalPages,
+    finished: progress.finished,
+    updatedAt: progress.updatedAt,
+  };
+  const result = await apiClient.updateReadingProgress(articleId, update);
+  if (!result.success && isRetryableStatus(result.status)) {
+    await enqueueMutation({ type: 'updateReadingProgress', articleId, progress: update });
+  }
+};
+
+const scheduleSync = (articleId: number, immediate: boolean) => {
+  const pending = syncTimers.get(articleId);
+  if (pending) clearTimeout(pending);
+
+  if (immediate) {
+    pushToBackend(articleId);
+  } else {
+    syncTimers.set(articleId, setTimeout(() => pushToBackend(articleId), SYNC_DELAY_MS));
+  }
+};
+
+export const getReadingProgress = async (articleId: number): Promise<LocalReadingProgress | null> => {
+  await ensureLoaded();
+  return progressByArticle[articleId] ?? null;
+};
+
+/**
+ * Subscribe to progress changes. The listener is called right away with the
+ * current progress and again once the saved copy has been read from storage.
+ */
+export const subscribeToReadingProgress = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener({ ...progressByArticle });
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record the page the reader is on. Reaching the last page (the comments)
+ * marks the article finished, which is kept even if the reader scrolls back.
+ */
+export const saveReadingProgress = async (
+  articleId: number,
+  position: { page: number; totalPages: number; unitId?: string; title?: string }
+): Promise<void> => {
+  await ensureLoaded();
+  const existing = progressByArticle[articleId];
+  const reachedEnd = position.totalPages > 0 && position.page >= position.totalPages - 1;
+
+  // Opening an article without turning a page isn't progress
+  if (!existing && position.page === 0) return;
+  if (
+    existing &&
+    existing.page === position.page &&
+    existing.totalPages === position.totalPages &&
+    existing.unitId === position.unitId
+  ) {
+    return;
+  }
+
+  const finished = !!existing?.finished || reachedEnd;
+  progressByArticle = {
+    ...progressByArticle,
+    [articleId]: {
+      articleId,
+      title: position.title ?? existing?.title,
+      page: position.page,
+      totalPages: position.totalPages,
+      unitId: position.unitId,
+      finished,
+      updatedAt: new Date().toISOString(),
+    },
+  };
+  notify();
+  await persist();
+  scheduleSync(articleId, finished && !existing?.finished);
+};
+
+// Merge the backend's progress into the local copy; the newer entry wins
+export const syncReadingProgress = async (): Promise<void> => {
+  await ensureLoaded();
+  const result = await apiClient.getReadingProgress();
+  if (!result.success || !result.progress) return;
+
+  const merged = { ...progressByArticle };
+  result.progress.forEach((remote) => {
+    const local = merged[remote.articleId];
+    if (!local || isNewer(remote, local)) {
+      merged[remote.articleId] = { ...remote, finished: remote.finished || !!local?.finished };
+    } else if (remote.finished && !local.finished) {
+      merged[remote.articleId] = { ...local, finished: true };
+    }
+  });
+  progressByArticle = merged;
+  notify();
+  await persist();
+};
+
+// The most recently read article that hasn't been finished, for "Continue reading"
+export const getContinueReading = (progress: ReadingProgressMap): LocalReadingProgress | null =>
+  Object.values(progress)
+    .filter((entry) => !entry.finished && entry.page > 0)
+    .reduce<LocalReadingProgress | null>((latest, entry) => (!latest || isNewer(entry, latest) ? entry : latest), null);
+
+// Share of the article read, from 0 to 1
+export const getProgressFraction = (progress: ReadingProgress): number => {
+  if (progress.finished) return 1;
+  if (progress.totalPages <= 1) return 0;
+  return Math.min(progress.page / (progress.totalPages - 1), 1);
+};
+
+// Called on logout; the progress belongs to the signed-out user
+export const clearReadingProgress = async (): Promise<void> => {
+  await ensureLoaded();
+  syncTimers.forEach((timer) => clearTimeout(timer));
+  syncTimers.clear();
+  progressByArticle = {};
+  notify();
+  await persist();
+};
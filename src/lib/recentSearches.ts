@@ -0,0 +1,56 @@
+/**
+ * Recent Searches
+ *
+ * Queries the user submitted on the search screen, newest first, persisted on
+ * the device through the non-sensitive AsyncStorage wrappers in secureStorage.
+ * Cleared on logout so the next account doesn't see them.
+ */
+
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+
+const STORAGE_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+
+export const getRecentSearches = async (): Promise<string[]> => {
+  try {
+    const raw = await get(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : [];
+  } catch (error) {
+    logger.warn('[RecentSearches] Failed to read recent searches:', error);
+    return [];
+  }
+};
+
+const saveRecentSearches = async (searches: string[]): Promise<string[]> => {
+  try {
+    await store(STORAGE_KEY, JSON.stringify(searches));
+  } catch (error) {
+    logger.warn('[RecentSearches] Failed to save recent searches:', error);
+  }
+  return searches;
+};
+
+// Moves an existing query (case-insensitive) to the top instead of duplicating it
+export const addRecentSearch = async (query: string): Promise<string[]> => {
+  const trimmed = query.trim();
+  const current = await getRecentSearches();
+  if (!trimmed) return current;
+
+  const rest = current.filter((item) => item.toLowerCase() !== trimmed.toLowerCase());
+  return saveRecentSearches([trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES));
+};
+
+export const removeRecentSearch = async (query: string): Promise<string[]> => {
+  const current = await getRecentSearches();
+  return saveRecentSearches(current.filter((item) => item !== query));
+};
+
+export const clearRecentSearches = async (): Promise<void> => {
+  try {
+    await remove(STORAGE_KEY);
+  } catch (error) {
+    logger.warn('[RecentSearches] Failed to clear recent searches:', error);
+  }
+};
@@ -0,0 +1,735 @@
+/**
+ * API Schema
+ *
+ * Response types shared across the app (Article, Comment, Profile, Stats,
+ * SavedArticle, SearchResult) together with the runtime validators ApiClient
+ * runs every backend payload through. A payload that does not match its
+ * schema raises an ApiError carrying the path of the offending field (e.g.
+ * "articles[2].title") instead of silently falling back to defaults.
+ *
+ * Field aliases the backend has used over time (userNumber/memberNumber,
+ * articlesReadCount/uniqueArticlesRead, ...) are resolved here, so screens
+ * only ever see the canonical field names.
+ */
+
+// ========== ERRORS ==========
+
+// Failures that happened before an HTTP status was received
+export type ApiErrorCode = 'network' | 'timeout' | 'aborted';
+
+export interface ApiErrorDetails {
+  path?: string;
+  status?: number;
+  url?: string;
+  code?: ApiErrorCode;
+  // Server-requested delay from a Retry-After header
+  retryAfterMs?: number;
+  // Parsed JSON body of an error response
+  data?: any;
+}
+
+export class ApiError extends Error {
+  // Dotted path of the field that failed validation, when this is a schema mismatch
+  readonly path?: string;
+  readonly status?: number;
+  readonly url?: string;
+  readonly code?: ApiErrorCode;
+  readonly retryAfterMs?: number;
+  readonly data?: any;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.path = details.path;
+    this.status = details.status;
+    this.url = details.url;
+    this.code = details.code;
+    this.retryAfterMs = details.retryAfterMs;
+    this.data = details.data;
+  }
+
+  get isSchemaMismatch(): boolean {
+    return this.path !== undefined;
+  }
+
+  // The caller cancelled the request (e.g. the screen unmounted)
+  get isAborted(): boolean {
+    return this.code === 'aborted';
+  }
+}
+
+// Wrap anything thrown by a request (network error, HTTP error, ApiError) as an ApiError
+export const toApiError = (error: any, fallbackMessage = 'Request failed'): ApiError => {
+  if (error instanceof ApiError) return error;
+  return new ApiError(error?.message || fallbackMessage, {
+    status: error?.status,
+    url: error?.url,
+  });
+};
+
+// ========== VALIDATORS ==========
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const mismatch = (expected: string, value: unknown, path: string): ApiError =>
+  new ApiError(`Invalid response: expected ${expected} at ${path}, got ${describe(value)}`, { path });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw mismatch('string', value, path);
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw mismatch('number', value, path);
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw mismatch('boolean', value, path);
+  return value;
+};
+
+// Numeric identifiers sometimes arrive as strings (e.g. "42")
+export const numericId: Schema<number> = (value, path) => {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value)) return parseInt(value, 10);
+  throw mismatch('numeric id', value, path);
+};
+
+// Free-form identifiers (member numbers) may be numbers or strings; normalized to string
+export const stringId: Schema<string> = (value, path) => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  throw mismatch('string or number', value, path);
+};
+
+export const literal =
+  <T extends string>(...values: T[]): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw mismatch(values.map((v) => `"${v}"`).join(' or '), value, path);
+    }
+    return value as T;
+  };
+
+// Missing and null both read as "not provided"
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === undefined || value === null ? null : schema(value, path);
+
+export const array =
+  <T>(schema: Schema<T>): Schema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw mismatch('array', value, path);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+
+export const oneOf =
+  <A, B>(first: Schema<A>, second: Schema<B>, expected: string): Schema<A | B> =>
+  (value, path) => {
+    try {
+      return first(value, path);
+    } catch {
+      try {
+        return second(value, path);
+      } catch {
+        throw mismatch(expected, value, path);
+      }
+    }
+  };
+
+/**
+ * Validate an object field by field. Unknown fields are kept as-is so
+ * payloads can be cached and passed around without losing data.
+ */
+export const object =
+  <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (!isRecord(value)) throw mismatch('object', value, path);
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      result[key] = shape[key](value[key], `${path}.${key}`);
+    }
+    return result as T;
+  };
+
+// Read the first alias that is present on the object
+const firstPresent = (value: Record<string, unknown>, keys: string[]) => {
+  const key = keys.find((k) => value[k] !== undefined && value[k] !== null);
+  return key ? { key, value: value[key] } : undefined;
+};
+
+const alias = <T>(value: Record<string, unknown>, keys: string[], schema: Schema<T>, path: string) => {
+  const found = firstPresent(value, keys);
+  return found ? schema(found.value, `${path}.${found.key}`) : undefined;
+};
+
+/**
+ * Validate a payload against a schema. Throws an ApiError pointing at the
+ * first mismatching field.
+ */
+export const parse = <T>(schema: Schema<T>, value: unknown, path = 'response'): T =>
+  schema(value, path);
+
+// ========== ARTICLES ==========
+
+export interface MediaObject {
+  id: number;
+  url: string;
+  width?: number;
+  height?: number;
+  alt?: string | null;
+  filename?: string;
+}
+
+// Lexical editor state; nodes are interpreted by paragraphParser
+export interface LexicalContent {
+  root: {
+    children: any[];
+  };
+}
+
+export type ArticleTier = 'AF' | 'AF+';
+
+export interface Article {
+  id: number;
+  title: string;
+  // Populated media object, or just the media ID when not populated
+  hero_image_id: MediaObject | number | null;
+  content: LexicalContent;
+  published_at: string;
+  slug: string;
+  imageUrl?: string;
+  // Only sent for AF+ articles; absent means AF
+  tier?: ArticleTier;
+}
+
+// Saved articles are returned with the same shape as regular articles
+export type SavedArticle = Article;
+
+export const mediaObjectSchema = object<MediaObject>({
+  id: numericId,
+  url: string,
+  width: optional(number),
+  height: optional(number),
+  alt: optional(nullable(string)),
+  filename: optional(string),
+});
+
+const lexicalContentSchema = object<LexicalContent>({
+  root: object<LexicalContent['root']>({
+    children: array((node: unknown) => node),
+  }),
+});
+
+export const articleSchema = object<Article>({
+  id: numericId,
+  title: string,
+  hero_image_id: nullable(oneOf(mediaObjectSchema, numericId, 'media object or media id')),
+  content: lexicalContentSchema,
+  published_at: string,
+  slug: string,
+  imageUrl: optional(string),
+  tier: optional(literal('AF', 'AF+')),
+});
+
+export const savedArticleSchema: Schema<SavedArticle> = articleSchema;
+
+// ========== SEARCH ==========
+
+// Character range [start, end) inside a snippet that matched the query
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  article: Article;
+  tier: ArticleTier;
+  // Plain-text excerpt of the article body (extracted from Lexical content)
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+const searchHighlightSchema = object<SearchHighlight>({
+  start: number,
+  end: number,
+});
+
+export const searchResultSchema = object<SearchResult>({
+  article: articleSchema,
+  tier: literal('AF', 'AF+'),
+  snippet: string,
+  highlights: array(searchHighlightSchema),
+});
+
+// ========== COMMENTS ==========
+
+export interface CommentAuthor {
+  userId?: string; // Needed to block the author
+  username: string; // Public username (e.g., "@john_doe")
+  name?: string; // Display name (optional)
+  avatar: string | null; // Full S3 public URL or null (ready to use)
+}
+
+// 'hidden': pulled from view automatically (e.g. after reports) pending review;
+// 'removed': taken down by a moderator
+export const COMMENT_STATUSES = ['active', 'deleted', 'hidden', 'removed'] as const;
+
+export type CommentStatus = (typeof COMMENT_STATUSES)[number];
+
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'misinformation', 'other'] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REACTION_TYPES = ['like', 'insightful', 'funny'] as const;
+
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+// Reaction totals per type; types nobody has used may be omitted
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+// The comment a reply answers, as included in the current user's comment list
+export interface CommentReplyTarget {
+  comment_id: string;
+  username?: string;
+  content?: string;
+}
+
+// A member mentioned in a comment. start/end cover the "@handle" text in
+// content; username is resolved from userId by the backend on every read, so
+// the mention keeps pointing at the member after they rename themselves.
+export interface CommentMention {
+  userId: string;
+  username: string;
+  start: number;
+  end: number;
+}
+
+// What the client sends when posting; the backend fills in username
+export type MentionInput = Omit<CommentMention, 'username'>;
+
+export interface Comment {
+  comment_id: string;
+  article_id: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  isDeleted: boolean;
+  // Moderation state; older payloads only carry isDeleted
+  status?: CommentStatus;
+  // Set on replies; threads are one level deep, so this is always a top-level comment
+  parentCommentId?: string;
+  // Number of replies, on top-level comments
+  replyCount?: number;
+  reactions?: ReactionCounts;
+  // Total across all reaction types; what the "top" sort orders by
+  reactionCount?: number;
+  // The signed-in caller's reaction, when the request was authenticated
+  myReaction?: ReactionType | null;
+  // Only included when listing the current user's comments
+  articleTitle?: string;
+  replyTo?: CommentReplyTarget;
+  mentions?: CommentMention[];
+  author: CommentAuthor;
+}
+
+export const commentAuthorSchema = object<CommentAuthor>({
+  userId: optional(string),
+  username: string,
+  name: optional(string),
+  avatar: nullable(string),
+});
+
+export const reactionCountsSchema = object<ReactionCounts>({
+  like: optional(number),
+  insightful: optional(number),
+  funny: optional(number),
+});
+
+export const reactionTypeSchema: Schema<ReactionType> = literal(...REACTION_TYPES);
+
+// Older payloads send only the parent comment's ID
+const commentReplyTargetSchema: Schema<CommentReplyTarget> = (value, path) => {
+  const target = oneOf(
+    string,
+    object<CommentReplyTarget>({
+      comment_id: string,
+      username: optional(string),
+      content: optional(string),
+    }),
+    'comment id or reply target'
+  )(value, path);
+  return typeof target === 'string' ? { comment_id: target } : target;
+};
+
+const commentMentionSchema = object<CommentMention>({
+  userId: string,
+  username: string,
+  start: number,
+  end: number,
+});
+
+export const commentSchema = object<Comment>({
+  comment_id: string,
+  article_id: stringId,
+  content: string,
+  createdAt: string,
+  updatedAt: string,
+  isDeleted: boolean,
+  status: optional(literal(...COMMENT_STATUSES)),
+  parentCommentId: optional(string),
+  replyCount: optional(number),
+  reactions: optional(reactionCountsSchema),
+  reactionCount: optional(number),
+  myReaction: optional(nullable(reactionTypeSchema)),
+  articleTitle: optional(string),
+  replyTo: optional(commentReplyTargetSchema),
+  mentions: optional(array(commentMentionSchema)),
+  author: commentAuthorSchema,
+});
+
+// Effective state of a comment, folding the legacy isDeleted flag into status
+export const getCommentStatus = (comment: Pick<Comment, 'isDeleted' | 'status'>): CommentStatus =>
+  comment.status && comment.status !== 'active' ? comment.status : comment.isDeleted ? 'deleted' : 'active';
+
+// ========== USERS & PROFILE ==========
+
+export interface PublicUser {
+  userId: string;
+  username: string;
+  name?: string;
+  avatar?: string | null;
+  description?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const publicUserSchema = object<PublicUser>({
+  userId: string,
+  username: string,
+  name: optional(string),
+  avatar: optional(nullable(string)),
+  description: optional(string),
+  createdAt: optional(string),
+  updatedAt: optional(string),
+});
+
+export interface Profile {
+  email?: string;
+  username?: string;
+  plan?: string; // 'AF' or 'AF+' or 'AFPlus'
+  isPremium?: boolean;
+  description?: string;
+  // Presigned URL, or the raw S3 key until ApiClient converts it
+  profilePicUrl?: string | null;
+  hideProfile?: boolean;
+  memberNumber?: string;
+  savedArticleIds: number[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// savedArticles may hold article objects, numeric IDs or numeric strings
+const savedArticleRefSchema: Schema<number> = (value, path) =>
+  isRecord(value) ? numericId(value.id, `${path}.id`) : numericId(value, path);
+
+const MEMBER_NUMBER_KEYS = ['userNumber', 'memberNumber', 'user_number', 'member_number'];
+
+/**
+ * The profile endpoint has returned the profile flat, under `profile`, and
+ * nested under `profile.profile`; all three are accepted. The member number
+ * has also been sent beside a nested profile or in `userInfo`, so those are
+ * read when the inner profile lacks it.
+ */
+export const profileSchema: Schema<Profile> = (value, path) => {
+  if (!isRecord(value)) throw mismatch('object', value, path);
+  if (isRecord(value.profile)) {
+    const profile = profileSchema(value.profile, `${path}.profile`);
+    const memberNumber =
+      profile.memberNumber ??
+      (isRecord(value.userInfo)
+        ? alias(value.userInfo, MEMBER_NUMBER_KEYS, stringId, `${path}.userInfo`)
+        : undefined) ??
+      alias(value, MEMBER_NUMBER_KEYS, stringId, path);
+    return { ...profile, memberNumber };
+  }
+
+  const savedArticles = value.savedArticles;
+  return {
+    email: optional(string)(value.email, `${path}.email`),
+    username: optional(string)(value.username, `${path}.username`),
+    plan: optional(string)(value.plan, `${path}.plan`),
+    isPremium: optional(boolean)(value.isPremium, `${path}.isPremium`),
+    description: alias(value, ['description', 'bio'], string, path),
+    profilePicUrl: alias(value, ['profilePicUrl', 'profilePicture', 'avatar'], string, path) ?? null,
+    hideProfile: optional(boolean)(value.hideProfile, `${path}.hideProfile`),
+    memberNumber: alias(value, MEMBER_NUMBER_KEYS, stringId, path),
+    savedArticleIds:
+      savedArticles === undefined || savedArticles === null
+        ? []
+        : array(savedArticleRefSchema)(savedArticles, `${path}.savedArticles`),
+    createdAt: optional(string)(value.createdAt, `${path}.createdAt`),
+    updatedAt: optional(string)(value.updatedAt, `${path}.updatedAt`),
+  };
+};
+
+export interface BlockedUser {
+  userId: string;
+  username?: string;
+  blockedAt?: string;
+}
+
+export const blockedUserSchema = object<BlockedUser>({
+  userId: string,
+  username: optional(string),
+  blockedAt: optional(string),
+});
+
+export interface UserInfo {
+  userId: string;
+  email?: string;
+  username?: string;
+  plan?: string;
+  memberNumber?: string;
+}
+
+const userInfoFieldsSchema = object<Omit<UserInfo, 'memberNumber'>>({
+  userId: string,
+  email: optional(string),
+  username: optional(string),
+  plan: optional(string),
+});
+
+export const userInfoSchema: Schema<UserInfo> = (value, path) => {
+  const userInfo = userInfoFieldsSchema(value, path);
+  return { ...userInfo, memberNumber: alias(userInfo, MEMBER_NUMBER_KEYS, stringId, path) };
+};
+
+// ========== NOTIFICATIONS ==========
+
+// 'daily': the daily article; 'afplus': new AF+ articles (AF+ members only)
+export const NOTIFICATION_TOPICS = ['daily', 'afplus'] as const;
+
+export type NotificationTopic = (typeof NOTIFICATION_TOPICS)[number];
+
+export type NotificationPreferences = Record<NotificationTopic, boolean>;
+
+export const notificationPreferencesSchema = object<NotificationPreferences>({
+  daily: boolean,
+  afplus: boolean,
+});
+
+// ========== SUBSCRIPTIONS ==========
+
+// Where a purchase was made; 'local' is the stand-in provider used in development
+export const BILLING_PLATFORMS = ['ios', 'android', 'local'] as const;
+
+export type BillingPlatform = (typeof BILLING_PLATFORMS)[number];
+
+// A store purchase, sent to the backend to validate before it's acknowledged
+export interface SubscriptionReceipt {
+  platform: BillingPlatform;
+  productId: string;
+  transactionId: string;
+  // StoreKit JWS on iOS, the purchase token on Android
+  purchaseToken: string;
+}
+
+export interface SubscriptionStatus {
+  // The plan after validation ('AF+' when the subscription is active)
+  plan: string;
+  active: boolean;
+  productId?: string;
+  expiresAt?: string | null;
+}
+
+export const subscriptionStatusSchema = object<SubscriptionStatus>({
+  plan: string,
+  active: boolean,
+  productId: optional(string),
+  expiresAt: optional(nullable(string)),
+});
+
+// ========== READING PROGRESS ==========
+
+export interface ReadingProgress {
+  articleId: number;
+  // Article title, so "Continue reading" can be shown without fetching the article
+  title?: string;
+  // Last page viewed in the reader: 0 is the title page, totalPages - 1 the comments
+  page: number;
+  totalPages: number;
+  // Set once the comments page is reached; never cleared
+  finished: boolean;
+  updatedAt: string;
+}
+
+export type ReadingProgressUpdate = Omit<ReadingProgress, 'articleId'>;
+
+export const readingProgressSchema = object<ReadingProgress>({
+  articleId: numericId,
+  title: optional(string),
+  page: number,
+  totalPages: number,
+  finished: boolean,
+  updatedAt: string,
+});
+
+// ========== STATS ==========
+
+// One visit to an article in the reader, sent when the reader is left
+export interface ReadSession {
+  articleId: number;
+  startedAt: string;
+  endedAt: string;
+  // Time spent reading, excluding time with the app in the background
+  durationMs: number;
+  totalPages: number;
+  // Time on each page viewed, in the order first viewed
+  pages: { page: number; durationMs: number }[];
+  // Furthest page reached as a share of the article, from 0 to 1
+  completion: number;
+  // The comments page was reached
+  completed: boolean;
+}
+
+export interface DailyReading {
+  // Calendar day (YYYY-MM-DD) in the user's time zone
+  date: string;
+  readingTimeMs: number;
+}
+
+export const dailyReadingSchema = object<DailyReading>({
+  date: string,
+  readingTimeMs: number,
+});
+
+// One day of the reading-streak calendar; days without activity are omitted
+export interface ReadingActivityDay {
+  // Calendar day (YYYY-MM-DD) in the user's time zone
+  date: string;
+  articlesRead: number;
+  readingTimeMs: number;
+  // A streak freeze covered this day instead of reading
+  frozen: boolean;
+}
+
+export const readingActivityDaySchema: Schema<ReadingActivityDay> = (value, path) => {
+  if (!isRecord(value)) throw mismatch('object', value, path);
+  return {
+    date: string(value.date, `${path}.date`),
+    articlesRead: optional(number)(value.articlesRead, `${path}.articlesRead`) ?? 0,
+    readingTimeMs: optional(number)(value.readingTimeMs, `${path}.readingTimeMs`) ?? 0,
+    frozen: optional(boolean)(value.frozen, `${path}.frozen`) ?? false,
+  };
+};
+
+// Something the backend records once, with when it happened. Known types:
+// 'first_comment' and 'afplus_started' (start of the current AF+ membership).
+// Unknown types are kept so newer backends don't fail validation.
+export interface StatsEvent {
+  type: string;
+  at: string;
+}
+
+export const statsEventSchema = object<StatsEvent>({
+  type: string,
+  at: string,
+});
+
+export interface ProfileStats {
+  // Total UNIQUE articles read (size of the server-side articlesReadSet)
+  articlesRead: number;
+  // Same value as articlesRead; kept for screens that read the explicit count
+  articlesReadCount: number;
+  commentsPosted: number;
+  streak: number;
+  // Timestamp of the last NEW unique article that counted toward the streak
+  streakLastReadAt?: string | null;
+  // Convenience timestamps for UI
+  lastActivityDate?: string | null;
+  lastViewedAt?: string | null;
+  updatedAt?: string | null;
+  longestStreak?: number | null;
+  // Streak freezes available; the backend spends one to cover a missed day
+  streakFreezes?: number | null;
+  // From read sessions; absent on backends that don't track them
+  totalReadingTimeMs?: number | null;
+  // Mean furthest-page share (0 to 1) across articles read
+  averageCompletion?: number | null;
+  // The last 7 days, oldest first
+  weeklyReading?: DailyReading[];
+  // Feeds the achievements (see lib/achievements)
+  events?: StatsEvent[];
+}
+
+export const profileStatsSchema: Schema<ProfileStats> = (value, path) => {
+  if (!isRecord(value)) throw mismatch('object', value, path);
+
+  const articlesRead = alias(value, ['articlesReadCount', 'uniqueArticlesRead', 'articlesRead'], number, path);
+  if (articlesRead === undefined) {
+    throw mismatch('number', undefined, `${path}.articlesReadCount`);
+  }
+
+  const lastViewedAt = optional(string)(value.lastViewedAt, `${path}.lastViewedAt`) ?? null;
+  return {
+    articlesRead,
+    articlesReadCount: articlesRead,
+    commentsPosted: number(value.commentsPosted, `${path}.commentsPosted`),
+    streak: number(value.streak, `${path}.streak`),
+    streakLastReadAt: optional(string)(value.streakLastReadAt, `${path}.streakLastReadAt`) ?? null,
+    lastActivityDate: optional(string)(value.lastActivityDate, `${path}.lastActivityDate`) ?? lastViewedAt,
+    lastViewedAt,
+    updatedAt: optional(string)(value.updatedAt, `${path}.updatedAt`) ?? null,
+    longestStreak: optional(number)(value.longestStreak, `${path}.longestStreak`) ?? null,
+    streakFreezes: optional(number)(value.streakFreezes, `${path}.streakFreezes`) ?? null,
+    totalReadingTimeMs: optional(number)(value.totalReadingTimeMs, `${path}.totalReadingTimeMs`) ?? null,
+    averageCompletion: optional(number)(value.averageCompletion, `${path}.averageCompletion`) ?? null,
+    weeklyReading: optional(array(dailyReadingSchema))(value.weeklyReading, `${path}.weeklyReading`),
+    events: optional(array(statsEventSchema))(value.events, `${path}.events`),
+  };
+};
+
+// A member's profile as other members see it. Private profiles (hideProfile)
+// only carry the identity fields: no bio, member number or stats.
+export interface PublicProfile extends PublicUser {
+  memberNumber?: string;
+  hideProfile?: boolean;
+  stats?: ProfileStats;
+}
+
+export const publicProfileSchema: Schema<PublicProfile> = (value, path) => {
+  if (!isRecord(value)) throw mismatch('object', value, path);
+  if (isRecord(value.profile)) {
+    return publicProfileSchema(value.profile, `${path}.profile`);
+  }
+
+  return {
+    userId: string(value.userId, `${path}.userId`),
+    username: string(value.username, `${path}.username`),
+    name: optional(string)(value.name, `${path}.name`),
+    avatar: alias(value, ['avatar', 'profilePicUrl'], nullable(string), path),
+    description: alias(value, ['description', 'bio'], string, path),
+    memberNumber: alias(value, MEMBER_NUMBER_KEYS, stringId, path),
+    hideProfile: optional(boolean)(value.hideProfile, `${path}.hideProfile`),
+    stats: value.stats === undefined || value.stats === null ? undefined : profileStatsSchema(value.stats, `${path}.stats`),
+    createdAt: optional(string)(value.createdAt, `${path}.createdAt`),
+    updatedAt: optional(string)(value.updatedAt, `${path}.updatedAt`),
+  };
+};
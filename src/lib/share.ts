@@ -0,0 +1,76 @@
+/**
+ * Article Sharing
+ *
+ * Opens the native share sheet for an article with its canonical web URL
+ * (https://athleticfinance.com/articles/:slug, which also opens the app, see
+ * deepLinks), the title and a short excerpt of the body. The website renders
+ * the link preview from the article page. AF+ articles are shared as teaser
+ * links: no body text, and the URL asks the website for the public teaser.
+ * Completed shares are reported to the backend for analytics.
+ */
+
+import { Platform, Share } from 'react-native';
+import { apiClient } from './api';
+import { logger } from './logger';
+import { WEB_HOST } from './deepLinks';
+import type { Article, LexicalContent } from './schema';
+
+const EXCERPT_LENGTH = 160;
+
+export type ShareableArticle = Pick<Article, 'id' | 'title' | 'slug'> & {
+  content?: LexicalContent;
+  tier?: Article['tier'];
+};
+
+export const getArticleUrl = (slug: string, { teaser = false } = {}) =>
+  `https://${WEB_HOST}/articles/${encodeURIComponent(slug)}${teaser ? '?teaser=1' : ''}`;
+
+const nodeText = (node: any): string => {
+  if (typeof node?.text === 'string') return node.text;
+  return Array.isArray(node?.children) ? node.children.map(nodeText).join('') : '';
+};
+
+// First paragraphs of the body as plain text, cut at a word boundary
+export const getArticleExcerpt = (content: LexicalContent | undefined, maxLength = EXCERPT_LENGTH): string => {
+  const text = (content?.root?.children ?? [])
+    .filter((node) => node?.type === 'paragraph')
+    .map(nodeText)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`;
+};
+
+/**
+ * Open the share sheet for an article. Resolves to true when the user
+ * completed a share (Android can't tell, so opening the sheet counts there).
+ */
+export const shareArticle = async (article: ShareableArticle): Promise<boolean> => {
+  const teaser = article.tier === 'AF+';
+  const url = getArticleUrl(article.slug, { teaser });
+  const excerpt = teaser ? 'An AF+ article on Athletic Finance' : getArticleExcerpt(article.content);
+  const text = excerpt ? `${article.title}\n\n${excerpt}` : article.title;
+
+  try {
+    // iOS builds the rich preview from `url`; Android only shares `message`
+    const result = await Share.share(
+      Platform.OS === 'ios' ? { message: text, url } : { message: `${text}\n\n${url}`, title: article.title },
+      { subject: article.title, dialogTitle: 'Share article' }
+    );
+    if (result.action !== Share.sharedAction) return false;
+
+    apiClient.recordArticleShare(article.id, {
+      platform: Platform.OS,
+      activityType: result.activityType ?? undefined,
+      teaser,
+    });
+    return true;
+  } catch (error: any) {
+    logger.error('[Share] Failed to share article:', error?.message || error);
+    return false;
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Store Billing
+ *
+ * The App Store and Google Play through expo-iap. Purchase results arrive as
+ * events: an update for a product purchase() is waiting on settles it, and
+ * any other update (an approved Ask to Buy, a payment that cleared later, a
+ * transaction re-delivered on launch) goes to the purchase handler. Google
+ * Play needs the offer token of a subscription's base plan to buy it; tokens
+ * are kept from the last product fetch.
+ */
+
+import { Platform } from 'react-native';
+import {
+  ErrorCode,
+  fetchProducts,
+  finishTransaction,
+  getAvailablePurchases,
+  getPendingTransactionsIOS,
+  initConnection,
+  purchaseErrorListener,
+  purchaseUpdatedListener,
+  requestPurchase,
+  type Purchase,
+} from 'expo-iap';
+import type { BillingProduct, BillingProvider, BillingPurchase, PurchaseOutcome } from './billing';
+
+let connection: Promise<boolean> | null = null;
+const offerTokens = new Map<string, string>();
+// The store's own purchase objects, which finishTransaction() needs back
+const storePurchases = new Map<string, Purchase>();
+// purchase() calls waiting on the store, by product
+const waiting = new Map<string, { resolve: (outcome: PurchaseOutcome) => void; reject: (error: Error) => void }>();
+let purchaseHandler: ((purchase: BillingPurchase) => void) | null = null;
+let listening = false;
+
+const toBillingPurchase = (purchase: Purchase): BillingPurchase | null => {
+  if (!purchase.purchaseToken) return null;
+  const transactionId = purchase.transactionId ?? purchase.id;
+  storePurchases.set(transactionId, purchase);
+  return {
+    platform: Platform.OS === 'ios' ? 'ios' : 'android',
+    productId: purchase.productId,
+    transactionId,
+    purchaseToken: purchase.purchaseToken,
+  };
+};
+
+const settle = (productId: string) => {
+  const waiter = waiting.get(productId);
+  waiting.delete(productId);
+  return waiter;
+};
+
+// Registered once for the life of the app, so no update is missed between purchases
+const listen = () => {
+  if (listening) return;
+  listening = true;
+
+  purchaseUpdatedListener((purchase) => {
+    if (purchase.purchaseState === 'pending' || purchase.purchaseState === 'deferred') {
+      settle(purchase.productId)?.resolve({ status: 'pending' });
+      return;
+    }
+    const billingPurchase = toBillingPurchase(purchase);
+    const waiter = settle(purchase.productId);
+    if (waiter) {
+      if (billingPurchase) {
+        waiter.resolve({ status: 'purchased', purchase: billingPurchase });
+      } else {
+        waiter.reject(new Error('The store returned a purchase without a token'));
+      }
+    } else if (billingPurchase) {
+      purchaseHandler?.(billingPurchase);
+    }
+  });
+
+  purchaseErrorListener((error) => {
+    // Errors without a product can only belong to the purchase in progress
+    const productId = error.productId ?? (waiting.size === 1 ? [...waiting.keys()][0] : null);
+    const waiter = productId ? settle(productId) : undefined;
+    if (!waiter) return;
+    if (error.code === ErrorCode.UserCancelled) {
+      waiter.resolve({ status: 'cancelled' });
+    } else {
+      waiter.reject(new Error(error.message || 'The purchase could not be completed'));
+    }
+  });
+};
+
+export const storeBillingProvider: BillingProvider = {
+  platform: Platform.OS === 'ios' ? 'ios' : 'android',
+
+  connect: async () => {
+    listen();
+    if (!connection) {
+      connection = initConnection().catch((error) => {
+        connection = null;
+        throw error;
+      });
+    }
+    await connection;
+  },
+
+  getProducts: async (productIds) => {
+    const products = (await fetchProducts({ skus: productIds, type: 'subs' })) ?? [];
+    return products.map((product): BillingProduct => {
+      if ('subscriptionOfferDetailsAndroid' in product) {
+        const offerToken = product.subscriptionOfferDetailsAndroid?.[0]?.offerToken;
+        if (offerToken) offerTokens.set(product.id, offerToken);
+      }
+      return {
+        productId: product.id,
+        title: product.displayName || product.title,
+        description: product.description,
+        displayPrice: product.displayPrice,
+      };
+    });
+  },
+
+  purchase: (productId) =>
+    new Promise<PurchaseOutcome>((resolve, reject) => {
+      if (waiting.has(productId)) {
+        reject(new Error('A purchase is already in progress'));
+        return;
+      }
+      waiting.set(productId, { resolve, reject });
+
+      const offerToken = offerTokens.get(productId);
+      requestPurchase({
+        type: 'subs',
+        request: {
+          ios: { sku: productId },
+          android: {
+            skus: [productId],
+            subscriptionOffers: offerToken ? [{ sku: productId, offerToken }] : null,
+          },
+        },
+      }).catch((error) => settle(productId)?.reject(error));
+    }),
+
+  getPurchases: async () => {
+    const purchases = await getAvailablePurchases();
+    return purchases
+      .map(toBillingPurchase)
+      .filter((purchase): purchase is BillingPurchase => !!purchase);
+  },
+
+  getUnfinishedPurchases: async () => {
+    const purchases: Purchase[] =
+      Platform.OS === 'ios'
+        ? await getPendingTransactionsIOS()
+        : (await getAvailablePurchases()).filter(
+            (purchase) => 'isAcknowledgedAndroid' in purchase && purchase.isAcknowledgedAndroid === false
+          );
+    return purchases
+      .filter((purchase) => purchase.purchaseState === 'purchased')
+      .map(toBillingPurchase)
+      .filter((purchase): purchase is BillingPurchase => !!purchase);
+  },
+
+  setPurchaseHandler: (handler) => {
+    purchaseHandler = handler;
+  },
+
+  finish: async (purchase) => {
+    const storePurchase = storePurchases.get(purchase.transactionId);
+    if (!storePurchase) return;
+    await finishTransaction({ purchase: storePurchase, isConsumable: false });
+    storePurchases.delete(purchase.transactionId);
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * Streak Reminders
+ *
+ * A local "streak at risk" notification for the evening of the first day
+ * without reading, scheduled from the stats summary's streakLastReadAt. The
+ * backend spends streak freezes on missed days before it reports the summary,
+ * so a streak above zero always means reading today (or tomorrow, if today is
+ * done) keeps it going. Only one reminder is pending at a time; its ID is kept
+ * on the device so it can be replaced, or cancelled on logout. Nothing is
+ * scheduled unless notification permission was granted before.
+ */
+
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { apiClient } from './api';
+import { store, get, remove } from './secureStorage';
+import { logger } from './logger';
+import type { ProfileStats } from './schema';
+
+const REMINDER_ID_KEY = 'streak_reminder_id';
+const ANDROID_CHANNEL_ID = 'streaks';
+// Local time the reminder goes off
+const REMINDER_HOUR = 20;
+
+type StreakStats = Pick<ProfileStats, 'streak' | 'streakLastReadAt' | 'streakFreezes'>;
+
+// Scheduling is async; run one change at a time so replacements can't interleave
+let queue: Promise<void> = Promise.resolve();
+const enqueue = (task: () => Promise<void>) => {
+  queue = queue.then(task).catch((error) => {
+    logger.warn('[StreakReminders] Failed to update reminder:', error?.message || error);
+  });
+  return queue;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const hasReadToday = (streakLastReadAt: string | null | undefined, now = new Date()): boolean =>
+  !!streakLastReadAt && startOfDay(new Date(streakLastReadAt)).getTime() === startOfDay(now).getTime();
+
+// The streak is still going but nothing has been read today
+export const isStreakAtRisk = (stats: StreakStats, now = new Date()): boolean =>
+  stats.streak > 0 && !hasReadToday(stats.streakLastReadAt, now);
+
+const cancelPending = async () => {
+  const id = await get(REMINDER_ID_KEY);
+  if (!id) return;
+  await Notifications.cancelScheduledNotificationAsync(id);
+  await remove(REMINDER_ID_KEY);
+};
+
+/**
+ * Replace the pending reminder with one for the evening the streak is next at
+ * risk: today if nothing has been read yet, otherwise tomorrow. Never throws.
+ */
+export const scheduleStreakReminder = (stats: StreakStats): Promise<void> =>
+  enqueue(async () => {
+    await cancelPending();
+    if (stats.streak <= 0 || !stats.streakLastReadAt) return;
+
+    const now = new Date();
+    const day = startOfDay(now);
+    if (hasReadToday(stats.streakLastReadAt, now)) {
+      day.setDate(day.getDate() + 1);
+    }
+    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate(), REMINDER_HOUR);
+    if (date.getTime() <= now.getTime()) return;
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Reading streak',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const id = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Keep your ${stats.streak}-day streak going`,
+        body: stats.streakFreezes
+          ? 'Read an article today. If you miss it, a streak freeze will cover the day.'
+          : "Read an article today so your streak doesn't reset.",
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId: ANDROID_CHANNEL_ID },
+    });
+    await store(REMINDER_ID_KEY, id);
+  });
+
+// Fetch the latest streak and reschedule (on sign-in and after reading). Never throws.
+export const refreshStreakReminder = async (): Promise<void> => {
+  const result = await apiClient.getProfileStatsSummary();
+  if (result.success && result.stats) {
+    await scheduleStreakReminder(result.stats);
+  }
+};
+
+// Called on logout; never throws
+export const cancelStreakReminder = (): Promise<void> => enqueue(cancelPending);
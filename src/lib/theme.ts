@@ -0,0 +1,92 @@
+/**
+ * Theme
+ *
+ * Semantic color tokens for the light and dark palettes. Components get the
+ * active palette from useTheme / useThemedStyles (contexts/ThemeContext)
+ * rather than hard-coding colors, so both palettes must define every token.
+ */
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+export type ColorScheme = 'light' | 'dark';
+
+export const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system'];
+
+export interface ThemeColors {
+  // Screen and header background
+  background: string;
+  // Cards and grouped rows
+  surface: string;
+  // Icon tiles, chips, selected rows
+  surfaceMuted: string;
+  // Inputs, segmented controls and image placeholders
+  fill: string;
+  text: string;
+  textSecondary: string;
+  // Hints, timestamps, placeholders and inactive icons
+  textMuted: string;
+  border: string;
+  // Filled buttons and selected controls, with their content color
+  primary: string;
+  onPrimary: string;
+  accent: string;
+  accentSurface: string;
+  success: string;
+  danger: string;
+  dangerSurface: string;
+  // AF+ highlights
+  premium: string;
+  premiumSurface: string;
+  premiumText: string;
+  link: string;
+  // Modal backdrops
+  overlay: string;
+}
+
+export const lightColors: ThemeColors = {
+  background: '#fff',
+  surface: '#F9FAFB',
+  surfaceMuted: '#F3F4F6',
+  fill: '#F5F5F5',
+  text: '#000',
+  textSecondary: '#666',
+  textMuted: '#999',
+  border: '#E5E7EB',
+  primary: '#000',
+  onPrimary: '#fff',
+  accent: '#6366F1',
+  accentSurface: '#EEF2FF',
+  success: '#10B981',
+  danger: '#EF4444',
+  dangerSurface: '#FEF2F2',
+  premium: '#F59E0B',
+  premiumSurface: '#FEF3C7',
+  premiumText: '#B45309',
+  link: '#2563EB',
+  overlay: 'rgba(0, 0, 0, 0.5)',
+};
+
+export const darkColors: ThemeColors = {
+  background: '#000',
+  surface: '#161618',
+  surfaceMuted: '#232326',
+  fill: '#1C1C1E',
+  text: '#fff',
+  textSecondary: '#A1A1AA',
+  textMuted: '#71717A',
+  border: '#2C2C2E',
+  primary: '#fff',
+  onPrimary: '#000',
+  accent: '#818CF8',
+  accentSurface: '#1E1B4B',
+  success: '#34D399',
+  danger: '#F87171',
+  dangerSurface: '#2A1215',
+  premium: '#FBBF24',
+  premiumSurface: '#332508',
+  premiumText: '#FCD34D',
+  link: '#60A5FA',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+};
+
+export const getThemeColors = (scheme: ColorScheme): ThemeColors =>
+  scheme === 'dark' ? darkColors : lightColors;
@@ -1,8 +1,16 @@
-import React, { useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useMemo, useRef } from 'react';
+import {
+  NavigationContainer,
+  DarkTheme,
+  DefaultTheme,
+  createNavigationContainerRef,
+  getStateFromPath,
+  type LinkingOptions,
+} from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
 import AuthScreen from '../screens/AuthScreen';
 import SignInScreen from '../screens/SignInScreen';
 import VerificationScreen from '../screens/VerificationScreen';
@@ -13,9 +21,16 @@ import ProfileScreen from '../screens/ProfileScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import ProfileEditScreen from '../screens/ProfileEditScreen';
 import ArticleDetailScreen from '../screens/ArticleDetailScreen';
+import ArchiveScreen from '../screens/ArchiveScreen';
+import SearchScreen from '../screens/SearchScreen';
+import UserProfileScreen from '../screens/UserProfileScreen';
 import { View, Text, StyleSheet, Image } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
 import LoadingScreen from '../components/LoadingScreen';
+import { subscribeToNotificationTaps } from '../lib/pushNotifications';
+import { DEEP_LINK_PREFIXES, parseDeepLinkPath, setPendingDeepLink, takePendingDeepLink } from '../lib/deepLinks';
+import type { Article, ArticleTier } from '../lib/schema';
 
 export type RootStackParamList = {
   Auth: undefined;
@@ -29,20 +44,18 @@ export type RootStackParamList = {
   MainTabs: undefined;
   Settings: undefined;
   ProfileEdit: undefined;
-  ArticleDetail: {
-    article: {
-      id: number;
-      title: string;
-      hero_image_id: number | null;
-      content: {
-        root: {
-          children: any[];
-        };
-      };
-      published_at: string;
-      slug: string;
-    };
-  };
+  // Opened from a list with the article at hand, or from a link / notification
+  // by slug or ID, in which case the screen loads it
+  ArticleDetail:
+    | { article: Article }
+    | { slug: string }
+    | { articleId: number };
+  Archive: undefined;
+  Search: { tier?: ArticleTier } | undefined;
+  // Deep links only know the username
+  UserProfile:
+    | { userId: string; username?: string }
+    | { username: string };
 };
 
 export type MainTabParamList = {
@@ -52,21 +65,24 @@ export type MainTabParamList = {
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
+// Lets notification taps and resumed deep links navigate from outside the screen tree
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
 function MainTabNavigator() {
+  const { colors } = useTheme();
   return (
     <Tab.Navigator
       initialRouteName="Home"
       screenOptions={{
         headerShown: false,
-        tabBarActiveTintColor: '#000',
-        tabBarInactiveTintColor: '#999',
+        tabBarActiveTintColor: colors.text,
+        tabBarInactiveTintColor: colors.textMuted,
         tabBarShowLabel: false, // Remove labels from icons
         tabBarStyle: {
           borderTopWidth: 1,
-          borderTopColor: '#E5E5E5',
-          backgroundColor: '#fff',
+          borderTopColor: colors.border,
+          backgroundColor: colors.background,
           paddingTop: 12,
           paddingBottom: 12,
           height: 80,
@@ -111,6 +127,51 @@ function MainTabNavigator() {
 
 export default function AppNavigator() {
   const { user, loading } = useAuth();
+  const { colors, isDark } = useTheme();
+  // Read by the linking config, which is created once
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  const linking = useMemo<LinkingOptions<RootStackParamList>>(
+    () => ({
+      prefixes: DEEP_LINK_PREFIXES,
+      config: {
+        // Keep the tabs underneath so back works from a linked screen
+        initialRouteName: 'MainTabs',
+        screens: {
+          ArticleDetail: 'articles/:slug',
+          UserProfile: 'members/:username',
+        },
+      },
+      getStateFromPath: (path, options) => {
+        if (userRef.current) {
+          return getStateFromPath(path, options);
+        }
+        // Signed out: send the user to sign in and resume the link afterwards
+        const target = parseDeepLinkPath(path);
+        if (!target) return undefined;
+        setPendingDeepLink(target);
+        return { routes: [{ name: 'Auth' }, { name: 'SignIn' }] };
+      },
+    }),
+    []
+  );
+
+  // Backgrounds React Navigation paints itself (e.g. behind screen transitions)
+  const navigationTheme = useMemo(() => {
+    const base = isDark ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: colors.text,
+        background: colors.background,
+        card: colors.background,
+        text: colors.text,
+        border: colors.border,
+      },
+    };
+  }, [isDark, colors]);
 
   // Log navigation state changes
   useEffect(() => {
@@ -123,6 +184,27 @@ export default function AppNavigator() {
     }
   }, [user, loading]);
 
+  // Open the article behind a tapped notification (signed-in users only)
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return subscribeToNotificationTaps((articleId) => {
+      if (navigationRef.isReady()) {
+        navigationRef.navigate('ArticleDetail', { articleId });
+      }
+    });
+  }, [user?.id]);
+
+  // Resume a link that was opened while signed out
+  useEffect(() => {
+    if (!user?.id || !navigationRef.isReady()) return;
+
+    const target = takePendingDeepLink();
+    if (target) {
+      navigationRef.reset({ index: 1, routes: [{ name: 'MainTabs' }, target] });
+    }
+  }, [user?.id]);
+
   // Show loading while checking auth status
   if (loading) {
     console.log('[APP_NAVIGATOR] Still loading auth status...');
@@ -138,7 +220,8 @@ export default function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} linking={linking} theme={navigationTheme}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
       <Stack.Navigator
         screenOptions={{
           headerShown: false,
@@ -187,6 +270,30 @@ export default function AppNavigator() {
                 animation: 'slide_from_right',
               }}
             />
+            <Stack.Screen 
+              name="Archive" 
+              component={ArchiveScreen}
+              options={{
+                headerShown: false,
+                animation: 'slide_from_right',
+              }}
+            />
+            <Stack.Screen 
+              name="Search" 
+              component={SearchScreen}
+              options={{
+                headerShown: false,
+                animation: 'fade',
+              }}
+            />
+            <Stack.Screen 
+              name="UserProfile" 
+              component={UserProfileScreen}
+              options={{
+                headerShown: false,
+                animation: 'slide_from_right',
+              }}
+            />
           </>
         ) : (
           // User is not authenticated
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,19 +6,23 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
-import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Layout from '../components/Layout';
-import type { RootStackParamList } from '../navigation/AppNavigator';
+import AFPlusPurchaseModal from '../components/AFPlusPurchaseModal';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
 
-type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+interface AFPlusLockedScreenProps {
+  // Called once the member has subscribed from this screen
+  onSubscribed?: () => void;
+}
 
-export default function AFPlusLockedScreen() {
-  const navigation = useNavigation<NavigationProp>();
+export default function AFPlusLockedScreen({ onSubscribed }: AFPlusLockedScreenProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [purchaseModalVisible, setPurchaseModalVisible] = useState(false);
 
   const handleUpgrade = () => {
-    // Navigate to Settings where user can upgrade
-    navigation.navigate('Settings');
+    setPurchaseModalVisible(true);
   };
 
   return (
@@ -28,7 +32,7 @@ export default function AFPlusLockedScreen() {
           {/* Icon Container */}
           <View style={styles.iconContainer}>
             <View style={styles.iconCircle}>
-              <MaterialIcons name="lock" size={64} color="#F59E0B" />
+              <MaterialIcons name="lock" size={64} color={colors.premium} />
             </View>
           </View>
 
@@ -43,19 +47,19 @@ export default function AFPlusLockedScreen() {
           {/* Features List */}
           <View style={styles.featuresContainer}>
             <View style={styles.featureRow}>
-              <MaterialIcons name="star" size={24} color="#F59E0B" />
+              <MaterialIcons name="star" size={24} color={colors.premium} />
               <Text style={styles.featureText}>Exclusive premium articles</Text>
             </View>
             <View style={styles.featureRow}>
-              <MaterialIcons name="star" size={24} color="#F59E0B" />
+              <MaterialIcons name="star" size={24} color={colors.premium} />
               <Text style={styles.featureText}>Advanced analytics & insights</Text>
             </View>
             <View style={styles.featureRow}>
-              <MaterialIcons name="star" size={24} color="#F59E0B" />
+              <MaterialIcons name="star" size={24} color={colors.premium} />
               <Text style={styles.featureText}>Priority support</Text>
             </View>
             <View style={styles.featureRow}>
-              <MaterialIcons name="star" size={24} color="#F59E0B" />
+              <MaterialIcons name="star" size={24} color={colors.premium} />
               <Text style={styles.featureText}>Early access to new features</Text>
             </View>
           </View>
@@ -71,14 +75,20 @@ export default function AFPlusLockedScreen() {
           </TouchableOpacity>
         </View>
       </View>
+
+      <AFPlusPurchaseModal
+        visible={purchaseModalVisible}
+        onClose={() => setPurchaseModalVisible(false)}
+        onSubscribed={onSubscribed}
+      />
     </Layout>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   content: {
     flex: 1,
@@ -94,23 +104,23 @@ const styles = StyleSheet.create({
     width: 120,
     height: 120,
     borderRadius: 60,
-    backgroundColor: '#FEF3C7',
+    backgroundColor: colors.premiumSurface,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 3,
-    borderColor: '#FDE68A',
+    borderColor: colors.premium,
   },
   title: {
     fontSize: 32,
     fontWeight: '700',
-    color: '#000',
+    color: colors.text,
     marginBottom: 16,
     textAlign: 'center',
     letterSpacing: 0.5,
   },
   description: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 40,
     lineHeight: 24,
@@ -129,7 +139,7 @@ const styles = StyleSheet.create({
   },
   featureText: {
     fontSize: 16,
-    color: '#374151',
+    color: colors.textSecondary,
     marginLeft: 12,
     flex: 1,
   },
@@ -137,7 +147,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#F59E0B',
+    backgroundColor: colors.premium,
     paddingVertical: 16,
     paddingHorizontal: 32,
     borderRadius: 12,
@@ -163,7 +173,7 @@ const styles = StyleSheet.create({
   },
   secondaryText: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     textAlign: 'center',
     marginTop: 32,
     paddingHorizontal: 16,
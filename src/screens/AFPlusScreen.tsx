@@ -1,190 +1,162 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
   TouchableOpacity,
-  TextInput,
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import Layout from '../components/Layout';
-import ArticleCard from '../components/ArticleCard';
 import { apiClient } from '../lib/api';
 import { isAFPlusMember } from '../lib/planUtils';
+import { useArticleList } from '../hooks/useArticleList';
 import AFPlusLockedScreen from './AFPlusLockedScreen';
-import type { RootStackParamList } from '../navigation/AppNavigator';
+import type { Article } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Article {
-  id: number;
-  title: string;
-  excerpt: string;
-  author: string;
-  date: Date;
-  readTime: string;
-  isPremium: boolean;
-  image?: string;
-  commentCount?: number;
-  topComment?: {
-    author: string;
-    isPremium: boolean;
-    text: string;
-  };
-}
+const PAGE_SIZE = 10;
 
 export default function AFPlusScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { user, savedArticleIds } = useAuth();
   const navigation = useNavigation<NavigationProp>();
-  const { user } = useAuth();
+  const { renderArticle } = useArticleList(savedArticleIds);
   const [articles, setArticles] = useState<Article[]>([]);
-  const [loading, setLoading] = useState(false); // Start as false since there's no async work initially
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the backend rejects the token for premium content
+  const [forbidden, setForbidden] = useState(false);
+  // Each load gets its own controller so a refresh cancels the previous page
+  const requestRef = useRef<AbortController | null>(null);
 
-  // Check if user has AF+ plan - if not, show locked screen
-  // This check happens on every render to prevent manipulation
+  // The plan check only decides what to show; the backend enforces access
   const hasAFPlus = isAFPlusMember(user?.plan);
-  
-  // Always check plan before rendering - if not AF+, show locked screen
-  if (!hasAFPlus) {
-    return <AFPlusLockedScreen />;
-  }
 
-  useEffect(() => {
-    loadArticles();
-  }, []);
+  const loadArticles = useCallback(async (mode: 'initial' | 'refresh' | 'more', cursor?: string) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    if (mode === 'initial') setLoading(true);
+    if (mode === 'more') setLoadingMore(true);
 
-  const loadArticles = async () => {
     try {
-      // TODO: Replace with actual API call to fetch articles
-      // When implementing real API call, set loading state:
-      // setLoading(true);
-      // const data = await apiClient.getArticles();
-      // setArticles(data);
-      // setLoading(false);
-      
-      // For now, articles array will be empty (no mock data)
-      setArticles([]);
+      const result = await apiClient.getPremiumArticles({
+        cursor,
+        limit: PAGE_SIZE,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+
+      if (result.success && result.articles) {
+        const page = result.articles;
+        setArticles((prev) => (mode === 'more' ? [...prev, ...page] : page));
+        setNextCursor(result.hasMore ? result.nextCursor : undefined);
+        setError(null);
+        setForbidden(false);
+      } else if (result.forbidden) {
+        setForbidden(true);
+      } else {
+        setError(result.error || 'Failed to load articles');
+      }
     } catch (error) {
       console.error('Error loading articles:', error);
-      setLoading(false);
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  };
+  }, []);
+
+  // Load the first page on mount
+  useEffect(() => {
+    if (!hasAFPlus) return;
+    loadArticles('initial');
+  }, [hasAFPlus, loadArticles]);
+
+  // Cancel any in-flight request on unmount
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
 
   const onRefresh = useCallback(async () => {
     if (!user) return;
     
     try {
       setRefreshing(true);
-      // TODO: Replace with actual API call to fetch articles
-      // When implementing real API call:
-      // const data = await apiClient.getArticles();
-      // setArticles(data);
-      
-      // For now, just reload existing logic
-      await loadArticles();
+      await loadArticles('refresh');
     } catch (error) {
       console.error('Error refreshing articles:', error);
     } finally {
       setRefreshing(false);
     }
-  }, [user]);
-
-  // Filter articles based on premium status and search query - memoized for performance
-  const visibleArticles = useMemo(() => {
-    return articles.filter((article) => {
-      if (!article.isPremium) return true;
-      return user?.isPremium;
-    });
-  }, [articles, user?.isPremium]);
+  }, [user, loadArticles]);
 
-  const searchFilteredArticles = useMemo(() => {
-    if (!searchQuery) return visibleArticles;
-    const query = searchQuery.toLowerCase();
-    return visibleArticles.filter(
-      (article) =>
-        article.title.toLowerCase().includes(query) ||
-        article.excerpt.toLowerCase().includes(query)
-    );
-  }, [visibleArticles, searchQuery]);
+  const onEndReached = useCallback(() => {
+    if (!nextCursor || loading || loadingMore || refreshing) return;
+    loadArticles('more', nextCursor);
+  }, [nextCursor, loading, loadingMore, refreshing, loadArticles]);
 
-  // Non-premium users see limited articles - memoized for performance
-  const displayArticles = useMemo(() => {
-    return user?.isPremium
-      ? searchFilteredArticles
-      : searchFilteredArticles.slice(0, 7);
-  }, [searchFilteredArticles, user?.isPremium]);
-
-  const currentDate = displayArticles[0]?.date || new Date();
-
-  const handleArticlePress = useCallback((articleId: number) => {
-    // TODO: Navigate to article detail screen
-    console.log('Navigate to article:', articleId);
-  }, []);
+  // Always check plan before rendering - if not AF+, show locked screen
+  if (!hasAFPlus || forbidden) {
+    // The refreshed token carries the new plan, so premium articles load now
+    return <AFPlusLockedScreen onSubscribed={() => loadArticles('initial')} />;
+  }
 
-  const renderArticle = useCallback(({ item }: { item: Article }) => (
-    <ArticleCard {...item} onPress={() => handleArticlePress(item.id)} />
-  ), [handleArticlePress]);
+  const currentDate = articles[0]?.published_at ? new Date(articles[0].published_at) : new Date();
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
-      <MaterialIcons name="article" size={48} color="#999" />
-      <Text style={styles.emptyStateText}>No articles available</Text>
+      <MaterialIcons name={error ? 'error-outline' : 'article'} size={48} color={colors.textMuted} />
+      <Text style={styles.emptyStateText}>
+        {error ? 'Could not load articles' : 'No articles available'}
+      </Text>
       <Text style={styles.emptyStateSubtext}>
-        Check back later for new content
+        {error ? 'Please try again later' : 'Check back later for new content'}
       </Text>
     </View>
   );
 
+  const renderFooter = () =>
+    loadingMore ? (
+      <View style={styles.footerLoader}>
+        <ActivityIndicator size="small" color={colors.text} />
+      </View>
+    ) : null;
 
   return (
     <Layout
       date={currentDate}
       headerActions={
         <TouchableOpacity
-          onPress={() => setIsSearchOpen(!isSearchOpen)}
+          onPress={() => navigation.navigate('Search', { tier: 'AF+' })}
           style={styles.searchButton}
         >
-          <MaterialIcons
-            name={isSearchOpen ? 'close' : 'search'}
-            size={20}
-            color="#000"
-          />
+          <MaterialIcons name="search" size={20} color={colors.text} />
         </TouchableOpacity>
       }
     >
       <View style={styles.container}>
-        {isSearchOpen && (
-          <View style={styles.searchContainer}>
-            <MaterialIcons
-              name="search"
-              size={20}
-              color="#999"
-              style={styles.searchIcon}
-            />
-            <TextInput
-              style={styles.searchInput}
-              placeholder="Search articles..."
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-              autoFocus
-              placeholderTextColor="#999"
-            />
-          </View>
-        )}
-
         {loading ? (
           <View style={styles.loadingContainer}>
-            <ActivityIndicator size="large" color="#000" />
+            <ActivityIndicator size="large" color={colors.text} />
           </View>
-        ) : displayArticles.length === 0 ? (
+        ) : articles.length === 0 ? (
           <View style={styles.emptyContainer}>
             <View style={styles.emptyStateWrapper}>
               {renderEmptyState()}
@@ -192,7 +164,7 @@ export default function AFPlusScreen() {
           </View>
         ) : (
           <FlatList
-            data={displayArticles}
+            data={articles}
             renderItem={renderArticle}
             keyExtractor={(item) => item.id.toString()}
             contentContainerStyle={styles.listContent}
@@ -202,6 +174,9 @@ export default function AFPlusScreen() {
             initialNumToRender={5}
             maxToRenderPerBatch={5}
             windowSize={10}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={renderFooter}
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -215,31 +190,13 @@ export default function AFPlusScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
   },
   flatList: {
     flex: 1,
   },
-  searchContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#F5F5F5',
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    marginHorizontal: 16,
-    marginBottom: 16,
-    height: 40,
-  },
-  searchIcon: {
-    marginRight: 8,
-  },
-  searchInput: {
-    flex: 1,
-    fontSize: 16,
-    color: '#000',
-  },
   searchButton: {
     padding: 4,
   },
@@ -263,6 +220,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     width: '100%',
   },
+  footerLoader: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   emptyState: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -272,12 +233,12 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 16,
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 8,
     textAlign: 'center',
   },
@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import Layout from '../components/Layout';
+import MonthPickerModal from '../components/MonthPickerModal';
+import { apiClient } from '../lib/api';
+import { useArticleList } from '../hooks/useArticleList';
+import { groupArticlesByPeriod, type GroupingMode } from '../lib/articleGrouping';
+import type { Article } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const PAGE_SIZE = 20;
+
+export default function ArchiveScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const { savedArticleIds } = useAuth();
+  const { renderArticle } = useArticleList(savedArticleIds);
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<GroupingMode>('week');
+  // First day of the month jumped to; null means "start from the newest article"
+  const [jumpMonth, setJumpMonth] = useState<Date | null>(null);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  // Each load gets its own controller so jumping cancels the previous page
+  const requestRef = useRef<AbortController | null>(null);
+
+  const sections = useMemo(() => groupArticlesByPeriod(articles, grouping), [articles, grouping]);
+
+  const loadArticles = useCallback(async (mode: 'initial' | 'refresh' | 'more', cursor?: string) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    if (mode === 'initial') setLoading(true);
+    if (mode === 'more') setLoadingMore(true);
+
+    // Articles published before the start of the following month
+    const before = jumpMonth
+      ? new Date(jumpMonth.getFullYear(), jumpMonth.getMonth() + 1, 1).toISOString()
+      : undefined;
+
+    try {
+      const result = await apiClient.getArticleArchive({
+        cursor,
+        limit: PAGE_SIZE,
+        before,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+
+      if (result.success && result.articles) {
+        const page = result.articles;
+        setArticles((prev) => (mode === 'more' ? [...prev, ...page] : page));
+        setNextCursor(result.hasMore ? result.nextCursor : undefined);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load articles');
+      }
+    } catch (error) {
+      console.error('Error loading archive:', error);
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [jumpMonth]);
+
+  // Load the first page on mount and after every date jump
+  useEffect(() => {
+    loadArticles('initial');
+  }, [loadArticles]);
+
+  // Cancel any in-flight request on unmount
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
+
+  const onRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      await loadArticles('refresh');
+    } catch (error) {
+      console.error('Error refreshing archive:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadArticles]);
+
+  const onEndReached = useCallback(() => {
+    if (!nextCursor || loading || loadingMore || refreshing) return;
+    loadArticles('more', nextCursor);
+  }, [nextCursor, loading, loadingMore, refreshing, loadArticles]);
+
+  const handleSelectMonth = useCallback((monthStart: Date) => {
+    setIsPickerOpen(false);
+    setArticles([]);
+    setNextCursor(undefined);
+    setJumpMonth(monthStart);
+  }, []);
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const renderSectionHeader = ({ section }: { section: { title: string } }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionHeaderText}>{section.title}</Text>
+    </View>
+  );
+
+  const renderFooter = () =>
+    loadingMore ? (
+      <View style={styles.footerLoader}>
+        <ActivityIndicator size="small" color={colors.text} />
+      </View>
+    ) : null;
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <MaterialIcons name={error ? 'error-outline' : 'article'} size={48} color={colors.textMuted} />
+      <Text style={styles.emptyStateText}>
+        {error ? 'Could not load articles' : 'No articles found'}
+      </Text>
+      <Text style={styles.emptyStateSubtext}>
+        {error ? 'Please try again later' : 'Try jumping to a different month'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <Layout
+      leftHeaderActions={
+        <TouchableOpacity
+          onPress={handleBack}
+          style={styles.headerButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+      }
+      headerActions={
+        <TouchableOpacity
+          onPress={() => setIsPickerOpen(true)}
+          style={styles.headerButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <MaterialIcons name="calendar-today" size={20} color={colors.text} />
+        </TouchableOpacity>
+      }
+    >
+      <View style={styles.container}>
+        <View style={styles.toolbar}>
+          <View style={styles.segmented}>
+            {(['week', 'month'] as GroupingMode[]).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.segment, grouping === mode && styles.segmentActive]}
+                onPress={() => setGrouping(mode)}
+              >
+                <Text style={[styles.segmentText, grouping === mode && styles.segmentTextActive]}>
+                  {mode === 'week' ? 'Week' : 'Month'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {jumpMonth && (
+            <TouchableOpacity style={styles.jumpChip} onPress={() => setJumpMonth(null)}>
+              <Text style={styles.jumpChipText}>
+                {jumpMonth.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+              </Text>
+              <MaterialIcons name="close" size={14} color={colors.text} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.text} />
+          </View>
+        ) : articles.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            {renderEmptyState()}
+          </View>
+        ) : (
+          <SectionList
+            sections={sections}
+            renderItem={renderArticle}
+            renderSectionHeader={renderSectionHeader}
+            keyExtractor={(item) => item.id.toString()}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            stickySectionHeadersEnabled
+            initialNumToRender={8}
+            maxToRenderPerBatch={8}
+            windowSize={10}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={renderFooter}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+              />
+            }
+          />
+        )}
+      </View>
+
+      <MonthPickerModal
+        visible={isPickerOpen}
+        selected={jumpMonth}
+        onSelect={handleSelectMonth}
+        onClose={() => setIsPickerOpen(false)}
+      />
+    </Layout>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.fill,
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  segmentActive: {
+    backgroundColor: colors.background,
+  },
+  segmentText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+  jumpChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.fill,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  jumpChipText: {
+    fontSize: 13,
+    color: colors.text,
+    marginRight: 4,
+  },
+  sectionHeader: {
+    backgroundColor: colors.background,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionHeaderText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    width: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footerLoader: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    width: '100%',
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,50 +7,50 @@ import {
   TouchableOpacity,
   Dimensions,
   Animated,
+  ActivityIndicator,
   ScrollView,
   NativeScrollEvent,
   NativeSyntheticEvent,
+  LayoutChangeEvent,
+  useWindowDimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import NetInfo from '@react-native-community/netinfo';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import Layout from '../components/Layout';
 import ParagraphBlock from '../components/ParagraphBlock';
 import CommentSection from '../components/CommentSection';
-import { parseToParagraphBlocks, ParagraphBlock as ParagraphBlockType } from '../lib/paragraphParser';
+import OfflineBanner from '../components/OfflineBanner';
+import ReaderSettingsModal from '../components/ReaderSettingsModal';
+import PageMeasurer from '../components/PageMeasurer';
+import {
+  parseToParagraphBlocks,
+  parseToSections,
+  paginateSections,
+  ParagraphBlock as ParagraphBlockType,
+} from '../lib/paragraphParser';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { useReaderPreferences } from '../hooks/useReaderPreferences';
+import { useReadSession } from '../hooks/useReadSession';
+import { ARTICLE_PAGE_INSETS } from '../hooks/useArticleHtmlProps';
 import { apiClient } from '../lib/api';
+import { cacheArticle, getArticleCachedAt, getCachedArticle, getCachedArticleBySlug } from '../lib/articleCache';
+import { enqueueMutation, generateIdempotencyKey, isRetryableStatus } from '../lib/mutationQueue';
+import { shareArticle } from '../lib/share';
+import { getReaderTypography } from '../lib/readerPreferences';
+import { getReadingProgress, saveReadingProgress } from '../lib/readingProgress';
+import { refreshStreakReminder } from '../lib/streakReminders';
+import type { Article } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface MediaObject {
-  id: number;
-  url: string;
-  width?: number;
-  height?: number;
-  alt?: string | null;
-  filename?: string;
-}
-
-interface Article {
-  id: number;
-  title: string;
-  hero_image_id: MediaObject | number | null;
-  content: {
-    root: {
-      children: any[];
-    };
-  };
-  published_at: string;
-  slug: string;
-}
-
 interface ArticleDetailScreenProps {
   route: {
-    params: {
-      article: Article;
-    };
+    params: RootStackParamList['ArticleDetail'];
   };
 }
 
@@ -65,15 +65,109 @@ const formatMediaUrl = (url: string): string => {
   return `https://${url}`;
 };
 
+// Links and notifications only carry a slug or ID; load the article first
 export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const { params } = route;
+  const [article, setArticle] = useState<Article | null>('article' in params ? params.article : null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if ('article' in params) return;
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    setArticle(null);
+    setError(null);
+
+    (async () => {
+      const result =
+        'slug' in params
+          ? await apiClient.getArticleBySlug(params.slug, { signal })
+          : await apiClient.getArticleById(params.articleId, { signal });
+      if (signal.aborted) return;
+
+      if (result.success && result.article) {
+        setArticle(result.article);
+        return;
+      }
+
+      // Offline: fall back to the copy saved when the article was last opened
+      const code = result.apiError?.code;
+      if (code === 'network' || code === 'timeout') {
+        const cached =
+          'slug' in params
+            ? await getCachedArticleBySlug<Article>(params.slug)
+            : await getCachedArticle<Article>(params.articleId);
+        if (signal.aborted) return;
+        if (cached) {
+          setArticle(cached.article);
+          return;
+        }
+      }
+      setError(result.error || 'Failed to load article');
+    })();
+
+    return () => abortController.abort();
+  }, [params]);
+
+  if (article) {
+    return <ArticleReader article={article} />;
+  }
+
+  return (
+    <Layout
+      leftHeaderActions={
+        <TouchableOpacity
+          onPress={() => (navigation.canGoBack() ? navigation.goBack() : navigation.navigate('MainTabs'))}
+          style={styles.headerButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+      }
+    >
+      <View style={styles.centered}>
+        {error ? (
+          <>
+            <MaterialIcons name="article" size={48} color={colors.textMuted} />
+            <Text style={styles.errorText}>{error}</Text>
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={colors.text} />
+        )}
+      </View>
+    </Layout>
+  );
+}
+
+function ArticleReader({ article }: { article: Article }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
-  const { article } = route.params;
   const { user, savedArticleIds, bookmarkArticle, unbookmarkArticle } = useAuth();
   const scrollViewRef = useRef<ScrollView>(null);
   const [currentPage, setCurrentPage] = useState(0);
   const bookmarkScale = useRef(new Animated.Value(1)).current;
   const bookmarkOpacity = useRef(new Animated.Value(1)).current;
   const hasRecordedViewRef = useRef(false);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [readerSettingsVisible, setReaderSettingsVisible] = useState(false);
+  const { preferences: readerPreferences } = useReaderPreferences();
+  const { width: windowWidth, fontScale } = useWindowDimensions();
+  const typography = useMemo(
+    () => getReaderTypography(readerPreferences, fontScale),
+    [readerPreferences, fontScale]
+  );
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Rendered height of each page unit, and the layout they were measured for
+  const [measuredUnits, setMeasuredUnits] = useState<{ key: string; heights: Record<string, number> } | null>(null);
+  // First unit on the page being read, to find the same place when the pages change
+  const anchorUnitIdRef = useRef<string | undefined>(undefined);
+  // Progress is only saved once the previous position has been restored
+  const [progressRestored, setProgressRestored] = useState(false);
 
   // Check if current article is saved
   const isSaved = savedArticleIds.has(article.id);
@@ -110,6 +204,29 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
     ]).start();
   }, [isSaved]);
 
+  // Keep an offline copy of every article that is opened, and remember when
+  // the previous copy was synced so it can be shown while offline
+  useEffect(() => {
+    if (!article?.id) return;
+
+    let cancelled = false;
+    (async () => {
+      const previousCachedAt = await getArticleCachedAt(article.id);
+      if (!cancelled) {
+        setCachedAt(previousCachedAt ?? Date.now());
+      }
+      // Only refresh the offline copy when online, so "last synced" stays accurate
+      const netState = await NetInfo.fetch();
+      if (netState.isConnected !== false) {
+        await cacheArticle(article);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [article?.id]);
+
   // Record article view for stats when screen mounts
   useEffect(() => {
     if (!user || !article?.id || hasRecordedViewRef.current) {
@@ -119,10 +236,15 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
     hasRecordedViewRef.current = true;
 
     (async () => {
+      const idempotencyKey = generateIdempotencyKey();
       try {
-        const result = await apiClient.recordArticleView(article.id);
-        if (!result.success) {
-          // Non-fatal: stats endpoint failed, but article content still loads
+        const result = await apiClient.recordArticleView(article.id, { idempotencyKey });
+        if (result.success) {
+          // Reading today may have moved the streak on
+          refreshStreakReminder();
+        } else if (isRetryableStatus(result.status)) {
+          // Offline or server hiccup: replay the view from the outbox later
+          await enqueueMutation({ type: 'recordArticleView', articleId: article.id }, idempotencyKey);
         }
       } catch (error) {
         hasRecordedViewRef.current = false; // allow retry if user stays on screen
@@ -130,16 +252,113 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
     })();
   }, [article?.id, user]);
 
-  // Parse content into paragraph blocks
-  const paragraphBlocks = parseToParagraphBlocks(article.content);
+  // Parse content into paragraph blocks. In 'fit' mode, sections are split
+  // further so each page fits the viewport, once the units have been measured.
+  const sections = useMemo(() => parseToSections(article.content), [article.content]);
+  const units = useMemo(() => sections.flatMap((section) => section.units), [sections]);
+  const fitToScreen = readerPreferences.pagination === 'fit';
+  const measureKey = `${JSON.stringify(typography)}:${windowWidth}`;
+  const paragraphBlocks = useMemo(() => {
+    // Heights measured for other typography or width would build wrong pages;
+    // use whole sections until the new measurement arrives
+    if (fitToScreen && measuredUnits?.key === measureKey && viewportHeight > 0) {
+      const pageHeight = Math.min(viewportHeight, SCREEN_HEIGHT);
+      return paginateSections(
+        sections,
+        measuredUnits.heights,
+        pageHeight - ARTICLE_PAGE_INSETS.top - ARTICLE_PAGE_INSETS.bottom
+      );
+    }
+    return parseToParagraphBlocks(article.content);
+  }, [article.content, sections, fitToScreen, measuredUnits, measureKey, viewportHeight]);
   const totalPages = paragraphBlocks.length + 2; // +1 for title page, +1 for comments
 
+  useReadSession(article.id, currentPage, totalPages);
+
+  const paragraphBlocksRef = useRef(paragraphBlocks);
+  paragraphBlocksRef.current = paragraphBlocks;
+
+  const findPageForUnit = (unitId: string | undefined) => {
+    if (!unitId) return -1;
+    const blockIndex = paragraphBlocksRef.current.findIndex((block) => block.unitIds.includes(unitId));
+    return blockIndex === -1 ? -1 : blockIndex + 1;
+  };
+
+  // Jump without animation, e.g. to restore a position
+  const goToPage = (page: number, anchorUnitId?: string) => {
+    setCurrentPage(page);
+    anchorUnitIdRef.current = anchorUnitId ?? paragraphBlocksRef.current[page - 1]?.unitIds[0];
+    scrollViewRef.current?.scrollTo({ y: page * SCREEN_HEIGHT, animated: false });
+  };
+
+  // Page turned by the reader
+  const updatePage = (page: number) => {
+    if (page === currentPage) return;
+    setCurrentPage(page);
+    anchorUnitIdRef.current = paragraphBlocks[page - 1]?.unitIds[0];
+  };
+
+  // Keep the reader on the text they were looking at when the pages change
+  // (new measurements, text size or pagination mode)
+  const previousBlocksRef = useRef(paragraphBlocks);
+  useEffect(() => {
+    const previousBlocks = previousBlocksRef.current;
+    previousBlocksRef.current = paragraphBlocks;
+    if (previousBlocks === paragraphBlocks) return;
+
+    const page = findPageForUnit(anchorUnitIdRef.current);
+    if (page !== -1) {
+      goToPage(page, anchorUnitIdRef.current);
+    }
+  }, [paragraphBlocks]);
+
+  // Resume where the reader left off, unless they already finished the article
+  useEffect(() => {
+    let cancelled = false;
+    getReadingProgress(article.id).then((progress) => {
+      if (cancelled) return;
+      if (progress && !progress.finished && progress.page > 0) {
+        const blockCount = paragraphBlocksRef.current.length;
+        const unitPage = findPageForUnit(progress.unitId);
+        // Positions synced from another device have no unit; scale the page instead
+        const page =
+          unitPage !== -1
+            ? unitPage
+            : Math.min(Math.round((progress.page / progress.totalPages) * (blockCount + 2)), blockCount);
+        goToPage(page, unitPage !== -1 ? progress.unitId : undefined);
+      }
+      setProgressRestored(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [article.id]);
+
+  useEffect(() => {
+    if (!progressRestored) return;
+    saveReadingProgress(article.id, {
+      page: currentPage,
+      totalPages,
+      unitId: anchorUnitIdRef.current,
+      title: article.title,
+    });
+  }, [currentPage, totalPages, progressRestored]);
+
+  const handleViewportLayout = (event: LayoutChangeEvent) => {
+    setViewportHeight(event.nativeEvent.layout.height);
+  };
+
   const handleBack = () => {
-    navigation.goBack();
+    // Opened from a link there may be nothing to go back to
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.navigate('MainTabs');
+    }
   };
 
   const handleShare = () => {
-    console.log('Share article:', article.id);
+    shareArticle(article);
   };
 
   const handleBookmark = async () => {
@@ -184,7 +403,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
     const offsetY = event.nativeEvent.contentOffset.y;
     const pageHeight = SCREEN_HEIGHT;
     const page = Math.round(offsetY / pageHeight);
-    setCurrentPage(page);
+    updatePage(page);
   };
 
   const handleMomentumScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
@@ -204,7 +423,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
     // Clamp to valid bounds
     targetPage = Math.max(0, Math.min(totalPages - 1, targetPage));
 
-    setCurrentPage(targetPage);
+    updatePage(targetPage);
 
     // Snap to the computed page
     scrollViewRef.current?.scrollTo({
@@ -238,7 +457,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
           ) : article.hero_image_id ? (
             <View style={styles.heroImageContainer}>
               <View style={styles.heroImagePlaceholder}>
-                <MaterialIcons name="image" size={48} color="#999" />
+                <MaterialIcons name="image" size={48} color={colors.textMuted} />
                 <Text style={styles.heroImagePlaceholderText}>Hero Image</Text>
               </View>
             </View>
@@ -255,7 +474,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
         {/* Swipe hint */}
         {paragraphBlocks.length > 0 && (
           <View style={styles.swipeHint}>
-            <MaterialIcons name="keyboard-arrow-up" size={32} color="#999" />
+            <MaterialIcons name="keyboard-arrow-up" size={32} color={colors.textMuted} />
             <Text style={styles.swipeHintText}>Swipe up to read</Text>
           </View>
         )}
@@ -271,6 +490,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
       html={block.html}
       index={index}
       isActive={currentPage === index + 1}
+      typography={typography}
     />
   );
 
@@ -282,17 +502,24 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
           style={styles.headerButton}
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
         >
-          <MaterialIcons name="arrow-back" size={24} color="#000" />
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
       }
       headerActions={
         <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => setReaderSettingsVisible(true)}
+            style={styles.headerButton}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <MaterialIcons name="format-size" size={24} color={colors.text} />
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={handleShare}
             style={styles.headerButton}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
-            <MaterialIcons name="share" size={24} color="#000" />
+            <MaterialIcons name="share" size={24} color={colors.text} />
           </TouchableOpacity>
           <TouchableOpacity
             onPress={handleBookmark}
@@ -309,7 +536,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
               <MaterialIcons 
                 name={isSaved ? "bookmark" : "bookmark-border"} 
                 size={24} 
-                color="#000" 
+                color={colors.text} 
               />
             </Animated.View>
           </TouchableOpacity>
@@ -317,6 +544,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
       }
     >
       <View style={styles.container}>
+        <OfflineBanner syncedAt={cachedAt} />
 
         {/* Page Indicator */}
         {totalPages > 1 && (
@@ -331,6 +559,7 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
         <ScrollView
           ref={scrollViewRef}
           style={styles.scrollView}
+          onLayout={handleViewportLayout}
           contentContainerStyle={styles.scrollContent}
           onScroll={handleScroll}
           onMomentumScrollEnd={handleMomentumScrollEnd}
@@ -359,15 +588,29 @@ export default function ArticleDetailScreen({ route }: ArticleDetailScreenProps)
             <CommentSection articleId={article.id} />
           </View>
         </ScrollView>
+
+        {fitToScreen && measuredUnits?.key !== measureKey && (
+          <PageMeasurer
+            key={measureKey}
+            units={units}
+            typography={typography}
+            onMeasured={(heights) => setMeasuredUnits({ key: measureKey, heights })}
+          />
+        )}
       </View>
+
+      <ReaderSettingsModal
+        visible={readerSettingsVisible}
+        onClose={() => setReaderSettingsVisible(false)}
+      />
     </Layout>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   headerActions: {
     flexDirection: 'row',
@@ -376,6 +619,19 @@ const styles = StyleSheet.create({
   headerButton: {
     padding: 4,
   },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
   pageIndicator: {
     position: 'absolute',
     top: 16,
@@ -425,12 +681,12 @@ const styles = StyleSheet.create({
     width: '100%',
     aspectRatio: 16 / 9,
     borderRadius: 20,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
   },
   heroImagePlaceholder: {
     width: '100%',
     aspectRatio: 16 / 9,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 20,
     justifyContent: 'center',
     alignItems: 'center',
@@ -438,12 +694,12 @@ const styles = StyleSheet.create({
   heroImagePlaceholderText: {
     marginTop: 8,
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
   },
   title: {
     fontSize: 32,
     fontWeight: '700',
-    color: '#000',
+    color: colors.text,
     marginBottom: 16,
     textAlign: 'center',
     width: '100%',
@@ -455,7 +711,7 @@ const styles = StyleSheet.create({
   },
   date: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     fontWeight: '500',
     letterSpacing: 0.2,
     marginBottom: 48,
@@ -466,7 +722,7 @@ const styles = StyleSheet.create({
   },
   swipeHintText: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 8,
   },
 });
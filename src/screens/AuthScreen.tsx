@@ -17,16 +17,20 @@ import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { apiClient } from '../lib/api';
 import { logger } from '../lib/logger';
 // @ts-ignore - Image import
 import afLogo from '../../assets/af-logo.png';
+import type { ThemeColors } from '../lib/theme';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function AuthScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const { signup, user, loading, confirmSignUp } = useAuth();
   const touchStartY = useRef(0);
@@ -626,7 +630,7 @@ export default function AuthScreen() {
             {/* Show general error message (e.g., verification timeout) */}
             {generalError && (
               <View style={styles.generalErrorContainer}>
-                <MaterialIcons name="error-outline" size={24} color="#EF4444" />
+                <MaterialIcons name="error-outline" size={24} color={colors.danger} />
                 <Text style={styles.generalErrorText}>{generalError}</Text>
               </View>
             )}
@@ -654,7 +658,7 @@ export default function AuthScreen() {
                   <MaterialIcons 
                     name={demoSlides[slideNum - 1].icon as any} 
                     size={40} 
-                    color="#333" 
+                    color={colors.text} 
                   />
                 </View>
               </View>
@@ -780,7 +784,7 @@ export default function AuthScreen() {
               disabled={isLoading}
             >
               {isLoading ? (
-                <ActivityIndicator color="#fff" />
+                <ActivityIndicator color={colors.onPrimary} />
               ) : (
                 <Text style={styles.submitButtonText}>Create Account</Text>
               )}
@@ -797,7 +801,7 @@ export default function AuthScreen() {
                   <MaterialIcons 
                     name="email" 
                     size={40} 
-                    color="#333" 
+                    color={colors.text} 
                   />
                 </View>
               </View>
@@ -838,7 +842,7 @@ export default function AuthScreen() {
                 disabled={!verificationCode.every(digit => digit !== '') || isVerifying}
               >
                 {isVerifying ? (
-                  <ActivityIndicator color="#fff" />
+                  <ActivityIndicator color={colors.onPrimary} />
                 ) : (
                   <Text style={styles.submitButtonText}>Verify Email</Text>
                 )}
@@ -865,10 +869,10 @@ export default function AuthScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     overflow: 'hidden',
   },
   slidesContainer: {
@@ -889,11 +893,11 @@ const styles = StyleSheet.create({
   },
   loadingText: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
   },
   logoHeaderBar: {
     width: '100%',
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     paddingTop: 60,
     paddingBottom: 20,
     zIndex: 10,
@@ -929,7 +933,7 @@ const styles = StyleSheet.create({
   welcomeTitle: {
     fontSize: 24,
     fontWeight: 'normal',
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 60,
   },
@@ -941,7 +945,7 @@ const styles = StyleSheet.create({
   },
   slideDescription: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 40,
   },
@@ -955,7 +959,7 @@ const styles = StyleSheet.create({
     width: 80,
     height: 80,
     borderRadius: 40,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     alignItems: 'center',
     justifyContent: 'center',
   },
@@ -967,7 +971,7 @@ const styles = StyleSheet.create({
   },
   formSubtitle: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 30,
   },
@@ -979,26 +983,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
     marginBottom: 8,
-    color: '#000',
+    color: colors.text,
   },
   input: {
     width: '100%',
     height: 50,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     paddingHorizontal: 16,
     fontSize: 16,
     borderWidth: 0,
-    color: '#000',
+    color: colors.text,
   },
   inputError: {
     borderWidth: 2,
-    borderColor: '#EF4444',
+    borderColor: colors.danger,
   },
   usernameInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     paddingHorizontal: 16,
     height: 50,
@@ -1007,20 +1011,20 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: 16,
     paddingVertical: 0,
-    color: '#000',
+    color: colors.text,
   },
   usernameSuffix: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     fontWeight: '500',
   },
   errorText: {
-    color: '#EF4444',
+    color: colors.danger,
     fontSize: 14,
     marginTop: 4,
   },
   checkingText: {
-    color: '#666',
+    color: colors.textSecondary,
     fontSize: 14,
     marginTop: 4,
   },
@@ -1029,24 +1033,24 @@ const styles = StyleSheet.create({
   },
   requirement: {
     fontSize: 12,
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 4,
   },
   requirementMet: {
-    color: '#10B981',
+    color: colors.success,
   },
   submitButton: {
     width: '100%',
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     paddingVertical: 16,
     borderRadius: 8,
     marginTop: 20,
   },
   submitButtonDisabled: {
-    backgroundColor: '#999',
+    backgroundColor: colors.textMuted,
   },
   submitButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
     textAlign: 'center',
@@ -1064,11 +1068,11 @@ const styles = StyleSheet.create({
   },
   switchText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   switchLink: {
-    color: '#000',
+    color: colors.text,
     fontWeight: '500',
   },
   swipeHintContainer: {
@@ -1077,12 +1081,12 @@ const styles = StyleSheet.create({
   },
   swipeHintText: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
   },
   generalErrorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FEF2F2',
+    backgroundColor: colors.dangerSurface,
     borderRadius: 8,
     padding: 16,
     marginTop: 20,
@@ -1092,7 +1096,7 @@ const styles = StyleSheet.create({
   generalErrorText: {
     flex: 1,
     fontSize: 14,
-    color: '#EF4444',
+    color: colors.danger,
     fontWeight: '500',
   },
   emailText: {
@@ -1100,7 +1104,7 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
     marginBottom: 40,
-    color: '#000',
+    color: colors.text,
   },
   codeContainer: {
     flexDirection: 'row',
@@ -1112,7 +1116,7 @@ const styles = StyleSheet.create({
   codeInput: {
     width: 50,
     height: 50,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     textAlign: 'center',
     fontSize: 24,
@@ -1121,8 +1125,8 @@ const styles = StyleSheet.create({
   },
   codeInputError: {
     borderWidth: 2,
-    borderColor: '#EF4444',
-    backgroundColor: '#FEF2F2',
+    borderColor: colors.danger,
+    backgroundColor: colors.dangerSurface,
   },
 });
 
@@ -1,11 +1,10 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
   TouchableOpacity,
-  TextInput,
   ActivityIndicator,
   Dimensions,
   Animated,
@@ -14,46 +13,44 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import Layout from '../components/Layout';
 import { apiClient } from '../lib/api';
 import { useArticleList } from '../hooks/useArticleList';
+import { useReadingProgress } from '../hooks/useReadingProgress';
+import { getContinueReading, getProgressFraction } from '../lib/readingProgress';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import type { Article } from '../lib/schema';
 import TodayArticleCard from '../components/TodayArticleCard';
+import OfflineBanner from '../components/OfflineBanner';
+import type { ThemeColors } from '../lib/theme';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Article {
-  id: number;
-  title: string;
-  hero_image_id: number | null;
-  content: {
-    root: {
-      children: any[];
-    };
-  };
-  published_at: string;
-  slug: string;
-  imageUrl?: string;
-}
-
 export default function HomeScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { user, loading: authLoading, savedArticleIds } = useAuth();
   const { renderArticle } = useArticleList(savedArticleIds);
+  const readingProgress = useReadingProgress();
   const navigation = useNavigation<NavigationProp>();
   const [articles, setArticles] = useState<Article[]>([]);
   const [todayArticle, setTodayArticle] = useState<Article | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingToday, setLoadingToday] = useState(false);
   const [articlesLoaded, setArticlesLoaded] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Set when content was restored from the offline cache instead of the server
+  const [todaySyncedAt, setTodaySyncedAt] = useState<number | null>(null);
+  const [articlesSyncedAt, setArticlesSyncedAt] = useState<number | null>(null);
   const [currentSlide, setCurrentSlide] = useState(0);
   const touchStartY = useRef(0);
   const slideTranslateY = useRef(new Animated.Value(0)).current;
   const isSwipingRef = useRef(false);
   const swipeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Cancels in-flight article requests when the screen unmounts
+  const abortControllerRef = useRef(new AbortController());
 
   useEffect(() => {
     // Only load today's article on initial load
@@ -79,21 +76,26 @@ export default function HomeScreen() {
     }).start();
   }, [currentSlide]);
 
-  // Cleanup timeout on unmount
+  // Cleanup timeout and pending requests on unmount
   useEffect(() => {
+    const abortController = abortControllerRef.current;
     return () => {
       if (swipeTimeoutRef.current) {
         clearTimeout(swipeTimeoutRef.current);
       }
+      abortController.abort();
     };
   }, []);
 
   const loadTodayArticle = async () => {
     try {
       setLoadingToday(true);
-      const result = await apiClient.getRecentArticle();
+      const { signal } = abortControllerRef.current;
+      const result = await apiClient.getRecentArticle({ signal });
+      if (signal.aborted) return;
       if (result.success && result.article) {
         setTodayArticle(result.article);
+        setTodaySyncedAt(result.fromCache ? result.syncedAt ?? null : null);
       } else {
         setTodayArticle(null);
       }
@@ -108,9 +110,12 @@ export default function HomeScreen() {
   const loadArticlesBatch = async () => {
     try {
       setLoading(true);
-      const result = await apiClient.getRecentArticlesBatch();
+      const { signal } = abortControllerRef.current;
+      const result = await apiClient.getRecentArticlesBatch({ signal });
+      if (signal.aborted) return;
       if (result.success && result.articles) {
         setArticles(result.articles);
+        setArticlesSyncedAt(result.fromCache ? result.syncedAt ?? null : null);
         setArticlesLoaded(true);
       } else {
         setArticles([]);
@@ -125,27 +130,45 @@ export default function HomeScreen() {
     }
   };
 
-  // Filter articles based on search query - memoized for performance
-  const searchFilteredArticles = useMemo(() => {
-    if (!searchQuery) return articles;
-    const query = searchQuery.toLowerCase();
-    return articles.filter(
-      (article) =>
-        article.title.toLowerCase().includes(query)
-    );
-  }, [articles, searchQuery]);
-
-  const displayArticles = searchFilteredArticles;
-
   const currentDate = todayArticle?.published_at 
     ? new Date(todayArticle.published_at) 
-    : displayArticles[0]?.published_at 
-    ? new Date(displayArticles[0].published_at) 
+    : articles[0]?.published_at 
+    ? new Date(articles[0].published_at) 
     : new Date();
 
+  // Today's card shows its own progress, so only offer other articles here
+  const continueReading = getContinueReading(readingProgress);
+  const showContinueReading = !!continueReading && continueReading.articleId !== todayArticle?.id;
+
+  const handleContinueReading = () => {
+    if (isSwipingRef.current || !continueReading) {
+      return;
+    }
+    navigation.navigate('ArticleDetail', { articleId: continueReading.articleId });
+  };
+
+  const renderContinueReading = () => {
+    if (!continueReading) return null;
+    return (
+      <TouchableOpacity style={styles.continueReading} onPress={handleContinueReading} activeOpacity={0.7}>
+        <MaterialIcons name="menu-book" size={22} color={colors.text} />
+        <View style={styles.continueReadingText}>
+          <Text style={styles.continueReadingLabel}>Continue reading</Text>
+          <Text style={styles.continueReadingTitle} numberOfLines={1}>
+            {continueReading.title || `Page ${continueReading.page + 1} of ${continueReading.totalPages}`}
+          </Text>
+        </View>
+        <Text style={styles.continueReadingPercent}>
+          {Math.round(getProgressFraction(continueReading) * 100)}%
+        </Text>
+        <MaterialIcons name="chevron-right" size={22} color={colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
-      <MaterialIcons name="article" size={48} color="#999" />
+      <MaterialIcons name="article" size={48} color={colors.textMuted} />
       <Text style={styles.emptyStateText}>No articles available</Text>
       <Text style={styles.emptyStateSubtext}>
         Check back later for new content
@@ -159,6 +182,17 @@ export default function HomeScreen() {
     </View>
   );
 
+  // The recent list only covers the latest batch; older articles live in the archive
+  const renderFooter = () => (
+    <TouchableOpacity
+      style={styles.archiveButton}
+      onPress={() => navigation.navigate('Archive')}
+    >
+      <MaterialIcons name="history" size={18} color={colors.text} />
+      <Text style={styles.archiveButtonText}>Browse the archive</Text>
+    </TouchableOpacity>
+  );
+
   const handleSwipe = (swipeDistance: number) => {
     let swipeDetected = false;
 
@@ -237,14 +271,10 @@ export default function HomeScreen() {
       date={currentDate}
       headerActions={
         <TouchableOpacity
-          onPress={() => setIsSearchOpen(!isSearchOpen)}
+          onPress={() => navigation.navigate('Search')}
           style={styles.searchButton}
         >
-          <MaterialIcons
-            name={isSearchOpen ? 'close' : 'search'}
-            size={20}
-            color="#000"
-          />
+          <MaterialIcons name="search" size={20} color={colors.text} />
         </TouchableOpacity>
       }
     >
@@ -262,25 +292,31 @@ export default function HomeScreen() {
         {/* Page 1: Today's Article */}
         <View style={styles.page}>
           <View style={styles.container}>
+            <OfflineBanner syncedAt={todaySyncedAt} forceVisible={todaySyncedAt !== null} />
+            {showContinueReading && renderContinueReading()}
             {loadingToday ? (
               <View style={styles.loadingContainer}>
-                <ActivityIndicator size="large" color="#000" />
+                <ActivityIndicator size="large" color={colors.text} />
               </View>
             ) : todayArticle ? (
               <View style={styles.todayArticleContainer}>
                 <TodayArticleCard
                   id={todayArticle.id}
                   title={todayArticle.title}
+                  slug={todayArticle.slug}
+                  content={todayArticle.content}
+                  tier={todayArticle.tier}
                   hero_image_id={todayArticle.hero_image_id}
                   imageUrl={todayArticle.imageUrl}
                   onPress={handleCardPress}
                   isSaved={savedArticleIds.has(todayArticle.id)}
+                  progress={readingProgress[todayArticle.id]}
                 />
               </View>
             ) : (
               <View style={styles.emptyContainer}>
                 <View style={styles.emptyStateWrapper}>
-                  <MaterialIcons name="article" size={48} color="#999" />
+                  <MaterialIcons name="article" size={48} color={colors.textMuted} />
                   <Text style={styles.emptyStateText}>No article available today</Text>
                   <Text style={styles.emptyStateSubtext}>
                     Check back later for new content
@@ -294,30 +330,12 @@ export default function HomeScreen() {
         {/* Page 2: All Articles */}
         <View style={styles.page}>
           <View style={styles.container}>
-            {isSearchOpen && (
-              <View style={styles.searchContainer}>
-                <MaterialIcons
-                  name="search"
-                  size={20}
-                  color="#999"
-                  style={styles.searchIcon}
-                />
-                <TextInput
-                  style={styles.searchInput}
-                  placeholder="Search articles..."
-                  value={searchQuery}
-                  onChangeText={setSearchQuery}
-                  autoFocus
-                  placeholderTextColor="#999"
-                />
-              </View>
-            )}
-
+            <OfflineBanner syncedAt={articlesSyncedAt} forceVisible={articlesSyncedAt !== null} />
             {loading ? (
               <View style={styles.loadingContainer}>
-                <ActivityIndicator size="large" color="#000" />
+                <ActivityIndicator size="large" color={colors.text} />
               </View>
-            ) : displayArticles.length === 0 ? (
+            ) : articles.length === 0 ? (
               <View style={styles.emptyContainer}>
                 <View style={styles.emptyStateWrapper}>
                   {renderEmptyState()}
@@ -325,13 +343,14 @@ export default function HomeScreen() {
               </View>
             ) : (
               <FlatList
-                data={displayArticles}
+                data={articles}
                 renderItem={renderArticle}
                 keyExtractor={(item) => item.id.toString()}
                 contentContainerStyle={styles.listContent}
                 showsVerticalScrollIndicator={false}
                 style={styles.flatList}
                 ListHeaderComponent={renderHeader}
+                ListFooterComponent={renderFooter}
               />
             )}
           </View>
@@ -341,7 +360,7 @@ export default function HomeScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   slidesContainer: {
     width: '100%',
     height: SCREEN_HEIGHT * 2, // Total height for 2 pages
@@ -360,24 +379,6 @@ const styles = StyleSheet.create({
   flatList: {
     flex: 1,
   },
-  searchContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#F5F5F5',
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    marginHorizontal: 16,
-    marginBottom: 16,
-    height: 40,
-  },
-  searchIcon: {
-    marginRight: 8,
-  },
-  searchInput: {
-    flex: 1,
-    fontSize: 16,
-    color: '#000',
-  },
   searchButton: {
     padding: 4,
   },
@@ -411,12 +412,12 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 16,
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 8,
     textAlign: 'center',
   },
@@ -428,7 +429,24 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#000',
+    color: colors.text,
+  },
+  archiveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  archiveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginLeft: 8,
   },
   pageContent: {
     flex: 1,
@@ -444,11 +462,46 @@ const styles = StyleSheet.create({
   },
   pageDescription: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   todayArticleContainer: {
     flex: 1,
     width: '100%',
   },
+  continueReading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  continueReadingText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  continueReadingLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  continueReadingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 2,
+  },
+  continueReadingPercent: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginHorizontal: 8,
+  },
 });
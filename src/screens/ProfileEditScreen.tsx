@@ -18,8 +18,10 @@ import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import Layout from '../components/Layout';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import type { ThemeColors } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -41,6 +43,8 @@ export const getGlobalSelectedProfileImage = (): SelectedImage | null => {
 };
 
 export default function ProfileEditScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const { user, updateProfile } = useAuth();
 
@@ -272,7 +276,7 @@ export default function ProfileEditScreen() {
             onPress={() => navigation.goBack()}
             style={styles.headerButton}
           >
-            <MaterialIcons name="close" size={28} color="#000" />
+            <MaterialIcons name="close" size={28} color={colors.text} />
           </TouchableOpacity>
         </View>
       }
@@ -307,7 +311,7 @@ export default function ProfileEditScreen() {
                   // Show placeholder if no valid avatar URL
                   return (
                     <View style={styles.profilePicturePlaceholder}>
-                      <MaterialIcons name="person" size={60} color="#9CA3AF" />
+                      <MaterialIcons name="person" size={60} color={colors.textMuted} />
                     </View>
                   );
                 })()}
@@ -318,7 +322,7 @@ export default function ProfileEditScreen() {
                 onPress={handleImagePicker}
                 disabled={saving}
               >
-                <MaterialIcons name="edit" size={20} color="#fff" />
+                <MaterialIcons name="edit" size={20} color={colors.onPrimary} />
               </TouchableOpacity>
             </View>
           </View>
@@ -333,7 +337,7 @@ export default function ProfileEditScreen() {
                   style={[styles.input, styles.inputDisabled]}
                   value={name}
                   placeholder="Your name"
-                  placeholderTextColor="#9CA3AF"
+                  placeholderTextColor={colors.textMuted}
                   editable={false}
                 />
               </View>
@@ -349,10 +353,10 @@ export default function ProfileEditScreen() {
                   style={[styles.input, styles.usernameInput, styles.inputDisabled]}
                   value={username.replace('@', '')}
                   placeholder="username"
-                  placeholderTextColor="#9CA3AF"
+                  placeholderTextColor={colors.textMuted}
                   editable={false}
                 />
-                <MaterialIcons name="lock" size={18} color="#9CA3AF" />
+                <MaterialIcons name="lock" size={18} color={colors.textMuted} />
               </View>
               <Text style={styles.fieldNote}>Username cannot be changed</Text>
             </View>
@@ -391,7 +395,7 @@ export default function ProfileEditScreen() {
             disabled={!hasChanges || saving}
           >
             {saving ? (
-              <ActivityIndicator size="small" color="#fff" />
+              <ActivityIndicator size="small" color={colors.onPrimary} />
             ) : (
               <Text style={styles.saveButtonText}>Save Changes</Text>
             )}
@@ -442,7 +446,7 @@ export default function ProfileEditScreen() {
                 />
               ) : (
                 <View style={styles.zoomedPlaceholder}>
-                  <MaterialIcons name="person" size={120} color="#9CA3AF" />
+                  <MaterialIcons name="person" size={120} color={colors.textMuted} />
                 </View>
               )}
             </TouchableOpacity>
@@ -459,10 +463,10 @@ export default function ProfileEditScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.surface,
   },
   content: {
     flex: 1,
@@ -479,7 +483,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 32,
     fontWeight: 'bold',
-    color: '#111827',
+    color: colors.text,
     marginBottom: 32,
     letterSpacing: -0.5,
   },
@@ -496,7 +500,7 @@ const styles = StyleSheet.create({
     height: 120,
     borderRadius: 60,
     borderWidth: 4,
-    borderColor: '#fff',
+    borderColor: colors.background,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.1,
@@ -507,11 +511,11 @@ const styles = StyleSheet.create({
     width: 120,
     height: 120,
     borderRadius: 60,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 4,
-    borderColor: '#fff',
+    borderColor: colors.background,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.1,
@@ -525,11 +529,11 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 3,
-    borderColor: '#fff',
+    borderColor: colors.background,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.4,
@@ -543,7 +547,7 @@ const styles = StyleSheet.create({
   changePhotoText: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#000',
+    color: colors.text,
   },
   formSection: {
     marginBottom: 24,
@@ -554,17 +558,17 @@ const styles = StyleSheet.create({
   fieldLabel: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#374151',
+    color: colors.textSecondary,
     marginBottom: 8,
     marginLeft: 4,
   },
   inputWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     borderRadius: 12,
     borderWidth: 1.5,
-    borderColor: '#E5E7EB',
+    borderColor: colors.border,
     paddingHorizontal: 16,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 1 },
@@ -573,15 +577,15 @@ const styles = StyleSheet.create({
     elevation: 1,
   },
   inputWrapperDisabled: {
-    backgroundColor: '#F9FAFB',
-    borderColor: '#E5E7EB',
+    backgroundColor: colors.surface,
+    borderColor: colors.border,
   },
   inputDisabled: {
-    color: '#6B7280',
+    color: colors.textSecondary,
   },
   fieldNote: {
     fontSize: 12,
-    color: '#9CA3AF',
+    color: colors.textMuted,
     marginTop: 6,
     marginLeft: 4,
     fontStyle: 'italic',
@@ -589,13 +593,13 @@ const styles = StyleSheet.create({
   input: {
     flex: 1,
     fontSize: 16,
-    color: '#111827',
+    color: colors.text,
     paddingVertical: 14,
   },
   usernamePrefix: {
     fontSize: 16,
     fontWeight: '500',
-    color: '#6B7280',
+    color: colors.textSecondary,
     marginRight: 4,
   },
   usernameInput: {
@@ -608,13 +612,13 @@ const styles = StyleSheet.create({
   },
   characterCount: {
     fontSize: 12,
-    color: '#9CA3AF',
+    color: colors.textMuted,
     marginTop: 6,
     marginLeft: 4,
     textAlign: 'right',
   },
   saveButton: {
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     borderRadius: 12,
     paddingVertical: 16,
     alignItems: 'center',
@@ -628,7 +632,7 @@ const styles = StyleSheet.create({
   saveButtonText: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#fff',
+    color: colors.onPrimary,
     letterSpacing: 0.3,
   },
   saveButtonDisabled: {
@@ -658,7 +662,7 @@ const styles = StyleSheet.create({
     width: Dimensions.get('window').width * 0.9,
     height: Dimensions.get('window').width * 0.9,
     borderRadius: 8,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     justifyContent: 'center',
     alignItems: 'center',
   },
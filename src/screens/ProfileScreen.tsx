@@ -19,61 +19,26 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import type { SavedItem } from '../contexts/AuthContext';
 import Layout from '../components/Layout';
+import WeeklyReadingChart from '../components/WeeklyReadingChart';
+import ReadingHeatmap from '../components/ReadingHeatmap';
+import AchievementBadges from '../components/AchievementBadges';
 import { apiClient } from '../lib/api';
 import { useArticleList } from '../hooks/useArticleList';
+import { toMentionSegments } from '../lib/mentions';
+import { isStreakAtRisk, scheduleStreakReminder } from '../lib/streakReminders';
+import { getAchievements, takeNewAchievements, type AchievementId } from '../lib/achievements';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import type { Article, Comment, ProfileStats, ReadingActivityDay } from '../lib/schema';
+import type { ThemeColors } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Comment {
-  comment_id: string;
-  article_id: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-  isDeleted: boolean;
-  articleTitle?: string; // Will be fetched separately if needed
-  author: {
-    username: string;
-    name?: string;
-    avatar: string | null;
-  };
-}
-
-interface Article {
-  id: number;
-  title: string;
-  hero_image_id: number | null;
-  content: {
-    root: {
-      children: any[];
-    };
-  };
-  published_at: string;
-  slug: string;
-  imageUrl?: string;
-}
-
-interface ProfileStatsSummary {
-  // Total UNIQUE articles read (size of the server-side articlesReadSet)
-  articlesRead: number;
-  // Optional explicit count field if backend returns both articlesRead and articlesReadCount
-  articlesReadCount?: number;
-  commentsPosted: number;
-  streak: number;
-  // Timestamp of the last NEW unique article that counted toward the streak
-  streakLastReadAt?: string | null;
-  // Convenience timestamps for UI
-  lastActivityDate?: string | null;
-  lastViewedAt?: string | null;
-  updatedAt?: string | null;
-  longestStreak?: number | null;
-}
-
-const PROFILE_STATS_DEFAULT: ProfileStatsSummary = {
+const PROFILE_STATS_DEFAULT: ProfileStats = {
   articlesRead: 0,
+  articlesReadCount: 0,
   commentsPosted: 0,
   streak: 0,
   lastActivityDate: null,
@@ -82,7 +47,17 @@ const PROFILE_STATS_DEFAULT: ProfileStatsSummary = {
 
 type TabType = 'comments' | 'saved' | 'statistics';
 
+// 45 minutes -> "45m", 125 minutes -> "2h 5m"
+const formatReadingTime = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
+
 export default function ProfileScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const { user, savedItems, loading: authLoading, profileLoading, refreshProfile, savedArticleIds, refreshSavedArticles } = useAuth();
   const [profileImage, setProfileImage] = useState<string | null>(null);
@@ -91,8 +66,10 @@ export default function ProfileScreen() {
   const [profileUsername, setProfileUsername] = useState<string | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
   const [savedArticles, setSavedArticles] = useState<Article[]>([]);
-  const [statistics, setStatistics] = useState<ProfileStatsSummary | null>(null);
+  const [statistics, setStatistics] = useState<ProfileStats | null>(null);
   const [loadingStatistics, setLoadingStatistics] = useState(false);
+  const [readingActivity, setReadingActivity] = useState<ReadingActivityDay[] | null>(null);
+  const [newAchievements, setNewAchievements] = useState<Set<AchievementId>>(new Set());
   
   const { renderArticle } = useArticleList(savedArticleIds);
   const [loadingSavedArticles, setLoadingSavedArticles] = useState(false);
@@ -119,6 +96,8 @@ export default function ProfileScreen() {
   const hasLoadedComments = useRef(false);
   const hasLoadedSavedArticles = useRef(false);
   const hasLoadedStatistics = useRef(false);
+  // Cancels in-flight tab requests when the screen unmounts
+  const abortControllerRef = useRef(new AbortController());
   
   // Profile picture zoom modal
   const [isZoomed, setIsZoomed] = useState(false);
@@ -130,6 +109,11 @@ export default function ProfileScreen() {
   const streakAnim = useRef(new Animated.Value(0)).current;
   const commentsPostedAnim = useRef(new Animated.Value(0)).current;
 
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+    return () => abortController.abort();
+  }, []);
+
   useEffect(() => {
     // Wait for auth and profile to finish loading before trying to load profile
     // Only load once when component mounts
@@ -377,26 +361,12 @@ export default function ProfileScreen() {
     
     try {
       setLoadingComments(true);
-      const result = await apiClient.getMyComments();
+      const { signal } = abortControllerRef.current;
+      const result = await apiClient.getMyComments({ signal });
+      if (signal.aborted) return;
       if (result.success && result.comments) {
-        // Transform API response to match Comment interface
-        // API returns: comment_id, article_id, content, createdAt, author, etc.
-        // We need to normalize and potentially fetch article titles
-        const transformedComments: Comment[] = result.comments.map((comment: any) => ({
-          comment_id: comment.comment_id,
-          article_id: comment.article_id,
-          content: comment.content,
-          createdAt: comment.createdAt,
-          updatedAt: comment.updatedAt,
-          isDeleted: comment.isDeleted || false,
-          articleTitle: comment.articleTitle, // May be undefined
-          author: {
-            username: comment.author?.username || 'Anonymous',
-            name: comment.author?.name,
-            avatar: comment.author?.avatar ?? null,
-          },
-        }));
-        setComments(transformedComments);
+        // Comments are validated by the API client; articleTitle may be undefined
+        setComments(result.comments);
         hasLoadedComments.current = true;
       } else {
         setComments([]);
@@ -416,7 +386,9 @@ export default function ProfileScreen() {
     
     try {
       setLoadingSavedArticles(true);
-      const result = await apiClient.getSavedArticles();
+      const { signal } = abortControllerRef.current;
+      const result = await apiClient.getSavedArticles({ signal });
+      if (signal.aborted) return;
       if (result.success && result.articles) {
         setSavedArticles(result.articles);
         hasLoadedSavedArticles.current = true;
@@ -467,23 +439,24 @@ export default function ProfileScreen() {
     try {
       setLoadingStatistics(true);
       
-      const summaryResponse = await apiClient.getProfileStatsSummary();
+      const { signal } = abortControllerRef.current;
+      const [summaryResponse, activityResponse] = await Promise.all([
+        apiClient.getProfileStatsSummary({ signal }),
+        apiClient.getReadingActivity(365, { signal }),
+      ]);
+      if (signal.aborted) return;
+
+      // The calendar is optional; keep the last one if it fails to load
+      if (activityResponse.success && activityResponse.days) {
+        setReadingActivity(activityResponse.days);
+      }
 
       if (summaryResponse.success && summaryResponse.stats) {
         const stats = summaryResponse.stats;
-        const normalizedStats: ProfileStatsSummary = {
-          articlesRead: stats.articlesRead ?? 0,
-          articlesReadCount: stats.articlesReadCount ?? stats.articlesRead ?? 0,
-          commentsPosted: stats.commentsPosted ?? 0,
-          streak: stats.streak ?? 0,
-          streakLastReadAt: stats.streakLastReadAt ?? null,
-          lastActivityDate: stats.lastActivityDate ?? stats.lastViewedAt ?? null,
-          lastViewedAt: stats.lastViewedAt ?? null,
-          updatedAt: stats.updatedAt ?? null,
-          longestStreak: stats.longestStreak ?? null,
-        };
         
-        setStatistics(normalizedStats);
+        setStatistics(stats);
+        scheduleStreakReminder(stats);
+        takeNewAchievements(getAchievements({ stats, memberNumber: user.memberNumber })).then(setNewAchievements);
 
         articlesReadAnim.setValue(0);
         streakAnim.setValue(0);
@@ -491,18 +464,18 @@ export default function ProfileScreen() {
         
         Animated.parallel([
           Animated.timing(articlesReadAnim, {
-            toValue: normalizedStats.articlesRead,
+            toValue: stats.articlesRead,
             duration: 1500,
             useNativeDriver: false,
           }),
           Animated.timing(streakAnim, {
-            toValue: normalizedStats.streak,
+            toValue: stats.streak,
             duration: 1500,
             delay: 100,
             useNativeDriver: false,
           }),
           Animated.timing(commentsPostedAnim, {
-            toValue: normalizedStats.commentsPosted,
+            toValue: stats.commentsPosted,
             duration: 1500,
             delay: 200,
             useNativeDriver: false,
@@ -592,7 +565,7 @@ export default function ProfileScreen() {
               />
             ) : (
               <View style={styles.commentAvatarPlaceholder}>
-                <MaterialIcons name="person" size={24} color="#9CA3AF" />
+                <MaterialIcons name="person" size={24} color={colors.textMuted} />
               </View>
             )}
           </View>
@@ -608,7 +581,16 @@ export default function ProfileScreen() {
         {item.articleTitle && (
           <Text style={styles.commentArticleTitle}>Replied to: {item.articleTitle}</Text>
         )}
-        <Text style={styles.commentContent}>{item.content}</Text>
+        {/* Replies from older payloads carry only the parent's ID, so no author or excerpt */}
+        {item.replyTo && (
+          <Text style={styles.commentReplyTo} numberOfLines={1}>
+            Replying to {item.replyTo.username ? `@${item.replyTo.username.replace(/^@+/, '')}` : 'a comment'}
+            {item.replyTo.content ? `: "${item.replyTo.content}"` : ''}
+          </Text>
+        )}
+        <Text style={styles.commentContent}>
+          {toMentionSegments(item.content, item.mentions).map((segment) => segment.text).join('')}
+        </Text>
       </View>
     );
   };
@@ -633,6 +615,8 @@ export default function ProfileScreen() {
   // - Before first successful load: show a loading state instead of fake zeros
   // - After we have real stats: keep showing the last known values while loading/refetching
   const statsForUi = statistics ?? PROFILE_STATS_DEFAULT;
+  const achievements = getAchievements({ stats: statsForUi, memberNumber });
+  const earnedCount = achievements.filter((achievement) => achievement.earned).length;
   const hasStatisticsLoadedOnce = hasLoadedStatistics.current;
   const isInitialStatsLoading = !hasStatisticsLoadedOnce && (loadingStatistics || !statistics);
 
@@ -643,7 +627,7 @@ export default function ProfileScreen() {
     return (
       <Layout>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#000" />
+          <ActivityIndicator size="large" color={colors.text} />
         </View>
       </Layout>
     );
@@ -661,7 +645,7 @@ export default function ProfileScreen() {
           onPress={handleSettingsPress}
           style={styles.settingsButton}
         >
-          <MaterialIcons name="settings" size={24} color="#000" />
+          <MaterialIcons name="settings" size={24} color={colors.text} />
         </TouchableOpacity>
       }
     >
@@ -699,7 +683,7 @@ export default function ProfileScreen() {
               // Show placeholder if no valid avatar URL
               return (
                 <View style={styles.avatarPlaceholder}>
-                  <MaterialIcons name="person" size={45} color="#9CA3AF" />
+                  <MaterialIcons name="person" size={45} color={colors.textMuted} />
                 </View>
               );
             })()}
@@ -735,7 +719,7 @@ export default function ProfileScreen() {
               activeOpacity={0.8}
               onPress={() => navigation.navigate('ProfileEdit')}
             >
-              <MaterialIcons name="edit" size={16} color="#6366F1" />
+              <MaterialIcons name="edit" size={16} color={colors.accent} />
               <Text style={styles.editProfileButtonText}>Edit Profile</Text>
             </TouchableOpacity>
           </View>
@@ -764,7 +748,7 @@ export default function ProfileScreen() {
               <MaterialIcons 
                 name="comment" 
                 size={24} 
-                color={activeTab === 'comments' ? '#000' : '#999'} 
+                color={activeTab === 'comments' ? colors.text : colors.textMuted} 
               />
             </TouchableOpacity>
             <TouchableOpacity
@@ -777,7 +761,7 @@ export default function ProfileScreen() {
               <MaterialIcons 
                 name="bookmark" 
                 size={24} 
-                color={activeTab === 'saved' ? '#000' : '#999'} 
+                color={activeTab === 'saved' ? colors.text : colors.textMuted} 
               />
             </TouchableOpacity>
             <TouchableOpacity
@@ -790,7 +774,7 @@ export default function ProfileScreen() {
               <MaterialIcons 
                 name="bar-chart" 
                 size={24} 
-                color={activeTab === 'statistics' ? '#000' : '#999'} 
+                color={activeTab === 'statistics' ? colors.text : colors.textMuted} 
               />
             </TouchableOpacity>
           </View>
@@ -800,7 +784,7 @@ export default function ProfileScreen() {
             {activeTab === 'comments' && (
               loadingComments ? (
                 <View style={styles.emptyStateContainer}>
-                  <ActivityIndicator size="large" color="#000" />
+                  <ActivityIndicator size="large" color={colors.text} />
                 </View>
               ) : comments.length > 0 ? (
                 <FlatList
@@ -819,7 +803,7 @@ export default function ProfileScreen() {
               ) : (
                 <View style={styles.emptyStateContainer}>
                   <View style={styles.emptyState}>
-                    <MaterialIcons name="comment" size={48} color="#999" />
+                    <MaterialIcons name="comment" size={48} color={colors.textMuted} />
                     <Text style={styles.emptyStateText}>No comments yet</Text>
                     <Text style={styles.emptyStateSubtext}>
                       Your comments will appear here
@@ -845,7 +829,7 @@ export default function ProfileScreen() {
               >
                 {loadingSavedArticles ? (
                   <View style={styles.emptyStateContainer}>
-                    <ActivityIndicator size="large" color="#000" />
+                    <ActivityIndicator size="large" color={colors.text} />
                   </View>
                 ) : savedArticles.length > 0 ? (
                   <View style={styles.savedArticlesList}>
@@ -858,7 +842,7 @@ export default function ProfileScreen() {
                 ) : (
                   <View style={styles.emptyStateContainer}>
                     <View style={styles.emptyState}>
-                      <MaterialIcons name="bookmark" size={48} color="#999" />
+                      <MaterialIcons name="bookmark" size={48} color={colors.textMuted} />
                       <Text style={styles.emptyStateText}>No saved articles yet</Text>
                       <Text style={styles.emptyStateSubtext}>
                         Articles you bookmark will appear here
@@ -885,7 +869,7 @@ export default function ProfileScreen() {
               >
                 {isInitialStatsLoading ? (
                   <View style={styles.emptyStateContainer}>
-                    <ActivityIndicator size="large" color="#000" />
+                    <ActivityIndicator size="large" color={colors.text} />
                   </View>
                 ) : (
                   <View style={styles.statisticsContainer}>
@@ -893,18 +877,47 @@ export default function ProfileScreen() {
                     {/* Streak Card */}
                     <Animated.View key="streak" style={[styles.statCard, styles.statCardStreak]}>
                       <View style={styles.statIconContainer}>
-                        <MaterialIcons name="local-fire-department" size={22} color="#F59E0B" />
+                        <MaterialIcons name="local-fire-department" size={22} color={colors.premium} />
                       </View>
                       <View style={styles.statTextContainer}>
                         <AnimatedNumber value={streakAnim} style={styles.statNumber} />
                         <Text style={styles.statLabel}>Day Streak</Text>
+                        {!!statsForUi.longestStreak && (
+                          <Text style={styles.statSubLabel}>Longest: {statsForUi.longestStreak} days</Text>
+                        )}
+                        {isStreakAtRisk(statsForUi) && (
+                          <Text style={styles.streakAtRisk}>Read an article today to keep your streak</Text>
+                        )}
+                      </View>
+                      <View style={styles.freezeBadge}>
+                        <MaterialIcons name="ac-unit" size={16} color={colors.link} />
+                        <Text style={styles.freezeCount}>{statsForUi.streakFreezes ?? 0}</Text>
                       </View>
                     </Animated.View>
+                    <Text style={styles.freezeHint}>
+                      Streak freezes cover a day you miss. You earn one for every 7 days in a row, up to 2 at a time.
+                    </Text>
+
+                    {/* Achievements */}
+                    <View style={styles.chartCard}>
+                      <View style={styles.achievementsHeader}>
+                        <Text style={styles.statLabel}>Achievements</Text>
+                        <Text style={styles.achievementsCount}>{earnedCount}/{achievements.length}</Text>
+                      </View>
+                      <AchievementBadges achievements={achievements} newlyUnlocked={newAchievements} />
+                    </View>
+
+                    {/* Streak Calendar */}
+                    {readingActivity && (
+                      <View style={styles.chartCard}>
+                        <ReadingHeatmap days={readingActivity} />
+                      </View>
+                    )}
 
                     {/* Articles Read Card */}
                     <Animated.View key="articles-read" style={[styles.statCard, styles.statCardPrimary]}>
                       <View style={styles.statIconContainer}>
-                        <MaterialIcons name="article" size={22} color="#6366F1" />
+                        <MaterialIcons name="article" size={22} color={colors.accent} />
                       </View>
                       <View style={styles.statTextContainer}>
                         <AnimatedNumber value={articlesReadAnim} style={styles.statNumber} />
@@ -915,13 +928,43 @@ export default function ProfileScreen() {
                     {/* Comments Posted Card */}
                     <Animated.View key="comments-posted" style={[styles.statCard, styles.statCardComments]}>
                       <View style={styles.statIconContainer}>
-                        <MaterialIcons name="comment" size={22} color="#10B981" />
+                        <MaterialIcons name="comment" size={22} color={colors.success} />
                       </View>
                       <View style={styles.statTextContainer}>
                         <AnimatedNumber value={commentsPostedAnim} style={styles.statNumber} />
                         <Text style={styles.statLabel}>Comments Posted</Text>
                       </View>
                     </Animated.View>
+
+                    {/* Reading Time Card */}
+                    <Animated.View key="reading-time" style={[styles.statCard, styles.statCardReading]}>
+                      <View style={styles.statIconContainer}>
+                        <MaterialIcons name="schedule" size={22} color={colors.link} />
+                      </View>
+                      <View style={styles.statTextContainer}>
+                        <Text style={styles.statNumber}>{formatReadingTime(statsForUi.totalReadingTimeMs ?? 0)}</Text>
+                        <Text style={styles.statLabel}>Reading Time</Text>
+                      </View>
+                    </Animated.View>
+
+                    {/* Average Completion Card */}
+                    <Animated.View key="completion" style={[styles.statCard, styles.statCardReading]}>
+                      <View style={styles.statIconContainer}>
+                        <MaterialIcons name="done-all" size={22} color={colors.link} />
+                      </View>
+                      <View style={styles.statTextContainer}>
+                        <Text style={styles.statNumber}>{Math.round((statsForUi.averageCompletion ?? 0) * 100)}%</Text>
+                        <Text style={styles.statLabel}>Average Completion</Text>
+                        <Text style={styles.statSubLabel}>How much of each article you read</Text>
+                      </View>
+                    </Animated.View>
+
+                    {/* Weekly Reading Chart */}
+                    {statsForUi.weeklyReading && statsForUi.weeklyReading.length > 0 && (
+                      <View style={styles.chartCard}>
+                        <WeeklyReadingChart days={statsForUi.weeklyReading} />
+                      </View>
+                    )}
                   </View>
                 )}
               </ScrollView>
@@ -981,7 +1024,7 @@ export default function ProfileScreen() {
                 // Show placeholder if no valid avatar URL
                 return (
                   <View style={styles.zoomedPlaceholder}>
-                    <MaterialIcons name="person" size={120} color="#9CA3AF" />
+                    <MaterialIcons name="person" size={120} color={colors.textMuted} />
                   </View>
                 );
               })()}
@@ -999,10 +1042,10 @@ export default function ProfileScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   tabScrollView: {
     flex: 1,
@@ -1031,20 +1074,20 @@ const styles = StyleSheet.create({
     width: 90,
     height: 90,
     borderRadius: 45,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderWidth: 2,
-    borderColor: '#E5E5E5',
+    borderColor: colors.border,
     overflow: 'hidden',
   },
   avatarPlaceholder: {
     width: 90,
     height: 90,
     borderRadius: 45,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 2,
-    borderColor: '#E5E5E5',
+    borderColor: colors.border,
   },
   profileInfo: {
     flex: 1,
@@ -1060,7 +1103,7 @@ const styles = StyleSheet.create({
   premiumBadge: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFF9E6',
+    backgroundColor: colors.premiumSurface,
     paddingHorizontal: 6,
     paddingVertical: 2,
     borderRadius: 4,
@@ -1069,16 +1112,16 @@ const styles = StyleSheet.create({
   premiumText: {
     fontSize: 10,
     fontWeight: '600',
-    color: '#000',
+    color: colors.text,
   },
   username: {
     fontSize: 20,
-    color: '#000',
+    color: colors.text,
     fontWeight: '600',
   },
   memberNumber: {
     fontSize: 12,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 2,
   },
   bioSectionInline: {
@@ -1090,9 +1133,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
     gap: 6,
-    backgroundColor: '#EEF2FF',
+    backgroundColor: colors.accentSurface,
     borderWidth: 1.5,
-    borderColor: '#C7D2FE',
+    borderColor: colors.accentSurface,
     borderRadius: 8,
     paddingVertical: 8,
     paddingHorizontal: 16,
@@ -1102,7 +1145,7 @@ const styles = StyleSheet.create({
   editProfileButtonText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#6366F1',
+    color: colors.accent,
     letterSpacing: 0.2,
   },
   bioSection: {
@@ -1117,13 +1160,13 @@ const styles = StyleSheet.create({
   bioText: {
     flex: 1,
     fontSize: 14,
-    color: '#000',
+    color: colors.text,
     lineHeight: 20,
   },
   bioPlaceholder: {
     flex: 1,
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     fontStyle: 'italic',
   },
   bioEditIcon: {
@@ -1137,9 +1180,9 @@ const styles = StyleSheet.create({
   },
   bioInput: {
     fontSize: 14,
-    color: '#000',
+    color: colors.text,
     borderWidth: 1,
-    borderColor: '#E5E5E5',
+    borderColor: colors.border,
     borderRadius: 8,
     padding: 12,
     minHeight: 80,
@@ -1155,26 +1198,26 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
   },
   bioButtonPrimary: {
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     borderRadius: 6,
   },
   bioButtonText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     fontWeight: '500',
   },
   bioButtonTextPrimary: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   tabContainer: {
     borderTopWidth: 1,
-    borderTopColor: '#E5E5E5',
+    borderTopColor: colors.border,
     flex: 1,
   },
   tabBar: {
     flexDirection: 'row',
     position: 'relative',
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   tab: {
     paddingVertical: 16,
@@ -1185,11 +1228,11 @@ const styles = StyleSheet.create({
   tabText: {
     fontSize: 14,
     fontWeight: '500',
-    color: '#999',
+    color: colors.textMuted,
     letterSpacing: 0.3,
   },
   tabTextActive: {
-    color: '#000',
+    color: colors.text,
     fontWeight: '600',
   },
   tabIndicator: {
@@ -1197,7 +1240,7 @@ const styles = StyleSheet.create({
     top: 0,
     left: 0,
     height: '100%',
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     zIndex: 0,
   },
@@ -1210,7 +1253,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
   },
   commentCard: {
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
     marginBottom: 12,
@@ -1226,13 +1269,13 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     marginRight: 12,
     overflow: 'hidden',
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
   },
   commentAvatarPlaceholder: {
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1247,23 +1290,29 @@ const styles = StyleSheet.create({
   commentAuthor: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#000',
+    color: colors.text,
     marginBottom: 2,
   },
   commentDate: {
     fontSize: 12,
-    color: '#999',
+    color: colors.textMuted,
   },
   commentArticleTitle: {
     fontSize: 11,
-    color: '#999',
+    color: colors.textMuted,
     marginBottom: 8,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  commentReplyTo: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    marginBottom: 6,
+  },
   commentContent: {
     fontSize: 15,
-    color: '#1a1a1a',
+    color: colors.text,
     lineHeight: 22,
   },
   emptyStateContainer: {
@@ -1281,13 +1330,13 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 16,
     textAlign: 'center',
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 8,
     textAlign: 'center',
   },
@@ -1316,7 +1365,7 @@ const styles = StyleSheet.create({
     width: Dimensions.get('window').width * 0.9,
     height: Dimensions.get('window').width * 0.9,
     borderRadius: 8,
-    backgroundColor: '#E5E7EB',
+    backgroundColor: colors.border,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1338,7 +1387,7 @@ const styles = StyleSheet.create({
     gap: 12,
   },
   statCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     borderRadius: 12,
     paddingVertical: 10,
     paddingHorizontal: 12,
@@ -1351,28 +1400,76 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
     borderWidth: 1,
-    borderColor: '#F0F0F0',
+    borderColor: colors.border,
     flexDirection: 'row',
     alignItems: 'center',
     gap: 12,
   },
   statCardPrimary: {
     borderLeftWidth: 4,
-    borderLeftColor: '#6366F1',
+    borderLeftColor: colors.accent,
   },
   statCardStreak: {
     borderLeftWidth: 4,
-    borderLeftColor: '#F59E0B',
+    borderLeftColor: colors.premium,
   },
   statCardComments: {
     borderLeftWidth: 4,
-    borderLeftColor: '#10B981',
+    borderLeftColor: colors.success,
+  },
+  streakAtRisk: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.premiumText,
+    marginBottom: 6,
+  },
+  freezeBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.fill,
+  },
+  freezeCount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.link,
+  },
+  freezeHint: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: -4,
+    paddingHorizontal: 4,
+  },
+  achievementsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 6,
+  },
+  achievementsCount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  statCardReading: {
+    borderLeftWidth: 4,
+    borderLeftColor: colors.link,
+  },
+  chartCard: {
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
   },
   statIconContainer: {
     width: 44,
     height: 44,
     borderRadius: 22,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1383,13 +1480,13 @@ const styles = StyleSheet.create({
   statNumber: {
     fontSize: 26,
     fontWeight: '700',
-    color: '#000',
+    color: colors.text,
     marginBottom: 2,
     letterSpacing: -0.5,
   },
   statLabel: {
     fontSize: 11,
-    color: '#666',
+    color: colors.textSecondary,
     fontWeight: '500',
     marginBottom: 6,
     textTransform: 'uppercase',
@@ -1397,7 +1494,7 @@ const styles = StyleSheet.create({
   },
   statSubLabel: {
     fontSize: 12,
-    color: '#94A3B8',
+    color: colors.textMuted,
     marginBottom: 6,
   },
 });
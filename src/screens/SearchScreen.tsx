@@ -0,0 +1,464 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Keyboard,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import Layout from '../components/Layout';
+import SearchResultCard from '../components/SearchResultCard';
+import { apiClient, type SearchFilters } from '../lib/api';
+import {
+  getRecentSearches,
+  addRecentSearch,
+  removeRecentSearch,
+  clearRecentSearches,
+} from '../lib/recentSearches';
+import type { ArticleTier, SearchResult } from '../lib/schema';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+interface SearchScreenProps {
+  route: {
+    params?: {
+      // Pre-selected tier filter (e.g. AF+ when opened from the AF+ tab)
+      tier?: ArticleTier;
+    };
+  };
+}
+
+type DateRange = 'any' | 'week' | 'month' | 'year';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIER_OPTIONS: { value: ArticleTier | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'AF', label: 'AF' },
+  { value: 'AF+', label: 'AF+' },
+];
+
+const DATE_RANGE_OPTIONS: { value: DateRange; label: string; days?: number }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'week', label: 'Past week', days: 7 },
+  { value: 'month', label: 'Past month', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 },
+];
+
+const toFilters = (tier: ArticleTier | undefined, dateRange: DateRange): SearchFilters => {
+  const days = DATE_RANGE_OPTIONS.find((option) => option.value === dateRange)?.days;
+  return {
+    tier,
+    from: days ? new Date(Date.now() - days * DAY_MS).toISOString() : undefined,
+  };
+};
+
+export default function SearchScreen({ route }: SearchScreenProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [tier, setTier] = useState<ArticleTier | undefined>(route.params?.tier);
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  // Each search gets its own controller so typing cancels the previous one
+  const requestRef = useRef<AbortController | null>(null);
+  // Worked out once per search, so later pages share its date window
+  const filtersRef = useRef<SearchFilters>({});
+
+  useEffect(() => {
+    getRecentSearches().then(setRecentSearches);
+  }, []);
+
+  // Debounce input so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const runSearch = useCallback(async (mode: 'initial' | 'more', cursor?: string) => {
+    requestRef.current?.abort();
+    if (!debouncedQuery) {
+      requestRef.current = null;
+      setResults([]);
+      setTotal(undefined);
+      setNextCursor(undefined);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    if (mode === 'initial') {
+      filtersRef.current = toFilters(tier, dateRange);
+      setLoading(true);
+    }
+    if (mode === 'more') setLoadingMore(true);
+
+    try {
+      const result = await apiClient.searchArticles(debouncedQuery, filtersRef.current, {
+        cursor,
+        limit: PAGE_SIZE,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+
+      if (result.success && result.results) {
+        const page = result.results;
+        setResults((prev) => (mode === 'more' ? [...prev, ...page] : page));
+        setTotal(result.total);
+        setNextCursor(result.hasMore ? result.nextCursor : undefined);
+        setError(null);
+      } else {
+        setError(result.error || 'Search failed');
+      }
+    } catch (error) {
+      console.error('Error searching articles:', error);
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [debouncedQuery, tier, dateRange]);
+
+  // Search again whenever the query or a filter changes
+  useEffect(() => {
+    runSearch('initial');
+  }, [runSearch]);
+
+  // Cancel any in-flight request on unmount
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
+
+  const onEndReached = useCallback(() => {
+    if (!nextCursor || loading || loadingMore) return;
+    runSearch('more', nextCursor);
+  }, [nextCursor, loading, loadingMore, runSearch]);
+
+  const rememberQuery = useCallback(async (value: string) => {
+    if (!value.trim()) return;
+    setRecentSearches(await addRecentSearch(value));
+  }, []);
+
+  const handleSubmit = () => {
+    setDebouncedQuery(query.trim());
+    rememberQuery(query);
+  };
+
+  const handleRecentPress = (value: string) => {
+    Keyboard.dismiss();
+    setQuery(value);
+    setDebouncedQuery(value);
+    rememberQuery(value);
+  };
+
+  const handleRemoveRecent = async (value: string) => {
+    setRecentSearches(await removeRecentSearch(value));
+  };
+
+  const handleClearRecent = async () => {
+    await clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const handleResultPress = (result: SearchResult) => {
+    rememberQuery(debouncedQuery);
+    navigation.navigate('ArticleDetail', { article: result.article });
+  };
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRecentSearches = () => (
+    <View style={styles.recentContainer}>
+      <View style={styles.recentHeader}>
+        <Text style={styles.recentTitle}>Recent searches</Text>
+        <TouchableOpacity onPress={handleClearRecent}>
+          <Text style={styles.recentClear}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      {recentSearches.map((item) => (
+        <TouchableOpacity key={item} style={styles.recentRow} onPress={() => handleRecentPress(item)}>
+          <MaterialIcons name="history" size={18} color={colors.textMuted} />
+          <Text style={styles.recentText} numberOfLines={1}>
+            {item}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemoveRecent(item)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <MaterialIcons name="close" size={16} color={colors.textMuted} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <MaterialIcons name={error ? 'error-outline' : 'search-off'} size={48} color={colors.textMuted} />
+      <Text style={styles.emptyStateText}>
+        {error ? 'Search failed' : 'No matching articles'}
+      </Text>
+      <Text style={styles.emptyStateSubtext}>
+        {error ? 'Please try again later' : 'Try different words or widen the filters'}
+      </Text>
+    </View>
+  );
+
+  const renderFooter = () =>
+    loadingMore ? (
+      <View style={styles.footerLoader}>
+        <ActivityIndicator size="small" color={colors.text} />
+      </View>
+    ) : null;
+
+  const renderBody = () => {
+    if (!debouncedQuery) {
+      return recentSearches.length > 0 ? renderRecentSearches() : null;
+    }
+    if (loading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      );
+    }
+    if (results.length === 0) {
+      return <View style={styles.emptyContainer}>{renderEmptyState()}</View>;
+    }
+    return (
+      <FlatList
+        data={results}
+        renderItem={({ item }) => (
+          <SearchResultCard result={item} onPress={() => handleResultPress(item)} />
+        )}
+        keyExtractor={(item) => item.article.id.toString()}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        onScrollBeginDrag={Keyboard.dismiss}
+        ListHeaderComponent={
+          total !== undefined ? (
+            <Text style={styles.resultCount}>
+              {total} {total === 1 ? 'result' : 'results'}
+            </Text>
+          ) : null
+        }
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={renderFooter}
+      />
+    );
+  };
+
+  return (
+    <Layout
+      leftHeaderActions={
+        <TouchableOpacity
+          onPress={handleBack}
+          style={styles.headerButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+      }
+    >
+      <View style={styles.container}>
+        <View style={styles.searchContainer}>
+          <MaterialIcons name="search" size={20} color={colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search articles..."
+            value={query}
+            onChangeText={setQuery}
+            onSubmitEditing={handleSubmit}
+            returnKeyType="search"
+            autoFocus
+            autoCorrect={false}
+            placeholderTextColor={colors.textMuted}
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <MaterialIcons name="close" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.filterRow}>
+          {TIER_OPTIONS.map((option) =>
+            renderChip(option.label, tier === option.value, () => setTier(option.value))
+          )}
+        </View>
+        <View style={styles.filterRow}>
+          {DATE_RANGE_OPTIONS.map((option) =>
+            renderChip(option.label, dateRange === option.value, () => setDateRange(option.value))
+          )}
+        </View>
+
+        {renderBody()}
+      </View>
+    </Layout>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.fill,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    height: 40,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.text,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+    fontWeight: '600',
+  },
+  recentContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  recentTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  recentClear: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  recentText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    marginLeft: 10,
+  },
+  resultCount: {
+    fontSize: 13,
+    color: colors.textMuted,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    width: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footerLoader: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    width: '100%',
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,28 +6,88 @@ import {
   TouchableOpacity,
   ScrollView,
   Switch,
+  Alert,
 } from 'react-native';
 import { MaterialIcons, Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import Layout from '../components/Layout';
+import AFPlusPurchaseModal from '../components/AFPlusPurchaseModal';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import { logger } from '../lib/logger';
-import { isAFPlusMember } from '../lib/planUtils';
+import { apiClient } from '../lib/api';
+import { getAvailableNotificationTopics, registerForPushNotifications } from '../lib/pushNotifications';
+import type { NotificationPreferences, NotificationTopic } from '../lib/schema';
+import type { ThemeColors, ThemeMode } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-type ThemeMode = 'light' | 'dark' | 'system';
+const THEME_OPTIONS: { mode: ThemeMode; label: string; icon: React.ComponentProps<typeof MaterialIcons>['name'] }[] = [
+  { mode: 'light', label: 'Light', icon: 'wb-sunny' },
+  { mode: 'dark', label: 'Dark', icon: 'nightlight-round' },
+  { mode: 'system', label: 'System', icon: 'brightness-auto' },
+];
 
 export default function SettingsScreen() {
+  const { colors, mode: themeMode, setMode: setThemeMode } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
-  const { logout, user } = useAuth();
+  const { logout, user, blockedUsers, unblockUser } = useAuth();
 
-  // Mock state for UI (no functionality yet)
-  const [themeMode, setThemeMode] = useState<ThemeMode>('light');
-  const [dailyNotifications, setDailyNotifications] = useState(true);
-  const [afPlusNotifications, setAfPlusNotifications] = useState(false);
+  // Stored on the server; null until loaded
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+  const [purchaseModalVisible, setPurchaseModalVisible] = useState(false);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef(new AbortController());
+  const notificationTopics = getAvailableNotificationTopics(user?.plan);
+
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+    return () => abortController.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const { signal } = abortControllerRef.current;
+
+    apiClient.getNotificationPreferences({ signal }).then((result) => {
+      if (signal.aborted) return;
+      if (result.success && result.preferences) {
+        setNotificationPreferences(result.preferences);
+      }
+    });
+  }, [user?.id]);
+
+  const handleToggleNotification = async (topic: NotificationTopic, enabled: boolean) => {
+    if (!notificationPreferences) return;
+
+    // Turning a topic on needs a registered device; this is where permission is asked for
+    if (enabled) {
+      const registration = await registerForPushNotifications({ prompt: true });
+      if (!registration.success) {
+        Alert.alert(
+          registration.permissionDenied ? 'Notifications Disabled' : 'Error',
+          registration.permissionDenied
+            ? 'Allow notifications for Athletic Finance in your device settings to receive them.'
+            : registration.error || 'Failed to enable notifications. Please try again.'
+        );
+        return;
+      }
+    }
+
+    const previous = notificationPreferences;
+    setNotificationPreferences({ ...previous, [topic]: enabled });
+
+    const result = await apiClient.updateNotificationPreferences({ [topic]: enabled });
+    if (!result.success || !result.preferences) {
+      setNotificationPreferences(previous);
+      Alert.alert('Error', result.error || 'Failed to update notifications. Please try again.');
+      return;
+    }
+    setNotificationPreferences(result.preferences);
+  };
 
   const handleSignOut = async () => {
     try {
@@ -39,6 +99,27 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleUnblock = (userId: string, username?: string) => {
+    Alert.alert(
+      username ? `Unblock @${username}?` : 'Unblock member?',
+      'Their comments and replies will be visible to you again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: async () => {
+            try {
+              await unblockUser(userId);
+            } catch (error: any) {
+              logger.error('[SETTINGS] handleUnblock: Unblock error:', error?.message || error);
+              Alert.alert('Error', error?.message || 'Failed to unblock member. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const renderSettingRow = (
     icon: string,
     iconFamily: 'MaterialIcons' | 'Ionicons',
@@ -56,9 +137,9 @@ export default function SettingsScreen() {
       <View style={styles.settingLeft}>
         <View style={[styles.iconContainer, destructive && styles.iconContainerDestructive]}>
           {iconFamily === 'MaterialIcons' ? (
-            <MaterialIcons name={icon as any} size={20} color={destructive ? '#EF4444' : '#374151'} />
+            <MaterialIcons name={icon as any} size={20} color={destructive ? colors.danger : colors.textSecondary} />
           ) : (
-            <Ionicons name={icon as any} size={20} color={destructive ? '#EF4444' : '#374151'} />
+            <Ionicons name={icon as any} size={20} color={destructive ? colors.danger : colors.textSecondary} />
           )}
         </View>
         <Text style={[styles.settingTitle, destructive && styles.settingTitleDestructive]}>
@@ -68,38 +149,31 @@ export default function SettingsScreen() {
       {rightElement ? (
         rightElement
       ) : (
-        <MaterialIcons name="chevron-right" size={24} color="#9CA3AF" />
+        <MaterialIcons name="chevron-right" size={24} color={colors.textMuted} />
       )}
     </TouchableOpacity>
   );
 
-  const renderThemeSelector = () => {
-    const isLightMode = themeMode === 'light';
-
-    return (
-      <View style={styles.themeSelectorContainer}>
-        <TouchableOpacity
-          style={styles.themeToggle}
-          onPress={() => setThemeMode(isLightMode ? 'dark' : 'light')}
-          activeOpacity={0.8}
-        >
-          <View style={[styles.themeSlider, isLightMode ? styles.themeSliderLeft : styles.themeSliderRight]} />
-          <View style={[styles.themeLabel, styles.themeLabelLeft]}>
-            <MaterialIcons name="wb-sunny" size={18} color={isLightMode ? '#fff' : '#9CA3AF'} />
-            <Text style={[styles.themeLabelText, isLightMode && styles.themeLabelTextActive]}>
-              Light
-            </Text>
-          </View>
-          <View style={[styles.themeLabel, styles.themeLabelRight]}>
-            <MaterialIcons name="nightlight-round" size={18} color={!isLightMode ? '#fff' : '#9CA3AF'} />
-            <Text style={[styles.themeLabelText, !isLightMode && styles.themeLabelTextActive]}>
-              Dark
-            </Text>
-          </View>
-        </TouchableOpacity>
+  const renderThemeSelector = () => (
+    <View style={styles.themeSelectorContainer}>
+      <View style={styles.themeToggle}>
+        {THEME_OPTIONS.map(({ mode, label, icon }) => {
+          const active = themeMode === mode;
+          return (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.themeOption, active && styles.themeOptionActive]}
+              onPress={() => setThemeMode(mode)}
+              activeOpacity={0.8}
+            >
+              <MaterialIcons name={icon} size={18} color={active ? colors.onPrimary : colors.textMuted} />
+              <Text style={[styles.themeLabelText, active && styles.themeLabelTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
       </View>
-    );
-  };
+    </View>
+  );
 
   return (
     <Layout
@@ -108,7 +182,7 @@ export default function SettingsScreen() {
           onPress={() => navigation.goBack()}
           style={styles.backButton}
         >
-          <MaterialIcons name="arrow-back" size={24} color="#000" />
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
       }
     >
@@ -131,7 +205,7 @@ export default function SettingsScreen() {
                 'MaterialIcons',
                 'Log Out',
                 handleSignOut,
-                <MaterialIcons name="chevron-right" size={24} color="#EF4444" />,
+                <MaterialIcons name="chevron-right" size={24} color={colors.danger} />,
                 true
               )}
             </View>
@@ -145,7 +219,7 @@ export default function SettingsScreen() {
               <View style={styles.settingRowFullWidth}>
                 <View style={styles.settingLeft}>
                   <View style={styles.iconContainer}>
-                    <MaterialIcons name="palette" size={20} color="#6366F1" />
+                    <MaterialIcons name="palette" size={20} color={colors.accent} />
                   </View>
                   <Text style={styles.settingTitle}>Theme</Text>
                 </View>
@@ -161,44 +235,50 @@ export default function SettingsScreen() {
                 'Daily Notifications',
                 undefined,
                 <Switch
-                  value={dailyNotifications}
-                  onValueChange={setDailyNotifications}
-                  trackColor={{ false: '#E5E7EB', true: '#9CA3AF' }}
-                  thumbColor={dailyNotifications ? '#374151' : '#F3F4F6'}
-                  ios_backgroundColor="#E5E7EB"
+                  value={notificationPreferences?.daily ?? false}
+                  onValueChange={(value) => handleToggleNotification('daily', value)}
+                  disabled={!notificationPreferences}
+                  trackColor={{ false: colors.border, true: colors.textMuted }}
+                  thumbColor={notificationPreferences?.daily ? colors.textSecondary : colors.surfaceMuted}
+                  ios_backgroundColor={colors.border}
                 />
               )}
               
               <View style={styles.divider} />
               
               {/* AF+ Notifications or Join AF+ Button */}
-              {isAFPlusMember(user?.plan) ? (
+              {notificationTopics.includes('afplus') ? (
                 renderSettingRow(
                   'star',
                   'MaterialIcons',
                   'AF+ Notifications',
                   undefined,
                   <Switch
-                    value={afPlusNotifications}
-                    onValueChange={setAfPlusNotifications}
-                    trackColor={{ false: '#E5E7EB', true: '#F59E0B' }}
-                    thumbColor={afPlusNotifications ? '#fff' : '#F3F4F6'}
-                    ios_backgroundColor="#E5E7EB"
+                    value={notificationPreferences?.afplus ?? false}
+                    onValueChange={(value) => handleToggleNotification('afplus', value)}
+                    disabled={!notificationPreferences}
+                    trackColor={{ false: colors.border, true: colors.premium }}
+                    thumbColor={notificationPreferences?.afplus ? '#fff' : colors.surfaceMuted}
+                    ios_backgroundColor={colors.border}
                   />
                 )
               ) : (
                 <TouchableOpacity
                   style={styles.afPlusRow}
                   activeOpacity={0.7}
-                  onPress={() => {}}
+                  onPress={() => setPurchaseModalVisible(true)}
                 >
                   <View style={styles.settingLeft}>
                     <View style={[styles.iconContainer, styles.iconContainerAfPlus]}>
-                      <MaterialIcons name="star" size={20} color="#F59E0B" />
+                      <MaterialIcons name="star" size={20} color={colors.premium} />
                     </View>
                     <Text style={styles.settingTitle}>AF+ Notifications</Text>
                   </View>
-                  <TouchableOpacity style={styles.afPlusButton} activeOpacity={0.8}>
+                  <TouchableOpacity
+                    style={styles.afPlusButton}
+                    activeOpacity={0.8}
+                    onPress={() => setPurchaseModalVisible(true)}
+                  >
                     <MaterialIcons name="star" size={16} color="#fff" />
                     <Text style={styles.afPlusButtonText}>Join AF+</Text>
                   </TouchableOpacity>
@@ -207,18 +287,53 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {/* Container 3: Privacy & Safety */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Privacy & Safety</Text>
+            <View style={styles.card}>
+              <View style={styles.settingRowFullWidth}>
+                <View style={styles.settingLeft}>
+                  <View style={styles.iconContainer}>
+                    <MaterialIcons name="block" size={20} color={colors.textSecondary} />
+                  </View>
+                  <Text style={styles.settingTitle}>Blocked Members</Text>
+                </View>
+              </View>
+              {blockedUsers.length === 0 ? (
+                <Text style={styles.emptyBlockedText}>No blocked members</Text>
+              ) : (
+                blockedUsers.map((blocked) => (
+                  <View key={blocked.userId} style={styles.blockedRow}>
+                    <Text style={styles.blockedName} numberOfLines={1}>
+                      {blocked.username ? `@${blocked.username.replace(/^@+/, '')}` : 'Member'}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.unblockButton}
+                      onPress={() => handleUnblock(blocked.userId, blocked.username?.replace(/^@+/, ''))}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.unblockButtonText}>Unblock</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </View>
+          </View>
+
           {/* Bottom spacing */}
           <View style={styles.bottomSpacing} />
         </View>
       </ScrollView>
+
+      <AFPlusPurchaseModal visible={purchaseModalVisible} onClose={() => setPurchaseModalVisible(false)} />
     </Layout>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.surface,
   },
   content: {
     flex: 1,
@@ -231,7 +346,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 32,
     fontWeight: 'bold',
-    color: '#111827',
+    color: colors.text,
     marginBottom: 28,
     letterSpacing: -0.5,
   },
@@ -241,14 +356,14 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#6B7280',
+    color: colors.textSecondary,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
     marginBottom: 12,
     marginLeft: 4,
   },
   card: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     borderRadius: 16,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
@@ -281,28 +396,28 @@ const styles = StyleSheet.create({
     width: 36,
     height: 36,
     borderRadius: 10,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surfaceMuted,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: 12,
   },
   iconContainerDestructive: {
-    backgroundColor: '#FEE2E2',
+    backgroundColor: colors.dangerSurface,
   },
   iconContainerAfPlus: {
-    backgroundColor: '#FEF3C7',
+    backgroundColor: colors.premiumSurface,
   },
   settingTitle: {
     fontSize: 16,
     fontWeight: '500',
-    color: '#111827',
+    color: colors.text,
   },
   settingTitleDestructive: {
-    color: '#EF4444',
+    color: colors.danger,
   },
   divider: {
     height: 1,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surfaceMuted,
     marginLeft: 64,
   },
   themeSelectorContainer: {
@@ -310,55 +425,37 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
   },
   themeToggle: {
-    position: 'relative',
     height: 50,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surfaceMuted,
     borderRadius: 12,
     flexDirection: 'row',
     alignItems: 'center',
     padding: 4,
   },
-  themeSlider: {
-    position: 'absolute',
-    width: '50%',
+  themeOption: {
+    flex: 1,
     height: 42,
-    backgroundColor: '#000',
-    borderRadius: 10,
+    flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
+    gap: 6,
+    borderRadius: 10,
+  },
+  themeOptionActive: {
+    backgroundColor: colors.primary,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.15,
     shadowRadius: 4,
     elevation: 3,
   },
-  themeSliderLeft: {
-    left: 4,
-  },
-  themeSliderRight: {
-    right: 4,
-  },
-  themeLabel: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 8,
-    zIndex: 1,
-  },
-  themeLabelLeft: {
-    paddingLeft: 8,
-  },
-  themeLabelRight: {
-    paddingRight: 8,
-  },
   themeLabelText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#9CA3AF',
+    color: colors.textMuted,
   },
   themeLabelTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   afPlusRow: {
     flexDirection: 'row',
@@ -374,7 +471,7 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingHorizontal: 16,
     borderRadius: 8,
-    backgroundColor: '#F59E0B',
+    backgroundColor: colors.premium,
     shadowColor: '#F59E0B',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.3,
@@ -386,6 +483,38 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  emptyBlockedText: {
+    fontSize: 14,
+    color: colors.textMuted,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    marginLeft: 48,
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingLeft: 64,
+    paddingRight: 16,
+  },
+  blockedName: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    marginRight: 12,
+  },
+  unblockButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceMuted,
+  },
+  unblockButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
   bottomSpacing: {
     height: 40,
   },
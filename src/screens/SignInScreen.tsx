@@ -16,11 +16,15 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import afLogo from '../../assets/af-logo.png';
+import type { ThemeColors } from '../lib/theme';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function SignInScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const { login } = useAuth();
   const insets = useSafeAreaInsets();
@@ -82,7 +86,7 @@ export default function SignInScreen() {
           style={styles.backButton}
           onPress={() => navigation.navigate('Auth')}
         >
-          <MaterialIcons name="arrow-back" size={24} color="#000" />
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
       </View>
 
@@ -135,7 +139,7 @@ export default function SignInScreen() {
           disabled={isLoading}
         >
           {isLoading ? (
-            <ActivityIndicator color="#fff" />
+            <ActivityIndicator color={colors.onPrimary} />
           ) : (
             <Text style={styles.submitButtonText}>Sign In</Text>
           )}
@@ -145,10 +149,10 @@ export default function SignInScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   header: {
     position: 'absolute',
@@ -184,7 +188,7 @@ const styles = StyleSheet.create({
   },
   subtitle: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     marginBottom: 40,
     textAlign: 'center',
   },
@@ -196,40 +200,40 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
     marginBottom: 8,
-    color: '#000',
+    color: colors.text,
   },
   input: {
     width: '100%',
     height: 50,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     paddingHorizontal: 16,
     fontSize: 16,
     borderWidth: 0,
-    color: '#000',
+    color: colors.text,
   },
   inputError: {
     borderWidth: 2,
-    borderColor: '#EF4444',
+    borderColor: colors.danger,
   },
   errorText: {
-    color: '#EF4444',
+    color: colors.danger,
     fontSize: 14,
     marginBottom: 20,
     textAlign: 'center',
   },
   submitButton: {
     width: '100%',
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     paddingVertical: 16,
     borderRadius: 8,
     marginTop: 10,
   },
   submitButtonDisabled: {
-    backgroundColor: '#999',
+    backgroundColor: colors.textMuted,
   },
   submitButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
     textAlign: 'center',
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import Layout from '../components/Layout';
+import AchievementBadges from '../components/AchievementBadges';
+import { apiClient } from '../lib/api';
+import { normalizeHandle, toMentionSegments } from '../lib/mentions';
+import { getAchievements } from '../lib/achievements';
+import type { Comment, PublicProfile } from '../lib/schema';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+interface UserProfileScreenProps {
+  route: {
+    // The username is shown while the profile loads; links only carry the username
+    params: RootStackParamList['UserProfile'];
+  };
+}
+
+const RECENT_COMMENTS_LIMIT = 10;
+
+export default function UserProfileScreen({ route }: UserProfileScreenProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const userId = 'userId' in route.params ? route.params.userId : undefined;
+  const { username } = route.params;
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Cancels in-flight requests when the screen unmounts
+  const abortControllerRef = useRef(new AbortController());
+
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+    return () => abortController.abort();
+  }, []);
+
+  useEffect(() => {
+    const { signal } = abortControllerRef.current;
+
+    const loadProfile = async () => {
+      setLoading(true);
+      const result = userId
+        ? await apiClient.getPublicProfile(userId, { signal })
+        : await apiClient.getPublicProfileByUsername(username ?? '', { signal });
+      if (signal.aborted) return;
+
+      if (!result.success || !result.profile) {
+        setError(result.error || 'Failed to load profile');
+        setLoading(false);
+        return;
+      }
+
+      setProfile(result.profile);
+      setError(null);
+
+      // Private profiles don't expose their comments
+      if (!result.profile.hideProfile) {
+        const commentsResult = await apiClient.getUserComments(result.profile.userId, {
+          limit: RECENT_COMMENTS_LIMIT,
+          signal,
+        });
+        if (signal.aborted) return;
+        setComments(commentsResult.comments ?? []);
+      }
+      setLoading(false);
+    };
+
+    loadProfile();
+  }, [userId, username]);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return Number.isNaN(date.getTime())
+      ? ''
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  const handle = normalizeHandle(profile?.username ?? username ?? '');
+  const avatarUri = profile?.avatar && profile.avatar.startsWith('http') ? profile.avatar : null;
+  const memberSince = profile?.createdAt ? new Date(profile.createdAt) : null;
+
+  const renderStat = (icon: React.ComponentProps<typeof MaterialIcons>['name'], color: string, value: number, label: string) => (
+    <View style={styles.statCard}>
+      <MaterialIcons name={icon} size={20} color={color} />
+      <Text style={styles.statNumber}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderComment = (comment: Comment) => (
+    <View key={comment.comment_id} style={styles.commentCard}>
+      {comment.articleTitle ? (
+        <Text style={styles.commentArticle} numberOfLines={1}>
+          {comment.articleTitle}
+        </Text>
+      ) : null}
+      <Text style={styles.commentContent}>
+        {toMentionSegments(comment.content, comment.mentions).map((segment) => segment.text).join('')}
+      </Text>
+      <Text style={styles.commentDate}>{formatDate(comment.createdAt)}</Text>
+    </View>
+  );
+
+  const renderBody = () => {
+    if (!profile) return null;
+
+    if (profile.hideProfile) {
+      return (
+        <View style={styles.privateNotice}>
+          <MaterialIcons name="lock" size={20} color={colors.textMuted} />
+          <Text style={styles.privateNoticeText}>This member keeps their profile private</Text>
+        </View>
+      );
+    }
+
+    // Other members only see the badges that have been earned
+    const earnedAchievements = profile.stats
+      ? getAchievements({ stats: profile.stats, memberNumber: profile.memberNumber }).filter((achievement) => achievement.earned)
+      : [];
+
+    return (
+      <>
+        {profile.description ? <Text style={styles.bio}>{profile.description}</Text> : null}
+        {memberSince && !Number.isNaN(memberSince.getTime()) && (
+          <Text style={styles.memberSince}>
+            Member since {memberSince.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </Text>
+        )}
+
+        {profile.stats && (
+          <View style={styles.statsRow}>
+            {renderStat('local-fire-department', colors.premium, profile.stats.streak, 'Day Streak')}
+            {renderStat('article', colors.accent, profile.stats.articlesRead, 'Articles Read')}
+            {renderStat('comment', colors.success, profile.stats.commentsPosted, 'Comments')}
+          </View>
+        )}
+
+        {earnedAchievements.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Achievements</Text>
+            <AchievementBadges achievements={earnedAchievements} />
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Recent Comments</Text>
+          {comments.length > 0 ? (
+            comments.map(renderComment)
+          ) : (
+            <Text style={styles.emptyCommentsText}>No comments yet</Text>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Layout
+      leftHeaderActions={
+        <TouchableOpacity
+          onPress={() => (navigation.canGoBack() ? navigation.goBack() : navigation.navigate('MainTabs'))}
+          style={styles.headerButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+      }
+    >
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      ) : error || !profile ? (
+        <View style={styles.centered}>
+          <MaterialIcons name="person-off" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyStateText}>{error || 'This member could not be found'}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.identity}>
+            <View style={styles.avatar}>
+              {avatarUri ? (
+                <Image source={{ uri: avatarUri }} style={styles.avatarImage} resizeMode="cover" />
+              ) : (
+                <MaterialIcons name="person" size={48} color={colors.textMuted} />
+              )}
+            </View>
+            {profile.name ? <Text style={styles.name}>{profile.name}</Text> : null}
+            <Text style={styles.username}>@{handle}</Text>
+            {!profile.hideProfile && profile.memberNumber ? (
+              <Text style={styles.memberNumber}>Member #{profile.memberNumber}</Text>
+            ) : null}
+          </View>
+
+          {renderBody()}
+        </ScrollView>
+      )}
+    </Layout>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  headerButton: {
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 32,
+    paddingBottom: 40,
+  },
+  identity: {
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  avatarImage: {
+    width: 96,
+    height: 96,
+  },
+  name: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  username: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  memberNumber: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginTop: 6,
+  },
+  bio: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  memberSince: {
+    fontSize: 13,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  privateNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 20,
+    marginTop: 24,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+  },
+  privateNoticeText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 24,
+  },
+  statCard: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  statNumber: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 6,
+    letterSpacing: -0.5,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    fontWeight: '500',
+    marginTop: 2,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  section: {
+    marginTop: 28,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  commentCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  commentArticle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 6,
+  },
+  commentContent: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  commentDate: {
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: 8,
+  },
+  emptyCommentsText: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+});
@@ -14,7 +14,9 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import afLogo from '../../assets/af-logo.png';
+import type { ThemeColors } from '../lib/theme';
 
 interface VerificationScreenParams {
   email: string;
@@ -25,6 +27,8 @@ interface VerificationScreenParams {
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function VerificationScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute();
   const { email, username, password } = (route.params || {}) as VerificationScreenParams;
@@ -178,7 +182,7 @@ export default function VerificationScreen() {
           disabled={!isCodeComplete || isLoading}
         >
           {isLoading ? (
-            <ActivityIndicator color="#fff" />
+            <ActivityIndicator color={colors.onPrimary} />
           ) : (
             <Text style={styles.submitButtonText}>Verify Email</Text>
           )}
@@ -202,10 +206,10 @@ export default function VerificationScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   logoContainer: {
     alignItems: 'center',
@@ -229,7 +233,7 @@ const styles = StyleSheet.create({
     width: 80,
     height: 80,
     borderRadius: 40,
-    backgroundColor: '#E3F2FD',
+    backgroundColor: colors.accentSurface,
   },
   title: {
     fontSize: 24,
@@ -239,7 +243,7 @@ const styles = StyleSheet.create({
   },
   description: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 4,
   },
@@ -259,7 +263,7 @@ const styles = StyleSheet.create({
   codeInput: {
     width: 50,
     height: 50,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: colors.fill,
     borderRadius: 8,
     textAlign: 'center',
     fontSize: 24,
@@ -268,11 +272,11 @@ const styles = StyleSheet.create({
   },
   codeInputError: {
     borderWidth: 2,
-    borderColor: '#EF4444',
-    backgroundColor: '#FEF2F2',
+    borderColor: colors.danger,
+    backgroundColor: colors.dangerSurface,
   },
   errorText: {
-    color: '#EF4444',
+    color: colors.danger,
     fontSize: 14,
     textAlign: 'center',
     marginTop: 8,
@@ -281,16 +285,16 @@ const styles = StyleSheet.create({
   },
   submitButton: {
     width: '100%',
-    backgroundColor: '#000',
+    backgroundColor: colors.primary,
     paddingVertical: 16,
     borderRadius: 8,
     marginBottom: 20,
   },
   submitButtonDisabled: {
-    backgroundColor: '#999',
+    backgroundColor: colors.textMuted,
   },
   submitButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
     textAlign: 'center',
@@ -300,11 +304,11 @@ const styles = StyleSheet.create({
   },
   resendText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   resendLink: {
-    color: '#000',
+    color: colors.text,
     fontWeight: '500',
   },
 });
@@ -12,12 +12,15 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import afLogo from '../../assets/af-logo.png';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import type { ThemeColors } from '../lib/theme';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function WelcomeScreen() {
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
   const touchStartY = useRef(0);
@@ -90,10 +93,10 @@ export default function WelcomeScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
     overflow: 'hidden',
   },
   slidesContainer: {
@@ -122,7 +125,7 @@ const styles = StyleSheet.create({
   },
   hintText: {
     fontSize: 16,
-    color: '#999',
+    color: colors.textMuted,
     marginTop: 20,
   },
 });
@@ -1,5 +1,6 @@
 declare module 'react-native-render-html' {
   import { ComponentType } from 'react';
+  import { TextProps } from 'react-native';
 
   interface RenderHTMLSource {
     html?: string;
@@ -10,10 +11,14 @@ declare module 'react-native-render-html' {
     source: RenderHTMLSource;
     contentWidth: number;
     tagsStyles?: Record<string, any>;
+    systemFonts?: string[];
+    defaultTextProps?: TextProps;
   }
 
   const RenderHTML: ComponentType<RenderHTMLProps>;
 
+  export const defaultSystemFonts: string[];
+
   export default RenderHTML;
 }
 